@@ -1,8 +1,9 @@
 #!/usr/bin/env node
 
-// Reads credentials from .env and injects them into the compiled dist/index.js
-// Runs as part of "prepublishOnly" so secrets end up in the npm package
-// but never in the git source code.
+// Reads the public OAuth client ID from .env and injects it into the compiled
+// dist/oauth.js. Runs as part of "prepublishOnly" so the ID ends up in the npm
+// package but never in the git source code. The package is a public client:
+// sign-in uses PKCE, so no client secret is embedded.
 
 import * as fs from 'fs';
 import * as path from 'path';
@@ -27,29 +28,27 @@ for (const line of envContent.split('\n')) {
 }
 
 const clientId = env.GOOGLE_CLIENT_ID;
-const clientSecret = env.GOOGLE_CLIENT_SECRET;
 
-if (!clientId || !clientSecret) {
-  console.error('ERROR: GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set in .env');
+if (!clientId) {
+  console.error('ERROR: GOOGLE_CLIENT_ID must be set in .env');
   process.exit(1);
 }
 
-// Replace placeholders in dist/index.js
-const distPath = path.join(__dirname, 'dist', 'index.js');
+// Replace the placeholder in dist/oauth.js
+const distPath = path.join(__dirname, 'dist', 'oauth.js');
 if (!fs.existsSync(distPath)) {
-  console.error('ERROR: dist/index.js not found. Run "npm run build" first.');
+  console.error('ERROR: dist/oauth.js not found. Run "npm run build" first.');
   process.exit(1);
 }
 
 let content = fs.readFileSync(distPath, 'utf8');
 content = content.replace('__GOOGLE_CLIENT_ID__', clientId);
-content = content.replace('__GOOGLE_CLIENT_SECRET__', clientSecret);
 
-// Verify placeholders were replaced
-if (content.includes('__GOOGLE_CLIENT_ID__') || content.includes('__GOOGLE_CLIENT_SECRET__')) {
-  console.error('ERROR: Failed to replace all placeholders.');
+// Verify the placeholder was replaced
+if (content.includes('__GOOGLE_CLIENT_ID__')) {
+  console.error('ERROR: Failed to replace the client ID placeholder.');
   process.exit(1);
 }
 
 fs.writeFileSync(distPath, content);
-console.log('Credentials injected into dist/index.js successfully.');
+console.log('Client ID injected into dist/oauth.js successfully.');
@@ -0,0 +1,49 @@
+// Named accounts ("profiles"): a school and a personal Google account, or one
+// per child for a parent. Each profile has its own entry in the credential
+// store; every tool takes an optional `account` argument, and the tools that
+// aggregate across courses also accept account: "all" to merge every profile.
+
+import * as path from 'path';
+
+export const DEFAULT_ACCOUNT = 'default';
+export const ALL_ACCOUNTS = 'all';
+
+// Tools whose results can be merged across every account.
+export const MERGEABLE_TOOLS = new Set(['get_grades', 'get_upcoming_assignments', 'get_missing_assignments']);
+
+export function isValidProfileName(name: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(name) && name !== ALL_ACCOUNTS;
+}
+
+// JSON schema fragment added to every tool.
+export function accountProperty(toolName: string) {
+  return {
+    account: {
+      type: 'string',
+      description: MERGEABLE_TOOLS.has(toolName)
+        ? 'Profile to use (see list_accounts), or "all" to merge results from every profile. Defaults to the default profile.'
+        : 'Profile to use (see list_accounts). Defaults to the default profile.',
+    },
+  };
+}
+
+// CLASSROOM_DEFAULT_ACCOUNT if it names a loaded profile, else "default",
+// else the first profile alphabetically.
+export function chooseDefaultAccount(names: string[]): string | null {
+  const configured = process.env.CLASSROOM_DEFAULT_ACCOUNT;
+  if (configured && names.includes(configured)) return configured;
+  if (names.includes(DEFAULT_ACCOUNT)) return DEFAULT_ACCOUNT;
+  return [...names].sort()[0] ?? null;
+}
+
+// CLASSROOM_FIXTURES is either a single file (the default profile) or a
+// path.delimiter-separated list of name=file entries.
+export function parseFixtureProfiles(value: string): { name: string; file: string }[] {
+  return value
+    .split(path.delimiter)
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^([A-Za-z0-9._-]+)=(.+)$/.exec(entry);
+      return match ? { name: match[1], file: match[2] } : { name: DEFAULT_ACCOUNT, file: entry };
+    });
+}
@@ -0,0 +1,164 @@
+// Token checks behind auth_status.
+//
+// At startup each account's token is refreshed and inspected with Google's
+// tokeninfo endpoint: which account it belongs to, which scopes were granted
+// and when it expires. Tools compare their own scope needs against the result
+// so a missing scope is reported by name instead of as a generic failure.
+
+import { OAuth2Client } from 'google-auth-library';
+import { GUARDIAN_SCOPE, GUARDIAN_SCOPES, SCOPE, SCOPES, TEACHER_SCOPE, TEACHER_SCOPES, WRITE_SCOPE, WRITE_SCOPES } from './oauth.js';
+
+export interface AuthStatus {
+  account: string;
+  source: 'fixtures' | 'environment' | 'store';
+  // The token works and every required scope was granted: SCOPES, plus
+  // the scopes of each optional mode that is on.
+  ok: boolean;
+  email: string | null;
+  grantedScopes: string[];
+  missingScopes: string[];
+  expiresAt: string | null;
+  // Whether the check had to use the refresh token for a new access token.
+  refreshed: boolean;
+  error: string | null;
+  checkedAt: string;
+}
+
+export type TokenCheck = Omit<AuthStatus, 'account' | 'source' | 'checkedAt'>;
+
+// Scopes each tool needs regardless of its arguments.
+export const TOOL_SCOPES: Record<string, string[]> = {
+  courses: [SCOPE.courses],
+  list_courses: [SCOPE.courses],
+  'course-details': [SCOPE.courses],
+  get_course: [SCOPE.courses],
+  assignments: [SCOPE.courseWork],
+  list_coursework: [SCOPE.courseWork],
+  get_coursework: [SCOPE.courseWork],
+  get_assignments: [SCOPE.courseWork],
+  get_assignment_materials: [SCOPE.courseWork],
+  list_submissions: [SCOPE.submissions],
+  list_announcements: [SCOPE.announcements],
+  list_topics: [SCOPE.topics],
+  list_course_materials: [SCOPE.materials, SCOPE.topics],
+  get_course_material: [SCOPE.materials, SCOPE.topics],
+  get_upcoming_assignments: [SCOPE.courses, SCOPE.courseWork],
+  get_missing_assignments: [SCOPE.courses, SCOPE.courseWork, SCOPE.submissions],
+  get_grades: [SCOPE.courses, SCOPE.courseWork, SCOPE.submissions],
+  calculate_grade: [SCOPE.courses, SCOPE.courseWork, SCOPE.submissions],
+  simulate_grade: [SCOPE.courses, SCOPE.courseWork, SCOPE.submissions],
+  get_changes_since: [SCOPE.courses, SCOPE.courseWork, SCOPE.submissions, SCOPE.announcements],
+  export_calendar: [SCOPE.courses, SCOPE.courseWork],
+  turn_in_submission: [SCOPE.courseWork, WRITE_SCOPE.submissions],
+  reclaim_submission: [SCOPE.courseWork, WRITE_SCOPE.submissions],
+  add_submission_link: [SCOPE.courseWork, WRITE_SCOPE.submissions],
+  list_students: [TEACHER_SCOPE.rosters, TEACHER_SCOPE.profiles],
+  list_teachers: [TEACHER_SCOPE.rosters, TEACHER_SCOPE.profiles],
+  get_submission_report: [SCOPE.courseWork, TEACHER_SCOPE.rosters, TEACHER_SCOPE.profiles, TEACHER_SCOPE.submissions],
+  list_students_i_guard: [GUARDIAN_SCOPE.guardianLinks, GUARDIAN_SCOPE.profiles],
+};
+
+export function missingScopes(granted: string[], required: string[] = SCOPES): string[] {
+  const have = new Set(granted);
+  return required.filter((scope) => !have.has(scope));
+}
+
+// "classroom.announcements.readonly" reads better in messages than the full URL.
+export function shortScope(scope: string): string {
+  return scope.replace('https://www.googleapis.com/auth/', '');
+}
+
+const OPTIONAL_SCOPES: [flag: string, scopes: string[]][] = [
+  ['--write', WRITE_SCOPES],
+  ['--teacher', TEACHER_SCOPES],
+  ['--guardian', GUARDIAN_SCOPES],
+];
+
+// The setup-auth flags that grant the `missing` scopes. Teacher and guardian
+// mode share scopes, so a mode only counts when `required` also holds one
+// of the scopes that only it requests.
+export function setupAuthFlags(missing: string[], required: string[] = missing): string[] {
+  const isOwnScope = (flag: string, scope: string) =>
+    OPTIONAL_SCOPES.every(([other, scopes]) => other === flag || !scopes.includes(scope));
+  return OPTIONAL_SCOPES
+    .filter(([flag, scopes]) =>
+      scopes.some((s) => missing.includes(s)) && scopes.some((s) => required.includes(s) && isOwnScope(flag, s)))
+    .map(([flag]) => flag);
+}
+
+export function setupAuthCommand(account: string, extraFlags: string[] = []): string {
+  const flags = [...(account === 'default' ? [] : ['--profile', account]), ...extraFlags];
+  return flags.length === 0 ? 'npm run setup-auth' : `npm run setup-auth -- ${flags.join(' ')}`;
+}
+
+export function missingScopeMessage(tool: string, account: string, missing: string[], required: string[] = missing): string {
+  return `${tool} needs the ${missing.map(shortScope).join(', ')} scope${missing.length > 1 ? 's' : ''}, ` +
+    `which account "${account}" has not granted. Run: ${setupAuthCommand(account, setupAuthFlags(missing, required))} and allow every permission.`;
+}
+
+// Turns token endpoint failures into something a user can act on.
+export function describeTokenError(error: unknown): string {
+  const data = (error as { response?: { data?: { error?: string; error_description?: string } } })?.response?.data;
+  if (data?.error === 'invalid_grant') {
+    return 'The refresh token has expired or was revoked (invalid_grant)';
+  }
+  if (data?.error === 'invalid_client' || data?.error === 'unauthorized_client') {
+    return `The OAuth client was rejected (${data.error}); it may have been deleted or changed`;
+  }
+  if (data?.error) {
+    return data.error_description ? `${data.error}: ${data.error_description}` : data.error;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Google reports a missing scope as a 403 with this reason.
+export function isInsufficientScopeError(error: unknown): boolean {
+  const e = error as { code?: number | string; message?: string; errors?: { reason?: string }[] };
+  if (e?.code !== 403 && e?.code !== '403') return false;
+  return /insufficient authentication scopes|ACCESS_TOKEN_SCOPE_INSUFFICIENT/i.test(e.message ?? '') ||
+    !!e.errors?.some((entry) => entry.reason === 'insufficientPermissions');
+}
+
+export async function checkToken(auth: OAuth2Client, required: string[] = SCOPES): Promise<TokenCheck> {
+  const before = auth.credentials.access_token;
+  let token: string | null | undefined;
+  try {
+    ({ token } = await auth.getAccessToken());
+  } catch (error) {
+    return {
+      ok: false,
+      email: null,
+      grantedScopes: [],
+      missingScopes: [],
+      expiresAt: null,
+      refreshed: false,
+      error: describeTokenError(error),
+    };
+  }
+  const refreshed = !!token && token !== before;
+
+  try {
+    const info = await auth.getTokenInfo(token!);
+    const missing = missingScopes(info.scopes, required);
+    return {
+      ok: missing.length === 0,
+      email: info.email ?? null,
+      grantedScopes: info.scopes,
+      missingScopes: missing,
+      expiresAt: info.expiry_date ? new Date(info.expiry_date).toISOString() : null,
+      refreshed,
+      error: null,
+    };
+  } catch (error) {
+    // The token works but could not be inspected; tools will still try it.
+    return {
+      ok: true,
+      email: null,
+      grantedScopes: [],
+      missingScopes: [],
+      expiresAt: auth.credentials.expiry_date ? new Date(auth.credentials.expiry_date).toISOString() : null,
+      refreshed,
+      error: `Could not inspect the token: ${describeTokenError(error)}`,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+// Typed boundary between the MCP server and Google Classroom.
+//
+// The server only ever talks to a ClassroomBackend. GoogleClassroomBackend
+// wraps the real API; FakeClassroomBackend serves fixture data offline.
+// Everything is read-only except the three submission writes, which only
+// the opt-in write tools call.
+
+import type { classroom_v1 } from 'googleapis';
+import type { Page, PageRequest } from './pagination.js';
+
+export type Course = classroom_v1.Schema$Course;
+export type CourseWork = classroom_v1.Schema$CourseWork;
+export type StudentSubmission = classroom_v1.Schema$StudentSubmission;
+export type Announcement = classroom_v1.Schema$Announcement;
+export type Topic = classroom_v1.Schema$Topic;
+export type CourseWorkMaterial = classroom_v1.Schema$CourseWorkMaterial;
+export type Student = classroom_v1.Schema$Student;
+export type Teacher = classroom_v1.Schema$Teacher;
+export type Guardian = classroom_v1.Schema$Guardian;
+export type UserProfile = classroom_v1.Schema$UserProfile;
+export type CourseAlias = classroom_v1.Schema$CourseAlias;
+
+export interface ListCoursesParams extends PageRequest {
+  courseStates?: string[];
+  teacherId?: string;
+  studentId?: string;
+}
+
+export interface ListCourseAliasesParams extends PageRequest {
+  courseId: string;
+}
+
+export interface ListCourseWorkParams extends PageRequest {
+  courseId: string;
+  courseWorkStates?: string[];
+}
+
+export interface ListSubmissionsParams extends PageRequest {
+  courseId: string;
+  // '-' lists submissions across every courseWork in the course.
+  courseWorkId: string;
+  // Omitted lists every student's submissions, which only teachers may do.
+  userId?: string;
+}
+
+export interface ListAnnouncementsParams extends PageRequest {
+  courseId: string;
+  announcementStates?: string[];
+}
+
+export interface ListTopicsParams extends PageRequest {
+  courseId: string;
+}
+
+// Students or teachers of a course.
+export interface ListRosterParams extends PageRequest {
+  courseId: string;
+}
+
+export interface ListGuardiansParams extends PageRequest {
+  // '-' lists every guardian link the caller may see.
+  studentId: string;
+}
+
+export interface ListCourseWorkMaterialsParams extends PageRequest {
+  courseId: string;
+  courseWorkMaterialStates?: string[];
+}
+
+export interface ClassroomBackend {
+  listCourses(params: ListCoursesParams): Promise<Page<Course>>;
+  getCourse(courseId: string): Promise<Course>;
+  listCourseAliases(params: ListCourseAliasesParams): Promise<Page<CourseAlias>>;
+  listCourseWork(params: ListCourseWorkParams): Promise<Page<CourseWork>>;
+  getCourseWork(courseId: string, courseWorkId: string): Promise<CourseWork>;
+  listSubmissions(params: ListSubmissionsParams): Promise<Page<StudentSubmission>>;
+  listAnnouncements(params: ListAnnouncementsParams): Promise<Page<Announcement>>;
+  listTopics(params: ListTopicsParams): Promise<Page<Topic>>;
+  listCourseWorkMaterials(params: ListCourseWorkMaterialsParams): Promise<Page<CourseWorkMaterial>>;
+  getCourseWorkMaterial(courseId: string, materialId: string): Promise<CourseWorkMaterial>;
+  listStudents(params: ListRosterParams): Promise<Page<Student>>;
+  listTeachers(params: ListRosterParams): Promise<Page<Teacher>>;
+  listGuardians(params: ListGuardiansParams): Promise<Page<Guardian>>;
+  // userId is a numeric ID, an email address or 'me'.
+  getUserProfile(userId: string): Promise<UserProfile>;
+  turnInSubmission(courseId: string, courseWorkId: string, submissionId: string): Promise<void>;
+  reclaimSubmission(courseId: string, courseWorkId: string, submissionId: string): Promise<void>;
+  addSubmissionLink(courseId: string, courseWorkId: string, submissionId: string, url: string): Promise<StudentSubmission>;
+}
@@ -0,0 +1,267 @@
+// Response cache between the tools and the Classroom API.
+//
+// Assistants often call get_upcoming_assignments, get_missing_assignments
+// and get_grades back to back, and each one lists every course, its
+// coursework and its submissions. CachedBackend keeps each response for a
+// TTL that depends on how quickly that kind of data changes (courses rarely,
+// submissions often), and concurrent identical requests share one fetch.
+// Tool calls made with `refresh: true` skip cached entries and overwrite
+// them. With CLASSROOM_CACHE_PERSIST set, entries survive restarts in a file
+// per account under stateDir()/cache, unless the credentials are encrypted:
+// the cache would otherwise keep their data on disk in plain text.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ClassroomBackend,
+  ListAnnouncementsParams,
+  ListCourseAliasesParams,
+  ListCoursesParams,
+  ListCourseWorkMaterialsParams,
+  ListCourseWorkParams,
+  ListGuardiansParams,
+  ListRosterParams,
+  ListSubmissionsParams,
+  ListTopicsParams,
+} from './backend.js';
+import { passphraseFromEnv } from './credential-store.js';
+import { stateDir } from './paths.js';
+
+export type CachedKind = 'courses' | 'courseWork' | 'submissions' | 'announcements' | 'topics' | 'materials' | 'rosters';
+
+export interface CacheOptions {
+  enabled: boolean;
+  persist: boolean;
+  ttlMs: Record<CachedKind, number>;
+}
+
+interface Entry {
+  expires: number;
+  value: unknown;
+}
+
+const DEFAULT_TTL_SECONDS: Record<CachedKind, number> = {
+  courses: 600,
+  courseWork: 300,
+  submissions: 60,
+  announcements: 120,
+  topics: 600,
+  materials: 600,
+  rosters: 600,
+};
+
+export function cacheOptionsFromEnv(): CacheOptions {
+  const ttlMs = {} as Record<CachedKind, number>;
+  for (const [kind, fallback] of Object.entries(DEFAULT_TTL_SECONDS) as [CachedKind, number][]) {
+    const value = Number(process.env[`CLASSROOM_CACHE_TTL_${kind.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}`]);
+    ttlMs[kind] = (Number.isFinite(value) && value >= 0 ? value : fallback) * 1000;
+  }
+  let persist = /^(1|on|true|yes)$/i.test(process.env.CLASSROOM_CACHE_PERSIST ?? '');
+  if (persist && passphraseFromEnv()) {
+    console.error('CLASSROOM_CACHE_PERSIST is ignored while CLASSROOM_CREDENTIALS_PASSPHRASE is set: the cache file is not encrypted.');
+    persist = false;
+  }
+  return {
+    enabled: !/^(0|off|false|no)$/i.test(process.env.CLASSROOM_CACHE ?? ''),
+    persist,
+    ttlMs,
+  };
+}
+
+// JSON schema fragment added to every tool that reads Classroom data.
+export const REFRESH_PROPERTY = {
+  refresh: {
+    type: 'boolean',
+    description: 'Ignore cached responses and fetch fresh data from Google Classroom',
+  },
+};
+
+const freshReads = new AsyncLocalStorage<boolean>();
+
+// Runs `fn` with every cached read going to the API instead.
+export function withFreshData<T>(fn: () => Promise<T>): Promise<T> {
+  return freshReads.run(true, fn);
+}
+
+function cachePath(account: string): string {
+  const safe = account.replace(/[^A-Za-z0-9._-]/g, '_');
+  return path.join(stateDir(), 'cache', `${safe}.json`);
+}
+
+export class CachedBackend implements ClassroomBackend {
+  private entries = new Map<string, Entry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Bumped by clear() so that fetches started before it are not stored.
+  private generation = 0;
+
+  constructor(
+    private inner: ClassroomBackend,
+    private options: CacheOptions,
+    private account: string,
+    private now: () => number = Date.now
+  ) {
+    if (options.enabled && options.persist) this.load();
+  }
+
+  // Returns how many entries were dropped.
+  clear(): number {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.inFlight.clear();
+    this.generation++;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.options.persist) fs.rmSync(cachePath(this.account), { force: true });
+    return count;
+  }
+
+  private load() {
+    const file = cachePath(this.account);
+    if (!fs.existsSync(file)) return;
+    try {
+      const stored: Record<string, Entry> = JSON.parse(fs.readFileSync(file, 'utf8'));
+      const now = this.now();
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry.expires > now) this.entries.set(key, entry);
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable cache ${file}:`, error);
+    }
+  }
+
+  // Coalesces bursts of writes into one.
+  private scheduleSave() {
+    if (!this.options.persist || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      const file = cachePath(this.account);
+      try {
+        fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+        fs.writeFileSync(file, JSON.stringify(Object.fromEntries(this.entries)), { mode: 0o600 });
+      } catch (error) {
+        console.error(`Could not save cache ${file}:`, error);
+      }
+    }, 1000);
+    this.saveTimer.unref();
+  }
+
+  private async cached<T>(kind: CachedKind, key: string, fetch: () => Promise<T>): Promise<T> {
+    if (!this.options.enabled) return fetch();
+    const fullKey = `${kind}:${key}`;
+    const fresh = freshReads.getStore() === true;
+
+    if (!fresh) {
+      const entry = this.entries.get(fullKey);
+      if (entry && entry.expires > this.now()) return entry.value as T;
+      const pending = this.inFlight.get(fullKey);
+      if (pending) return pending as Promise<T>;
+    }
+
+    const generation = this.generation;
+    const request = fetch().then((value) => {
+      if (generation === this.generation) {
+        this.entries.set(fullKey, { expires: this.now() + this.options.ttlMs[kind], value });
+        this.scheduleSave();
+      }
+      return value;
+    });
+    this.inFlight.set(fullKey, request);
+    try {
+      return await request;
+    } finally {
+      if (this.inFlight.get(fullKey) === request) this.inFlight.delete(fullKey);
+    }
+  }
+
+  listCourses(params: ListCoursesParams) {
+    return this.cached('courses', `list:${JSON.stringify(params)}`, () => this.inner.listCourses(params));
+  }
+
+  getCourse(courseId: string) {
+    return this.cached('courses', courseId, () => this.inner.getCourse(courseId));
+  }
+
+  listCourseAliases(params: ListCourseAliasesParams) {
+    return this.cached('courses', `aliases:${JSON.stringify(params)}`, () => this.inner.listCourseAliases(params));
+  }
+
+  listCourseWork(params: ListCourseWorkParams) {
+    return this.cached('courseWork', `list:${JSON.stringify(params)}`, () => this.inner.listCourseWork(params));
+  }
+
+  getCourseWork(courseId: string, courseWorkId: string) {
+    return this.cached('courseWork', `${courseId}/${courseWorkId}`, () => this.inner.getCourseWork(courseId, courseWorkId));
+  }
+
+  listSubmissions(params: ListSubmissionsParams) {
+    return this.cached('submissions', `list:${JSON.stringify(params)}`, () => this.inner.listSubmissions(params));
+  }
+
+  listAnnouncements(params: ListAnnouncementsParams) {
+    return this.cached('announcements', `list:${JSON.stringify(params)}`, () => this.inner.listAnnouncements(params));
+  }
+
+  listTopics(params: ListTopicsParams) {
+    return this.cached('topics', `list:${JSON.stringify(params)}`, () => this.inner.listTopics(params));
+  }
+
+  listCourseWorkMaterials(params: ListCourseWorkMaterialsParams) {
+    return this.cached('materials', `list:${JSON.stringify(params)}`, () => this.inner.listCourseWorkMaterials(params));
+  }
+
+  getCourseWorkMaterial(courseId: string, materialId: string) {
+    return this.cached('materials', `${courseId}/${materialId}`, () => this.inner.getCourseWorkMaterial(courseId, materialId));
+  }
+
+  listStudents(params: ListRosterParams) {
+    return this.cached('rosters', `students:${JSON.stringify(params)}`, () => this.inner.listStudents(params));
+  }
+
+  listTeachers(params: ListRosterParams) {
+    return this.cached('rosters', `teachers:${JSON.stringify(params)}`, () => this.inner.listTeachers(params));
+  }
+
+  listGuardians(params: ListGuardiansParams) {
+    return this.cached('rosters', `guardians:${JSON.stringify(params)}`, () => this.inner.listGuardians(params));
+  }
+
+  getUserProfile(userId: string) {
+    return this.cached('rosters', `profile:${userId}`, () => this.inner.getUserProfile(userId));
+  }
+
+  // Writes are never cached, and drop the submissions they may have changed.
+  async turnInSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    try {
+      return await this.inner.turnInSubmission(courseId, courseWorkId, submissionId);
+    } finally {
+      this.forget('submissions');
+    }
+  }
+
+  async reclaimSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    try {
+      return await this.inner.reclaimSubmission(courseId, courseWorkId, submissionId);
+    } finally {
+      this.forget('submissions');
+    }
+  }
+
+  async addSubmissionLink(courseId: string, courseWorkId: string, submissionId: string, url: string) {
+    try {
+      return await this.inner.addSubmissionLink(courseId, courseWorkId, submissionId, url);
+    } finally {
+      this.forget('submissions');
+    }
+  }
+
+  private forget(kind: CachedKind) {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(`${kind}:`)) this.entries.delete(key);
+    }
+    this.scheduleSave();
+  }
+}
@@ -0,0 +1,133 @@
+// RFC 5545 iCalendar feed of assignment deadlines.
+//
+// Deadlines with a dueTime become events at the due instant, written in UTC
+// so no VTIMEZONE block is needed. Date-only deadlines become all-day events
+// on the local due date, matching how deadlines.ts treats them. UIDs derive
+// from the courseWork id, so re-importing a feed updates events in place.
+
+export interface DeadlineEvent {
+  courseId: string;
+  courseName: string | null;
+  assignmentId: string;
+  title: string | null;
+  description: string | null;
+  // Due instant in milliseconds.
+  due: number;
+  // Calendar date of the deadline in the display timezone (YYYY-MM-DD).
+  dueDate: string;
+  hasDueTime: boolean;
+  alternateLink: string | null;
+  updateTime: string | null;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  // Minutes before each deadline to add a VALARM reminder.
+  reminderMinutes?: number[];
+  now?: number;
+}
+
+export const CALENDAR_MIME_TYPE = 'text/calendar';
+
+const PRODID = '-//google-classroom-mcp//Assignment deadlines//EN';
+const MAX_LINE_OCTETS = 75;
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Splits a content line into 75-octet chunks without breaking UTF-8 sequences.
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit.
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function utcStamp(instant: number): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+export function eventUid(assignmentId: string): string {
+  return `coursework-${assignmentId}@google-classroom-mcp`;
+}
+
+function eventLines(event: DeadlineEvent, stamp: string, reminderMinutes: number[]): string[] {
+  const summary = `${event.courseName ?? event.courseId}: ${event.title ?? event.assignmentId}`;
+  const description = [event.description, event.alternateLink].filter(Boolean).join('\n\n');
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event.assignmentId)}`,
+    `DTSTAMP:${stamp}`,
+  ];
+  if (event.hasDueTime) {
+    lines.push(`DTSTART:${utcStamp(event.due)}`, `DTEND:${utcStamp(event.due)}`);
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${compactDate(event.dueDate)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay(event.dueDate))}`
+    );
+  }
+  lines.push(`SUMMARY:${escapeText(summary)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.alternateLink) lines.push(`URL:${event.alternateLink}`);
+  if (event.courseName) lines.push(`CATEGORIES:${escapeText(event.courseName)}`);
+  if (event.updateTime && !Number.isNaN(Date.parse(event.updateTime))) {
+    lines.push(`LAST-MODIFIED:${utcStamp(Date.parse(event.updateTime))}`);
+  }
+  lines.push('TRANSP:TRANSPARENT');
+  // All-day deadlines fall due at the end of the day, so their reminders
+  // count back from the event's end rather than midnight at its start.
+  const trigger = event.hasDueTime ? 'TRIGGER' : 'TRIGGER;RELATED=END';
+  for (const minutes of reminderMinutes) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(summary)}`,
+      `${trigger}:-PT${Math.round(minutes)}M`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(events: DeadlineEvent[], options: CalendarOptions = {}): string {
+  const stamp = utcStamp(options.now ?? Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name ?? 'Classroom deadlines')}`,
+    ...events.flatMap((event) => eventLines(event, stamp, options.reminderMinutes ?? [])),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
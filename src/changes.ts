@@ -0,0 +1,305 @@
+// "What's new" digests for get_changes_since.
+//
+// Two ways to answer the question:
+//  - against the snapshot saved by the previous call (per account, on disk),
+//    which catches everything including due-date edits and removals;
+//  - against a caller-supplied timestamp, using the creation/update times and
+//    submission histories Classroom already records.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Announcement, Course, CourseWork, StudentSubmission } from './backend.js';
+import { deadlineFields, HasDueDate } from './deadlines.js';
+import { stateDir } from './paths.js';
+
+// Everything fetched for one course in a single pass.
+export interface CourseData {
+  course: Course;
+  courseWork: CourseWork[];
+  announcements: Announcement[];
+  submissions: StudentSubmission[];
+}
+
+interface SnapshotCourseWork {
+  title: string | null;
+  dueDate: CourseWork['dueDate'] | null;
+  dueTime: CourseWork['dueTime'] | null;
+  maxPoints: number | null;
+  description: string | null;
+}
+
+interface SnapshotCourse {
+  name: string | null;
+  courseWork: Record<string, SnapshotCourseWork>;
+  announcements: string[];
+  submissions: Record<string, { state: string | null; assignedGrade: number | null }>;
+}
+
+export interface Snapshot {
+  takenAt: string;
+  courses: Record<string, SnapshotCourse>;
+}
+
+interface CourseRef {
+  courseId: string;
+  courseName: string | null;
+}
+
+interface AssignmentRef extends CourseRef {
+  assignmentId: string;
+  title: string | null;
+}
+
+export interface ChangeDigest {
+  newCourses: CourseRef[];
+  removedCourses: CourseRef[];
+  newAnnouncements: (CourseRef & { announcementId: string; text: string | null; creationTime: string | null; alternateLink: string | null })[];
+  newAssignments: (AssignmentRef & { dueAt: string | null; dueIn: string | null; maxPoints: number | null; alternateLink: string | null })[];
+  updatedAssignments: (AssignmentRef & { changedFields?: string[]; updateTime?: string | null })[];
+  dueDateChanges: (AssignmentRef & { previousDueAt: string | null; dueAt: string | null; dueIn: string | null })[];
+  removedAssignments: AssignmentRef[];
+  grades: (AssignmentRef & { previousGrade: number | null; assignedGrade: number | null; maxPoints: number | null })[];
+  stateChanges: (AssignmentRef & { from: string | null; to: string | null })[];
+}
+
+function emptyDigest(): ChangeDigest {
+  return {
+    newCourses: [],
+    removedCourses: [],
+    newAnnouncements: [],
+    newAssignments: [],
+    updatedAssignments: [],
+    dueDateChanges: [],
+    removedAssignments: [],
+    grades: [],
+    stateChanges: [],
+  };
+}
+
+export function summarizeDigest(digest: ChangeDigest): Record<keyof ChangeDigest, number> {
+  return Object.fromEntries(
+    Object.entries(digest).map(([key, items]) => [key, items.length])
+  ) as Record<keyof ChangeDigest, number>;
+}
+
+function snapshotPath(account: string): string {
+  const safe = account.replace(/[^A-Za-z0-9._-]/g, '_');
+  return path.join(stateDir(), 'snapshots', `${safe}.json`);
+}
+
+export function loadSnapshot(account: string): Snapshot | null {
+  const file = snapshotPath(account);
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`Ignoring unreadable snapshot ${file}:`, error);
+    return null;
+  }
+}
+
+export function saveSnapshot(account: string, snapshot: Snapshot) {
+  const file = snapshotPath(account);
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify(snapshot), { mode: 0o600 });
+}
+
+// Builds a snapshot from freshly fetched data. Courses that could not be
+// fetched this time keep their previous entry so they do not look emptied.
+export function buildSnapshot(data: CourseData[], failedCourseIds: string[], previous: Snapshot | null, takenAt: Date): Snapshot {
+  const courses: Record<string, SnapshotCourse> = {};
+  for (const { course, courseWork, announcements, submissions } of data) {
+    courses[course.id!] = {
+      name: course.name ?? null,
+      courseWork: Object.fromEntries(courseWork.map((cw) => [cw.id!, {
+        title: cw.title ?? null,
+        dueDate: cw.dueDate ?? null,
+        dueTime: cw.dueTime ?? null,
+        maxPoints: cw.maxPoints ?? null,
+        description: cw.description ?? null,
+      }])),
+      announcements: announcements.map((a) => a.id!),
+      submissions: Object.fromEntries(submissions.map((sub) => [sub.courseWorkId!, {
+        state: sub.state ?? null,
+        assignedGrade: sub.assignedGrade ?? null,
+      }])),
+    };
+  }
+  for (const courseId of failedCourseIds) {
+    if (previous?.courses[courseId]) courses[courseId] = previous.courses[courseId];
+  }
+  return { takenAt: takenAt.toISOString(), courses };
+}
+
+function dueAtOf(item: HasDueDate, timezone: string, now: number) {
+  const fields = deadlineFields(item, timezone, now);
+  return { dueAt: fields?.dueAt ?? null, dueIn: fields?.dueIn ?? null };
+}
+
+export function diffSnapshots(
+  previous: Snapshot,
+  current: Snapshot,
+  data: CourseData[],
+  timezone: string,
+  now: number
+): ChangeDigest {
+  const digest = emptyDigest();
+  const live = new Map(data.map((d) => [d.course.id!, d]));
+
+  for (const [courseId, before] of Object.entries(previous.courses)) {
+    if (!current.courses[courseId]) {
+      digest.removedCourses.push({ courseId, courseName: before.name });
+    }
+  }
+
+  for (const [courseId, after] of Object.entries(current.courses)) {
+    const before = previous.courses[courseId];
+    const ref = { courseId, courseName: after.name };
+    const courseData = live.get(courseId);
+    if (!before) {
+      digest.newCourses.push(ref);
+      continue;
+    }
+    if (!courseData) continue;
+
+    const seenAnnouncements = new Set(before.announcements);
+    for (const a of courseData.announcements) {
+      if (seenAnnouncements.has(a.id!)) continue;
+      digest.newAnnouncements.push({
+        ...ref,
+        announcementId: a.id!,
+        text: a.text ?? null,
+        creationTime: a.creationTime ?? null,
+        alternateLink: a.alternateLink ?? null,
+      });
+    }
+
+    for (const [assignmentId, old] of Object.entries(before.courseWork)) {
+      if (!after.courseWork[assignmentId]) {
+        digest.removedAssignments.push({ ...ref, assignmentId, title: old.title });
+      }
+    }
+
+    for (const cw of courseData.courseWork) {
+      const assignment = { ...ref, assignmentId: cw.id!, title: cw.title ?? null };
+      const old = before.courseWork[cw.id!];
+      if (!old) {
+        digest.newAssignments.push({
+          ...assignment,
+          ...dueAtOf(cw, timezone, now),
+          maxPoints: cw.maxPoints ?? null,
+          alternateLink: cw.alternateLink ?? null,
+        });
+        continue;
+      }
+
+      const previousDue = dueAtOf(old, timezone, now).dueAt;
+      const due = dueAtOf(cw, timezone, now);
+      if (previousDue !== due.dueAt) {
+        digest.dueDateChanges.push({ ...assignment, previousDueAt: previousDue, ...due });
+      }
+      const changedFields = (['title', 'description', 'maxPoints'] as const).filter(
+        (field) => (old[field] ?? null) !== (cw[field] ?? null)
+      );
+      if (changedFields.length > 0) {
+        digest.updatedAssignments.push({ ...assignment, changedFields: [...changedFields] });
+      }
+    }
+
+    const courseWorkById = new Map(courseData.courseWork.map((cw) => [cw.id!, cw]));
+    for (const sub of courseData.submissions) {
+      const cw = courseWorkById.get(sub.courseWorkId!);
+      const assignment = { ...ref, assignmentId: sub.courseWorkId!, title: cw?.title ?? null };
+      const old = before.submissions[sub.courseWorkId!];
+      const state = sub.state ?? null;
+      const grade = sub.assignedGrade ?? null;
+      if (old && old.state !== state) {
+        digest.stateChanges.push({ ...assignment, from: old.state, to: state });
+      }
+      // A grade that was taken back shows up with assignedGrade null.
+      if ((old?.assignedGrade ?? null) !== grade) {
+        digest.grades.push({
+          ...assignment,
+          previousGrade: old?.assignedGrade ?? null,
+          assignedGrade: grade,
+          maxPoints: cw?.maxPoints ?? null,
+        });
+      }
+    }
+  }
+
+  return digest;
+}
+
+const isAfter = (timestamp: string | null | undefined, since: number) =>
+  !!timestamp && Date.parse(timestamp) > since;
+
+// Timestamp mode: only what Classroom's own timestamps can prove. Due-date
+// edits show up as updated assignments since the API does not say which field changed.
+export function changesSinceTimestamp(data: CourseData[], since: Date, timezone: string, now: number): ChangeDigest {
+  const digest = emptyDigest();
+  const cutoff = since.getTime();
+
+  for (const { course, courseWork, announcements, submissions } of data) {
+    const ref = { courseId: course.id!, courseName: course.name ?? null };
+    if (isAfter(course.creationTime, cutoff)) {
+      digest.newCourses.push(ref);
+    }
+
+    for (const a of announcements) {
+      if (!isAfter(a.creationTime, cutoff)) continue;
+      digest.newAnnouncements.push({
+        ...ref,
+        announcementId: a.id!,
+        text: a.text ?? null,
+        creationTime: a.creationTime ?? null,
+        alternateLink: a.alternateLink ?? null,
+      });
+    }
+
+    for (const cw of courseWork) {
+      const assignment = { ...ref, assignmentId: cw.id!, title: cw.title ?? null };
+      if (isAfter(cw.creationTime, cutoff)) {
+        digest.newAssignments.push({
+          ...assignment,
+          ...dueAtOf(cw, timezone, now),
+          maxPoints: cw.maxPoints ?? null,
+          alternateLink: cw.alternateLink ?? null,
+        });
+      } else if (isAfter(cw.updateTime, cutoff)) {
+        digest.updatedAssignments.push({ ...assignment, updateTime: cw.updateTime ?? null });
+      }
+    }
+
+    const courseWorkById = new Map(courseWork.map((cw) => [cw.id!, cw]));
+    for (const sub of submissions) {
+      const cw = courseWorkById.get(sub.courseWorkId!);
+      const assignment = { ...ref, assignmentId: sub.courseWorkId!, title: cw?.title ?? null };
+      let previousState: string | null = null;
+      let previousGrade: number | null = null;
+      for (const entry of sub.submissionHistory || []) {
+        const state = entry.stateHistory;
+        const grade = entry.gradeHistory;
+        if (state) {
+          if (isAfter(state.stateTimestamp, cutoff)) {
+            digest.stateChanges.push({ ...assignment, from: previousState, to: state.state ?? null });
+          }
+          previousState = state.state ?? null;
+        }
+        if (grade?.gradeChangeType === 'ASSIGNED_GRADE_POINTS_EARNED_CHANGE') {
+          if (isAfter(grade.gradeTimestamp, cutoff)) {
+            digest.grades.push({
+              ...assignment,
+              previousGrade,
+              assignedGrade: grade.pointsEarned ?? null,
+              maxPoints: grade.maxPoints ?? cw?.maxPoints ?? null,
+            });
+          }
+          previousGrade = grade.pointsEarned ?? null;
+        }
+      }
+    }
+  }
+
+  return digest;
+}
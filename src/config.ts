@@ -0,0 +1,199 @@
+// User configuration file.
+//
+// config.json in the config directory (or the file CLASSROOM_CONFIG_FILE
+// names) holds the user's own defaults: courses to hide from or pin to the
+// top of every answer, course nicknames, the default timezone, lookahead,
+// grade scale, output format and character budget, and which tool groups are
+// listed. It is read at startup and again by reload_config. A missing file
+// means the built-in defaults, and a setting in the file wins over the
+// environment variable it overlaps with.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
+import type { Course } from './backend.js';
+import { isValidTimezone } from './deadlines.js';
+import { OUTPUT_FORMATS, OutputFormat } from './format.js';
+import { GRADE_SCALES, GradeBand } from './grading.js';
+import { normalize } from './lookup.js';
+import { configDir } from './paths.js';
+import { describeValidationErrors } from './schemas.js';
+import { TEACHER_TOOLS } from './teacher.js';
+import { WRITE_TOOLS } from './writes.js';
+
+// Tools by group, for the toolGroups setting. list_accounts, auth_status,
+// clear_cache and reload_config belong to no group and are always listed.
+// write, teacher and guardian stay off unless toolGroups or their environment
+// variable (CLASSROOM_WRITE_MODE and the like) turns them on.
+export const TOOL_GROUPS: Record<string, readonly string[]> = {
+  courses: ['list_courses', 'get_course', 'courses', 'course-details'],
+  coursework: [
+    'list_coursework',
+    'get_coursework',
+    'get_assignments',
+    'get_assignment_materials',
+    'assignments',
+    'list_topics',
+    'list_course_materials',
+    'get_course_material',
+  ],
+  submissions: ['list_submissions'],
+  announcements: ['list_announcements'],
+  deadlines: ['get_upcoming_assignments', 'get_missing_assignments'],
+  grades: ['get_grades', 'calculate_grade', 'simulate_grade'],
+  calendar: ['export_calendar'],
+  changes: ['get_changes_since'],
+  write: Object.keys(WRITE_TOOLS),
+  teacher: [...TEACHER_TOOLS],
+  guardian: ['list_students_i_guard'],
+};
+
+export function toolGroupOf(tool: string): string | null {
+  return Object.keys(TOOL_GROUPS).find((group) => TOOL_GROUPS[group].includes(tool)) ?? null;
+}
+
+export interface ClassroomConfig {
+  // Course IDs or names left out of list_courses and every cross-course tool.
+  hiddenCourses: string[];
+  // Course IDs or names listed first, and covered even when not ACTIVE.
+  pinnedCourses: string[];
+  // Nickname to courseId, for the `course` argument.
+  nicknames: Record<string, string>;
+  timezone: string | null;
+  // Default `days` for get_upcoming_assignments.
+  lookaheadDays: number | null;
+  // Adds letter grades to calculate_grade and simulate_grade.
+  gradeScale: GradeBand[] | null;
+  // Group name to whether its tools are listed; unset groups keep their default.
+  toolGroups: Record<string, boolean>;
+  // Defaults for the `format` and `maxChars` arguments.
+  format: OutputFormat | null;
+  maxChars: number | null;
+}
+
+export const DEFAULT_CONFIG: ClassroomConfig = {
+  hiddenCourses: [],
+  pinnedCourses: [],
+  nicknames: {},
+  timezone: null,
+  lookaheadDays: null,
+  gradeScale: null,
+  toolGroups: {},
+  format: null,
+  maxChars: null,
+};
+
+const courseList = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const CONFIG_SCHEMA = {
+  type: 'object',
+  properties: {
+    hiddenCourses: courseList,
+    pinnedCourses: courseList,
+    nicknames: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } },
+    timezone: { type: 'string' },
+    lookaheadDays: { type: 'integer', minimum: 1, maximum: 365 },
+    gradeScale: {
+      oneOf: [
+        { type: 'string', enum: Object.keys(GRADE_SCALES) },
+        {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: { grade: { type: 'string', minLength: 1 }, min: { type: 'number', minimum: 0 } },
+            required: ['grade', 'min'],
+          },
+        },
+      ],
+    },
+    toolGroups: { type: 'object', additionalProperties: { type: 'boolean' } },
+    format: { type: 'string', enum: [...OUTPUT_FORMATS] },
+    maxChars: { type: 'integer', minimum: 0 },
+  },
+};
+
+const validate = new AjvJsonSchemaValidator().getValidator(CONFIG_SCHEMA as JsonSchemaType);
+
+export class ConfigError extends Error {
+  constructor(file: string, message: string) {
+    super(`Config file ${file}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export function configPath(): string {
+  return process.env.CLASSROOM_CONFIG_FILE || path.join(configDir(), 'config.json');
+}
+
+// Ajv does not name the offending key for unknown properties, and a typo
+// silently ignored is the most likely config mistake.
+function checkKeys(file: string, value: object, known: string[], where: string) {
+  const unknown = Object.keys(value).find((key) => !known.includes(key));
+  if (unknown) {
+    throw new ConfigError(file, `unknown ${where} "${unknown}" (expected one of: ${known.join(', ')})`);
+  }
+}
+
+// The settings in `file`, or the defaults when it does not exist. Throws
+// ConfigError for a file that is not valid JSON or holds invalid settings.
+export function loadConfig(file = configPath()): { config: ClassroomConfig; found: boolean } {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { config: DEFAULT_CONFIG, found: false };
+    throw new ConfigError(file, (error as Error).message);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(file, `not valid JSON (${(error as Error).message})`);
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(file, 'must hold a JSON object');
+  }
+  checkKeys(file, raw, Object.keys(CONFIG_SCHEMA.properties), 'setting');
+  const result = validate(raw);
+  if (!result.valid) {
+    throw new ConfigError(file, describeValidationErrors(result.errorMessage, 'config'));
+  }
+
+  const settings = raw as Partial<Omit<ClassroomConfig, 'gradeScale'>> & { gradeScale?: string | GradeBand[] };
+  checkKeys(file, settings.toolGroups ?? {}, Object.keys(TOOL_GROUPS), 'tool group');
+  if (settings.timezone != null && !isValidTimezone(settings.timezone)) {
+    throw new ConfigError(file, `unknown timezone "${settings.timezone}". Use an IANA name such as America/New_York.`);
+  }
+  const gradeScale = typeof settings.gradeScale === 'string' ? GRADE_SCALES[settings.gradeScale] : settings.gradeScale;
+
+  return {
+    config: {
+      ...DEFAULT_CONFIG,
+      ...settings,
+      gradeScale: gradeScale ?? null,
+    },
+    found: true,
+  };
+}
+
+// Whether a hiddenCourses / pinnedCourses entry names this course: its ID,
+// or its name with or without the section, ignoring case and punctuation.
+export function listsCourse(entries: string[], course: Course): boolean {
+  const names = [course.name, [course.name, course.section].filter(Boolean).join(' ')]
+    .filter((name): name is string => !!name)
+    .map(normalize);
+  return entries.some((entry) => entry === course.id || names.includes(normalize(entry)));
+}
+
+// Drops hidden courses (unless `includeHidden`) and moves pinned ones to the
+// front, keeping Classroom's order otherwise.
+export function arrangeCourses(courses: Course[], config: ClassroomConfig, includeHidden = false): Course[] {
+  const visible = includeHidden ? courses : courses.filter((course) => !listsCourse(config.hiddenCourses, course));
+  return [
+    ...visible.filter((course) => listsCourse(config.pinnedCourses, course)),
+    ...visible.filter((course) => !listsCourse(config.pinnedCourses, course)),
+  ];
+}
@@ -0,0 +1,274 @@
+// Per-user credential store.
+//
+// Each profile (one Google account) lives in
+// configDir()/credentials/<name>.json rather than in whatever directory the
+// MCP client happens to launch the server from. Files are written with mode
+// 0600 and refused on load when group or world can read them. When
+// CLASSROOM_CREDENTIALS_PASSPHRASE is set, the refresh token, access token and
+// client secret are encrypted with AES-256-GCM under a key derived from the
+// passphrase with scrypt. The client ID, scopes and expiry stay readable so
+// status checks work without the passphrase.
+
+import type { Credentials } from 'google-auth-library';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { configDir } from './paths.js';
+
+export interface StoredCredentials {
+  clientId: string;
+  clientSecret?: string;
+  refreshToken: string;
+  accessToken?: string;
+  expiryDate?: number;
+  scope?: string;
+}
+
+interface Secrets {
+  clientSecret?: string;
+  refreshToken: string;
+  accessToken?: string;
+}
+
+interface EncryptedSecrets {
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface CredentialFile {
+  version: 1;
+  clientId: string;
+  scope?: string;
+  expiryDate?: number;
+  savedAt: string;
+  // Exactly one of these is present.
+  secrets?: Secrets;
+  encryptedSecrets?: EncryptedSecrets;
+}
+
+export class CredentialStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialStoreError';
+  }
+}
+
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export function passphraseFromEnv(): string | undefined {
+  return process.env.CLASSROOM_CREDENTIALS_PASSPHRASE || undefined;
+}
+
+export function credentialsPath(name = 'default'): string {
+  const safe = name.replace(/[^A-Za-z0-9._-]/g, '_');
+  return path.join(configDir(), 'credentials', `${safe}.json`);
+}
+
+// Refuses files other users could read, the way ssh treats private keys.
+// Windows has no POSIX modes to check.
+export function checkPermissions(file: string) {
+  if (process.platform === 'win32') return;
+  const mode = fs.statSync(file).mode & 0o777;
+  if (mode & 0o077) {
+    throw new CredentialStoreError(
+      `${file} is accessible by other users (mode ${mode.toString(8)}). Run: chmod 600 "${file}"`
+    );
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS);
+}
+
+function encryptSecrets(secrets: Secrets, passphrase: string): EncryptedSecrets {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  return {
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decryptSecrets(encrypted: EncryptedSecrets, passphrase: string, file: string): Secrets {
+  try {
+    const key = deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new CredentialStoreError(`Could not decrypt ${file}. Is CLASSROOM_CREDENTIALS_PASSPHRASE correct?`);
+  }
+}
+
+function readFile(file: string): CredentialFile | null {
+  if (!fs.existsSync(file)) return null;
+  checkPermissions(file);
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    throw new CredentialStoreError(`${file} is not valid JSON. Run setup-auth again to recreate it.`);
+  }
+}
+
+// Written to a temporary file and renamed, so a crash never leaves half a file.
+function writeFile(file: string, contents: CredentialFile) {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const temporary = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(contents, null, 2), { mode: 0o600 });
+  fs.renameSync(temporary, file);
+}
+
+// Names of every stored profile, sorted.
+export function listProfiles(): string[] {
+  const dir = path.join(configDir(), 'credentials');
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .sort();
+}
+
+// Metadata that is readable without the passphrase.
+export function describeProfile(name = 'default') {
+  const file = credentialsPath(name);
+  const contents = readFile(file);
+  if (!contents) return null;
+  return {
+    file,
+    clientId: contents.clientId,
+    scope: contents.scope ?? null,
+    encrypted: !!contents.encryptedSecrets,
+    savedAt: contents.savedAt,
+  };
+}
+
+export function loadCredentials(name = 'default', passphrase = passphraseFromEnv()): StoredCredentials | null {
+  const file = credentialsPath(name);
+  const contents = readFile(file);
+  if (!contents) return null;
+
+  let secrets: Secrets;
+  if (contents.encryptedSecrets) {
+    if (!passphrase) {
+      throw new CredentialStoreError(`${file} is encrypted. Set CLASSROOM_CREDENTIALS_PASSPHRASE to unlock it.`);
+    }
+    secrets = decryptSecrets(contents.encryptedSecrets, passphrase, file);
+  } else if (contents.secrets) {
+    secrets = contents.secrets;
+  } else {
+    throw new CredentialStoreError(`${file} has no stored tokens. Run setup-auth again.`);
+  }
+
+  return {
+    clientId: contents.clientId,
+    clientSecret: secrets.clientSecret,
+    refreshToken: secrets.refreshToken,
+    accessToken: secrets.accessToken,
+    expiryDate: contents.expiryDate,
+    scope: contents.scope,
+  };
+}
+
+export function saveCredentials(credentials: StoredCredentials, name = 'default', passphrase = passphraseFromEnv()): string {
+  const file = credentialsPath(name);
+  const secrets: Secrets = {
+    clientSecret: credentials.clientSecret,
+    refreshToken: credentials.refreshToken,
+    accessToken: credentials.accessToken,
+  };
+  writeFile(file, {
+    version: 1,
+    clientId: credentials.clientId,
+    scope: credentials.scope,
+    expiryDate: credentials.expiryDate,
+    savedAt: new Date().toISOString(),
+    ...(passphrase ? { encryptedSecrets: encryptSecrets(secrets, passphrase) } : { secrets }),
+  });
+  return file;
+}
+
+// Merges tokens from OAuth2Client's 'tokens' event into the stored entry.
+// Google only includes refresh_token when it rotates one.
+export function updateTokens(tokens: Credentials, name = 'default', passphrase = passphraseFromEnv()) {
+  const current = loadCredentials(name, passphrase);
+  if (!current) return;
+  saveCredentials({
+    ...current,
+    refreshToken: tokens.refresh_token || current.refreshToken,
+    accessToken: tokens.access_token ?? current.accessToken,
+    expiryDate: tokens.expiry_date ?? current.expiryDate,
+    scope: tokens.scope ?? current.scope,
+  }, name, passphrase);
+}
+
+function parseEnvFile(file: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const match = trimmed.match(/^(\w+)\s*=\s*"?([^"]*)"?$/);
+    if (match) env[match[1]] = match[2];
+  }
+  return env;
+}
+
+// Credentials in the layouts older setup-auth versions wrote into the
+// working directory: a .env file, or tokens.json next to credentials.json.
+export function findLegacyCredentials(dir: string): { source: string; credentials: StoredCredentials } | null {
+  const envPath = path.join(dir, '.env');
+  if (fs.existsSync(envPath)) {
+    const env = parseEnvFile(envPath);
+    if (env.GOOGLE_CLIENT_ID && env.GOOGLE_REFRESH_TOKEN) {
+      return {
+        source: envPath,
+        credentials: {
+          clientId: env.GOOGLE_CLIENT_ID,
+          clientSecret: env.GOOGLE_CLIENT_SECRET || undefined,
+          refreshToken: env.GOOGLE_REFRESH_TOKEN,
+        },
+      };
+    }
+  }
+
+  const tokensPath = path.join(dir, 'tokens.json');
+  const clientPath = path.join(dir, 'credentials.json');
+  if (fs.existsSync(tokensPath) && fs.existsSync(clientPath)) {
+    const tokens = JSON.parse(fs.readFileSync(tokensPath, 'utf8'));
+    const client = JSON.parse(fs.readFileSync(clientPath, 'utf8'));
+    const { client_id, client_secret } = client.installed || client.web || {};
+    if (client_id && tokens.refresh_token) {
+      return {
+        source: tokensPath,
+        credentials: {
+          clientId: client_id,
+          clientSecret: client_secret || undefined,
+          refreshToken: tokens.refresh_token,
+          accessToken: tokens.access_token || undefined,
+          expiryDate: tokens.expiry_date || undefined,
+          scope: tokens.scope || undefined,
+        },
+      };
+    }
+  }
+
+  return null;
+}
+
+// Copies legacy credentials from `dir` into the store unless the store
+// already has an entry. Returns the file migrated from, if any.
+export function migrateLegacyCredentials(dir: string, name = 'default', passphrase = passphraseFromEnv()): string | null {
+  if (fs.existsSync(credentialsPath(name))) return null;
+  const legacy = findLegacyCredentials(dir);
+  if (!legacy) return null;
+  saveCredentials(legacy.credentials, name, passphrase);
+  return legacy.source;
+}
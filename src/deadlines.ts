@@ -0,0 +1,167 @@
+// One deadline model for every date-aware tool.
+//
+// Classroom stores dueDate and dueTime in UTC. A deadline is the instant they
+// describe together; a dueDate without a dueTime counts as due at the end of
+// that day in the display timezone. Display and "which day" questions use an
+// IANA timezone: the per-call `timezone` argument, else CLASSROOM_TIMEZONE,
+// else the machine's zone.
+
+import { CourseWork } from './backend.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+// Anything carrying Classroom's due date fields: courseWork and derived items.
+export interface HasDueDate {
+  dueDate?: CourseWork['dueDate'] | null;
+  dueTime?: CourseWork['dueTime'] | null;
+}
+
+export interface DeadlineFields {
+  // Calendar date of the deadline in the display timezone (YYYY-MM-DD).
+  dueDate: string;
+  // Local time of day in the display timezone (HH:mm).
+  dueTime: string;
+  // ISO 8601 timestamp with the display timezone's offset.
+  dueAt: string;
+  // Whether Classroom had an explicit dueTime or we assumed end of day.
+  hasDueTime: boolean;
+  hoursUntilDue: number;
+  dueIn: string;
+}
+
+// JSON schema fragment for tools that accept a timezone.
+export const TIMEZONE_PROPERTY = {
+  timezone: {
+    type: 'string',
+    description: 'IANA timezone for due dates, e.g. America/New_York. Defaults to CLASSROOM_TIMEZONE or the server\'s timezone.',
+  },
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function defaultTimezone(): string {
+  const configured = process.env.CLASSROOM_TIMEZONE;
+  if (configured && isValidTimezone(configured)) return configured;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function zonedParts(instant: number, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Offset of `timezone` from UTC at `instant`, in milliseconds.
+function offsetAt(instant: number, timezone: string): number {
+  const p = zonedParts(instant, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Instant at which the given wall-clock time occurs in `timezone`.
+function zonedInstant(year: number, month: number, day: number, hour: number, minute: number, second: number, timezone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - offsetAt(wallClock, timezone);
+  return wallClock - offsetAt(guess, timezone);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatZoned(instant: number, timezone: string): string {
+  const p = zonedParts(instant, timezone);
+  const offsetMinutes = Math.round(offsetAt(instant, timezone) / MINUTE);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// The instant a piece of coursework is due, or null when it has no due date.
+export function dueInstant(cw: HasDueDate, timezone: string): number | null {
+  const date = cw.dueDate;
+  if (!date?.year || !date.month || !date.day) return null;
+  if (cw.dueTime) {
+    const { hours, minutes, seconds } = cw.dueTime;
+    return Date.UTC(date.year, date.month - 1, date.day, hours ?? 0, minutes ?? 0, seconds ?? 0);
+  }
+  return zonedInstant(date.year, date.month, date.day, 23, 59, 59, timezone);
+}
+
+export function describeDueIn(instant: number, now: number): string {
+  const diff = instant - now;
+  const minutes = Math.round(Math.abs(diff) / MINUTE);
+  let amount: string;
+  if (minutes < 60) {
+    amount = `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  } else if (minutes < 48 * 60) {
+    const hours = Math.round(minutes / 60);
+    amount = `${hours} hour${hours === 1 ? '' : 's'}`;
+  } else {
+    const days = Math.round(minutes / (24 * 60));
+    amount = `${days} day${days === 1 ? '' : 's'}`;
+  }
+  return diff >= 0 ? `due in ${amount}` : `overdue by ${amount}`;
+}
+
+export function deadlineFields(
+  cw: HasDueDate,
+  timezone: string,
+  now: number = Date.now()
+): DeadlineFields | null {
+  const instant = dueInstant(cw, timezone);
+  if (instant == null) return null;
+  const local = formatZoned(instant, timezone);
+  return {
+    dueDate: local.slice(0, 10),
+    dueTime: local.slice(11, 16),
+    dueAt: local,
+    hasDueTime: !!cw.dueTime,
+    hoursUntilDue: Math.round(((instant - now) / HOUR) * 10) / 10,
+    dueIn: describeDueIn(instant, now),
+  };
+}
+
+// Deadline fields spread into tool output, all null for work without a due date.
+export function deadlineOutput(cw: HasDueDate, timezone: string, now: number = Date.now()) {
+  return deadlineFields(cw, timezone, now) ?? {
+    dueDate: null,
+    dueTime: null,
+    dueAt: null,
+    hasDueTime: false,
+    hoursUntilDue: null,
+    dueIn: null,
+  };
+}
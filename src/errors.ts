@@ -0,0 +1,194 @@
+// Google API failures as typed errors.
+//
+// googleapis throws GaxiosErrors whose HTTP status hides in `code`, `status`
+// or `response.status` depending on where the request failed. classifyError
+// reduces them (and FakeApiError) to a ClassroomApiError with a kind, and
+// toMcpError turns that into the MCP error a client should see. Tools that
+// fan out over courses record per-course failures in a FailureLog instead, so
+// one inaccessible course shows up as a warning next to partial results.
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Course } from './backend.js';
+import type { RequestStats } from './scheduler.js';
+
+export type ClassroomErrorKind =
+  | 'invalid_argument'
+  | 'unauthenticated'
+  | 'permission_denied'
+  | 'not_found'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'network'
+  // The scheduler's per-call time budget ran out.
+  | 'deadline_exceeded'
+  | 'unknown';
+
+export class ClassroomApiError extends Error {
+  constructor(
+    readonly kind: ClassroomErrorKind,
+    readonly status: number | null,
+    message: string,
+    // From a Retry-After header, when Google sent one.
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'ClassroomApiError';
+  }
+}
+
+const NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE']);
+
+interface ErrorLike {
+  code?: number | string;
+  status?: number;
+  message?: string;
+  response?: { status?: number; headers?: Record<string, string> | Headers };
+}
+
+function statusOf(error: ErrorLike): number | null {
+  for (const value of [error.response?.status, error.status, error.code]) {
+    const status = typeof value === 'string' && /^\d{3}$/.test(value) ? Number(value) : value;
+    if (typeof status === 'number' && status >= 100 && status < 600) return status;
+  }
+  return null;
+}
+
+// Retry-After is either delay-seconds or an HTTP date.
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function retryAfterOf(error: ErrorLike): number | null {
+  const headers = error.response?.headers;
+  if (!headers) return null;
+  const value = typeof (headers as Headers).get === 'function'
+    ? (headers as Headers).get('retry-after')
+    : (headers as Record<string, string>)['retry-after'];
+  return parseRetryAfter(value);
+}
+
+function kindOf(status: number | null, code: unknown): ClassroomErrorKind {
+  if (status === 400) return 'invalid_argument';
+  if (status === 401) return 'unauthenticated';
+  if (status === 403) return 'permission_denied';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status != null && status >= 500) return 'unavailable';
+  if (typeof code === 'string' && NETWORK_CODES.has(code)) return 'network';
+  return 'unknown';
+}
+
+export function classifyError(error: unknown): ClassroomApiError {
+  if (error instanceof ClassroomApiError) return error;
+  const e = (error ?? {}) as ErrorLike;
+  const status = statusOf(e);
+  const message = typeof e.message === 'string' ? e.message : String(error);
+  return new ClassroomApiError(kindOf(status, e.code), status, message, retryAfterOf(e));
+}
+
+// Short label for warnings, e.g. "permission denied (403)".
+export function describeKind(error: ClassroomApiError): string {
+  const label = error.kind === 'unknown' ? 'error' : error.kind.replace(/_/g, ' ');
+  return error.status ? `${label} (${error.status})` : label;
+}
+
+export function toMcpError(error: unknown): McpError {
+  const api = classifyError(error);
+  const data = { kind: api.kind, status: api.status };
+  const status = api.status ? ` (${api.status})` : '';
+  switch (api.kind) {
+    case 'invalid_argument':
+      return new McpError(ErrorCode.InvalidParams, `Google Classroom rejected the request${status}: ${api.message}`, data);
+    case 'not_found':
+      return new McpError(
+        ErrorCode.InvalidParams,
+        `Not found${status}: ${api.message}. Check the ID; list_courses and list_coursework show valid ones.`,
+        data
+      );
+    case 'unauthenticated':
+      return new McpError(
+        ErrorCode.InvalidRequest,
+        `Google rejected the sign-in${status}: ${api.message}. Check auth_status, then run npm run setup-auth if needed.`,
+        data
+      );
+    case 'permission_denied':
+      return new McpError(
+        ErrorCode.InvalidRequest,
+        `Permission denied${status}: ${api.message}. The signed-in account may not be enrolled in this course, or the domain may restrict API access.`,
+        data
+      );
+    case 'rate_limited':
+      return new McpError(
+        ErrorCode.InternalError,
+        `Google Classroom rate limit reached${status}: ${api.message}. Wait a minute and try again.`,
+        { ...data, retryAfterMs: api.retryAfterMs }
+      );
+    case 'unavailable':
+      return new McpError(ErrorCode.InternalError, `Google Classroom is temporarily unavailable${status}: ${api.message}. Try again shortly.`, data);
+    case 'network':
+      return new McpError(ErrorCode.InternalError, `Could not reach Google Classroom: ${api.message}`, data);
+    case 'deadline_exceeded':
+      return new McpError(ErrorCode.InternalError, `${api.message}. Try again, or narrow the request to fewer courses.`, data);
+    default:
+      return new McpError(ErrorCode.InternalError, `Tool execution failed: ${api.message}`, data);
+  }
+}
+
+export interface CourseFailure {
+  account?: string;
+  courseId: string;
+  courseName: string | null;
+  kind: ClassroomErrorKind;
+  status: number | null;
+  message: string;
+}
+
+export interface FailureReport {
+  warnings: string[];
+  failedCourses: CourseFailure[];
+  requests?: RequestStats;
+}
+
+// Collects what an aggregate tool had to skip.
+export class FailureLog {
+  readonly failedCourses: CourseFailure[] = [];
+  readonly warnings: string[] = [];
+
+  course(course: Course, error: unknown, tag: { account?: string } = {}) {
+    const api = classifyError(error);
+    this.failedCourses.push({
+      ...tag,
+      courseId: course.id!,
+      courseName: course.name ?? null,
+      kind: api.kind,
+      status: api.status,
+      message: api.message,
+    });
+    const where = tag.account ? ` in account "${tag.account}"` : '';
+    this.warnings.push(`Skipped ${course.name ?? course.id} (${course.id})${where}: ${describeKind(api)}: ${api.message}`);
+  }
+
+  account(name: string, error: unknown) {
+    const api = classifyError(error);
+    this.warnings.push(`Skipped account "${name}": ${describeKind(api)}: ${api.message}`);
+  }
+
+  get empty(): boolean {
+    return this.warnings.length === 0;
+  }
+
+  // The section appended to a tool result, or nothing when all went well.
+  // Request counts are included once any request had to be retried.
+  report(stats: RequestStats | null = null): FailureReport | null {
+    const troubled = !!stats && (stats.retried > 0 || stats.abandoned > 0);
+    if (this.empty && !troubled) return null;
+    return {
+      warnings: this.warnings,
+      failedCourses: this.failedCourses,
+      ...(troubled ? { requests: stats! } : {}),
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import * as fs from 'fs';
+import {
+  Announcement,
+  ClassroomBackend,
+  Course,
+  CourseAlias,
+  CourseWork,
+  Guardian,
+  CourseWorkMaterial,
+  ListAnnouncementsParams,
+  ListCourseAliasesParams,
+  ListCoursesParams,
+  ListCourseWorkMaterialsParams,
+  ListCourseWorkParams,
+  ListGuardiansParams,
+  ListRosterParams,
+  ListSubmissionsParams,
+  ListTopicsParams,
+  Student,
+  StudentSubmission,
+  Teacher,
+  Topic,
+  UserProfile,
+} from './backend.js';
+import { Page, PageRequest } from './pagination.js';
+import { missingScopes, TokenCheck } from './auth-status.js';
+import { SCOPES } from './oauth.js';
+
+// Shape of a fixture file. Every collection is a flat array of API objects;
+// everything below courses carries its own courseId.
+export interface ClassroomFixtures {
+  // The signed-in user that userId 'me' resolves to.
+  userId?: string;
+  // Page size used when a caller does not pass one, so paging gets exercised.
+  pageSize?: number;
+  // What auth_status reports for this account. Scopes default to every
+  // scope in SCOPES, so tools only see a missing scope when a fixture says so.
+  email?: string;
+  grantedScopes?: string[];
+  courses?: Course[];
+  // Course aliases such as "d:bio-101"; the API objects carry no courseId.
+  courseAliases?: Array<CourseAlias & { courseId: string }>;
+  courseWork?: CourseWork[];
+  studentSubmissions?: StudentSubmission[];
+  announcements?: Announcement[];
+  topics?: Topic[];
+  courseWorkMaterials?: CourseWorkMaterial[];
+  students?: Student[];
+  teachers?: Teacher[];
+  // Guardian links, and profiles getUserProfile can return besides 'me'.
+  guardians?: Guardian[];
+  // Whether the signed-in user is a domain administrator, who alone may list
+  // the guardian links of every student.
+  domainAdmin?: boolean;
+  userProfiles?: UserProfile[];
+  // API failures to simulate, keyed by courseId. The course still appears in
+  // listCourses, but every call that reads from it throws.
+  courseErrors?: Record<string, { code: number; message: string }>;
+  // Like courseErrors, but each course recovers after failing `times` calls.
+  transientErrors?: Record<string, { code: number; message: string; times: number }>;
+}
+
+// Mirrors the status/message shape of errors thrown by googleapis.
+export class FakeApiError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'FakeApiError';
+    this.code = code;
+  }
+}
+
+// In-memory ClassroomBackend serving fixture data, for offline runs and tests.
+// When loaded from a file, edits to the file are picked up on the next call,
+// so data can change underneath a running server.
+export class FakeClassroomBackend implements ClassroomBackend {
+  private fixturesData: ClassroomFixtures;
+  private filePath: string | null = null;
+  private loadedMtime = 0;
+  private transientFailures = new Map<string, number>();
+
+  constructor(data: ClassroomFixtures) {
+    this.fixturesData = data;
+  }
+
+  static fromFile(filePath: string): FakeClassroomBackend {
+    const backend = new FakeClassroomBackend({});
+    backend.filePath = filePath;
+    backend.reloadIfChanged();
+    return backend;
+  }
+
+  private get data(): ClassroomFixtures {
+    this.reloadIfChanged();
+    return this.fixturesData;
+  }
+
+  private reloadIfChanged() {
+    if (!this.filePath) return;
+    const mtime = fs.statSync(this.filePath).mtimeMs;
+    if (mtime !== this.loadedMtime) {
+      this.fixturesData = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.loadedMtime = mtime;
+    }
+  }
+
+  // Stands in for the token check a real account goes through.
+  tokenCheck(required: string[] = SCOPES): TokenCheck {
+    const { email, grantedScopes = SCOPES } = this.data;
+    const missing = missingScopes(grantedScopes, required);
+    return {
+      ok: missing.length === 0,
+      email: email ?? null,
+      grantedScopes,
+      missingScopes: missing,
+      expiresAt: null,
+      refreshed: false,
+      error: null,
+    };
+  }
+
+  async listCourses(params: ListCoursesParams) {
+    let courses = this.data.courses || [];
+    if (params.courseStates?.length) {
+      courses = courses.filter((c) => params.courseStates!.includes(c.courseState ?? ''));
+    }
+    if (params.teacherId) {
+      courses = courses.filter((c) => c.ownerId === params.teacherId);
+    }
+    if (params.studentId && params.studentId !== 'me') {
+      const enrolled = new Set((this.data.students || []).filter((s) => s.userId === params.studentId).map((s) => s.courseId));
+      courses = courses.filter((c) => enrolled.has(c.id));
+    }
+    return this.page(courses, params);
+  }
+
+  async getCourse(courseId: string) {
+    return this.findCourse(courseId);
+  }
+
+  async listCourseAliases(params: ListCourseAliasesParams) {
+    this.findCourse(params.courseId);
+    const items = (this.data.courseAliases || [])
+      .filter((a) => a.courseId === params.courseId)
+      .map(({ alias }) => ({ alias }));
+    return this.page(items, params);
+  }
+
+  async listCourseWork(params: ListCourseWorkParams) {
+    this.findCourse(params.courseId);
+    const states = params.courseWorkStates?.length ? params.courseWorkStates : ['PUBLISHED'];
+    const items = (this.data.courseWork || []).filter(
+      (cw) => cw.courseId === params.courseId && states.includes(cw.state ?? '')
+    );
+    return this.page(items, params);
+  }
+
+  async getCourseWork(courseId: string, courseWorkId: string) {
+    this.findCourse(courseId);
+    const cw = (this.data.courseWork || []).find((c) => c.courseId === courseId && c.id === courseWorkId);
+    if (!cw) {
+      throw new FakeApiError(404, `Requested entity was not found. (courseWork ${courseWorkId})`);
+    }
+    return cw;
+  }
+
+  async listSubmissions(params: ListSubmissionsParams) {
+    if (params.courseWorkId !== '-') {
+      await this.getCourseWork(params.courseId, params.courseWorkId);
+    } else {
+      this.findCourse(params.courseId);
+    }
+    const userId = params.userId === 'me' ? this.data.userId ?? 'me' : params.userId;
+    const items = (this.data.studentSubmissions || []).filter(
+      (sub) =>
+        sub.courseId === params.courseId &&
+        (params.courseWorkId === '-' || sub.courseWorkId === params.courseWorkId) &&
+        (userId == null || sub.userId === userId)
+    );
+    return this.page(items, params);
+  }
+
+  async listAnnouncements(params: ListAnnouncementsParams) {
+    this.findCourse(params.courseId);
+    const states = params.announcementStates?.length ? params.announcementStates : ['PUBLISHED'];
+    const items = (this.data.announcements || []).filter(
+      (a) => a.courseId === params.courseId && states.includes(a.state ?? '')
+    );
+    return this.page(items, params);
+  }
+
+  async listTopics(params: ListTopicsParams) {
+    this.findCourse(params.courseId);
+    const items = (this.data.topics || []).filter((t) => t.courseId === params.courseId);
+    return this.page(items, params);
+  }
+
+  async listCourseWorkMaterials(params: ListCourseWorkMaterialsParams) {
+    this.findCourse(params.courseId);
+    const states = params.courseWorkMaterialStates?.length ? params.courseWorkMaterialStates : ['PUBLISHED'];
+    const items = (this.data.courseWorkMaterials || []).filter(
+      (m) => m.courseId === params.courseId && states.includes(m.state ?? '')
+    );
+    return this.page(items, params);
+  }
+
+  async getCourseWorkMaterial(courseId: string, materialId: string) {
+    this.findCourse(courseId);
+    const material = (this.data.courseWorkMaterials || []).find((m) => m.courseId === courseId && m.id === materialId);
+    if (!material) {
+      throw new FakeApiError(404, `Requested entity was not found. (courseWorkMaterial ${materialId})`);
+    }
+    return material;
+  }
+
+  async listStudents(params: ListRosterParams) {
+    this.findCourse(params.courseId);
+    return this.page((this.data.students || []).filter((s) => s.courseId === params.courseId), params);
+  }
+
+  async listTeachers(params: ListRosterParams) {
+    this.findCourse(params.courseId);
+    return this.page((this.data.teachers || []).filter((t) => t.courseId === params.courseId), params);
+  }
+
+  // Like the API: only a domain administrator may pass '-', and anyone else
+  // only sees the links of themselves or of students they guard.
+  async listGuardians(params: ListGuardiansParams) {
+    const { domainAdmin = false, guardians = [], userProfiles = [] } = this.data;
+    const me = this.data.userId ?? 'me';
+    if (params.studentId === '-') {
+      if (!domainAdmin) throw new FakeApiError(403, 'The caller does not have permission');
+      return this.page(guardians, params);
+    }
+    const studentId = params.studentId === 'me'
+      ? me
+      : userProfiles.find((p) => p.emailAddress === params.studentId)?.id ?? params.studentId;
+    const items = guardians.filter((g) => g.studentId === studentId);
+    if (!domainAdmin && studentId !== me && !items.some((g) => g.guardianId === me)) {
+      throw new FakeApiError(403, 'The caller does not have permission');
+    }
+    return this.page(items, params);
+  }
+
+  async getUserProfile(userId: string) {
+    if (userId === 'me') {
+      return { id: this.data.userId ?? 'me', emailAddress: this.data.email ?? null };
+    }
+    const profile = (this.data.userProfiles || []).find((p) => p.id === userId || p.emailAddress === userId);
+    if (!profile) {
+      throw new FakeApiError(404, `Requested entity was not found. (userProfile ${userId})`);
+    }
+    return profile;
+  }
+
+  // Writes change the in-memory fixtures only, never the fixture file.
+  async turnInSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    const submission = await this.findOwnSubmission(courseId, courseWorkId, submissionId);
+    if (submission.state === 'TURNED_IN') {
+      throw new FakeApiError(400, '@InvalidState Precondition check failed. (submission is already turned in)');
+    }
+    submission.state = 'TURNED_IN';
+    submission.updateTime = new Date().toISOString();
+  }
+
+  async reclaimSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    const submission = await this.findOwnSubmission(courseId, courseWorkId, submissionId);
+    if (submission.state !== 'TURNED_IN') {
+      throw new FakeApiError(400, '@InvalidState Precondition check failed. (submission is not turned in)');
+    }
+    submission.state = 'RECLAIMED_BY_STUDENT';
+    submission.updateTime = new Date().toISOString();
+  }
+
+  async addSubmissionLink(courseId: string, courseWorkId: string, submissionId: string, url: string) {
+    const submission = await this.findOwnSubmission(courseId, courseWorkId, submissionId);
+    const attachments = submission.assignmentSubmission?.attachments ?? [];
+    submission.assignmentSubmission = { attachments: [...attachments, { link: { url } }] };
+    submission.updateTime = new Date().toISOString();
+    return submission;
+  }
+
+  // Like the real API, writes are only allowed on the caller's own work and
+  // on coursework created by this app's Cloud project.
+  private async findOwnSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    const courseWork = await this.getCourseWork(courseId, courseWorkId);
+    const userId = this.data.userId ?? 'me';
+    const submission = (this.data.studentSubmissions || []).find(
+      (sub) => sub.courseId === courseId && sub.courseWorkId === courseWorkId && sub.id === submissionId
+    );
+    if (!submission) {
+      throw new FakeApiError(404, `Requested entity was not found. (studentSubmission ${submissionId})`);
+    }
+    if (submission.userId !== userId) {
+      throw new FakeApiError(403, 'The caller does not have permission');
+    }
+    if (courseWork.associatedWithDeveloper === false) {
+      throw new FakeApiError(403, '@ProjectPermissionDenied The Developer Console project is not permitted to make this request.');
+    }
+    return submission;
+  }
+
+  private findCourse(courseId: string): Course {
+    const course = (this.data.courses || []).find((c) => c.id === courseId);
+    if (!course) {
+      throw new FakeApiError(404, `Requested entity was not found. (course ${courseId})`);
+    }
+    const failure = this.data.courseErrors?.[courseId];
+    if (failure) {
+      throw new FakeApiError(failure.code, failure.message);
+    }
+    const transient = this.data.transientErrors?.[courseId];
+    const failed = this.transientFailures.get(courseId) ?? 0;
+    if (transient && failed < transient.times) {
+      this.transientFailures.set(courseId, failed + 1);
+      throw new FakeApiError(transient.code, transient.message);
+    }
+    return course;
+  }
+
+  // Page tokens are plain offsets into the filtered collection.
+  private page<T>(items: T[], request: PageRequest): Page<T> {
+    const start = request.pageToken ? Number(request.pageToken) : 0;
+    if (!Number.isInteger(start) || start < 0) {
+      throw new FakeApiError(400, `Invalid page token: ${request.pageToken}`);
+    }
+    const size = request.pageSize || this.data.pageSize || items.length || 1;
+    const end = start + size;
+    return {
+      items: items.slice(start, end),
+      nextPageToken: end < items.length ? String(end) : null,
+    };
+  }
+}
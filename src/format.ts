@@ -0,0 +1,238 @@
+// Response formatting shared by the data tools.
+//
+// Results used to be the API objects pretty-printed in full, which for one
+// big course can run to tens of thousands of tokens. Every data tool now
+// takes `format` (indented or compact JSON, a markdown table or CSV),
+// `fields` to keep only some properties of each item, and `maxItems` /
+// `maxChars` limits. A result over a limit loses items from the end of its
+// main list (the result itself, or the property LIST_PROPERTIES names for the
+// tool), and a note says how many were left out. structuredContent is
+// cut to the same items but keeps every field, so it still matches the
+// tool's outputSchema.
+
+export const OUTPUT_FORMATS = ['json', 'compact', 'markdown', 'csv'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Roughly 12k tokens.
+export const DEFAULT_MAX_CHARS = 50_000;
+
+// JSON schema fragment added to every data tool.
+export const FORMAT_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: [...OUTPUT_FORMATS],
+    description: 'json (indented, the default), compact (JSON on one line), markdown (a table) or csv',
+  },
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only return these fields of each item, e.g. ["title", "dueAt"]. Dots reach nested fields, e.g. "profile.name.fullName"',
+  },
+  maxChars: {
+    type: 'integer',
+    minimum: 0,
+    description: `Character budget for the result; items past it are left out with a note. Defaults to ${DEFAULT_MAX_CHARS}; 0 for no limit`,
+  },
+};
+
+// export_calendar answers with an iCalendar feed rather than JSON.
+export const UNFORMATTED_TOOLS = new Set(['export_calendar']);
+
+// Added where a tool has no paging maxItems of its own.
+const MAX_ITEMS_PROPERTY = {
+  maxItems: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Show at most this many items',
+  },
+};
+
+export function withFormatArguments<T extends { properties: Record<string, unknown> }>(schema: T): T {
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      ...(schema.properties.maxItems ? {} : MAX_ITEMS_PROPERTY),
+      ...FORMAT_PROPERTIES,
+    },
+  };
+}
+
+export interface FormatOptions {
+  format: OutputFormat;
+  // The property holding the main list when the result is an object.
+  list?: string;
+  fields?: string[];
+  maxItems?: number;
+  // 0 means no limit.
+  maxChars: number;
+}
+
+export interface Truncation {
+  shown: number;
+  omitted: number;
+  limit: 'maxItems' | 'maxChars';
+}
+
+export interface FormattedResult {
+  // Text blocks: the result, fields CSV has no room for, and the truncation note.
+  content: string[];
+  // The result cut to the items shown, with every field.
+  data: unknown;
+  truncated: Truncation | null;
+}
+
+type Row = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The list a result is mostly made of: the result itself when it is an
+// array, otherwise its `list` property (list_courses' `courses`,
+// calculate_grade's `breakdown`). Results without one are projected whole.
+function mainList(data: unknown, list?: string): { items: unknown[]; rebuild: (items: unknown[]) => unknown; key: string | null } | null {
+  if (Array.isArray(data)) return { items: data, rebuild: (items) => items, key: null };
+  if (!isPlainObject(data) || list == null || !Array.isArray(data[list])) return null;
+  return { items: data[list] as unknown[], rebuild: (items) => ({ ...data, [list]: items }), key: list };
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const part of path.split('.')) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+// Keeps `fields` of an item, nested the way they were.
+function project(item: unknown, fields: string[]): unknown {
+  if (!isPlainObject(item)) return item;
+  const result: Row = {};
+  for (const field of fields) {
+    const value = getPath(item, field);
+    if (value === undefined) continue;
+    const parts = field.split('.');
+    let target = result;
+    for (const part of parts.slice(0, -1)) {
+      if (!isPlainObject(target[part])) target[part] = {};
+      target = target[part] as Row;
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return result;
+}
+
+// Nested objects become dotted columns; arrays stay JSON in one cell.
+function flatten(value: unknown, prefix = '', row: Row = {}): Row {
+  if (!isPlainObject(value)) {
+    row[prefix || 'value'] = value;
+    return row;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) flatten(child, column, row);
+    else row[column] = child;
+  }
+  return row;
+}
+
+function columnsOf(rows: Row[], fields?: string[]): string[] {
+  if (fields?.length) return fields;
+  const columns = new Set<string>();
+  for (const row of rows) Object.keys(row).forEach((column) => columns.add(column));
+  return [...columns];
+}
+
+function cellText(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownTable(items: unknown[], fields?: string[]): string {
+  if (items.length === 0) return '_No items._';
+  const rows = items.map((item) => flatten(item));
+  const columns = columnsOf(rows, fields);
+  return [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((column) => markdownCell(row[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+function csvTable(items: unknown[], fields?: string[]): string {
+  const rows = items.map((item) => flatten(item));
+  const columns = columnsOf(rows, fields);
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(csvCell).join(','))
+    .join('\n');
+}
+
+// The result text for a given slice of the main list. Markdown puts the
+// other fields above the table; CSV has no room for them, so they follow as
+// compact JSON in a block of their own.
+function render(data: unknown, list: ReturnType<typeof mainList>, items: unknown[], options: FormatOptions): string[] {
+  const { format, fields } = options;
+  const shaped = list ? list.rebuild(items) : fields?.length ? project(data, fields) : data;
+  if (format === 'json') return [JSON.stringify(shaped, null, 2)];
+  if (format === 'compact') return [JSON.stringify(shaped)];
+
+  const rest = list?.key != null && isPlainObject(data)
+    ? Object.fromEntries(Object.entries(data).filter(([name]) => name !== list.key))
+    : null;
+  const tableItems = list ? items : [shaped];
+  if (format === 'csv') {
+    const table = csvTable(tableItems, fields);
+    return rest && Object.keys(rest).length > 0 ? [table, JSON.stringify(rest)] : [table];
+  }
+  const header = rest ? Object.entries(rest).map(([name, value]) => `**${name}**: ${markdownCell(value)}`) : [];
+  return [[...header, ...(header.length > 0 ? [''] : []), markdownTable(tableItems, fields)].join('\n')];
+}
+
+function note(truncation: Truncation): string {
+  const items = truncation.omitted === 1 ? 'item' : 'items';
+  const raise = truncation.limit === 'maxItems' ? 'a higher maxItems' : 'a higher maxChars';
+  return `${truncation.omitted} more ${items}, narrow your query (filters, fewer fields, or ${raise}) to see them. Showing ${truncation.shown}.`;
+}
+
+const length = (blocks: string[]) => blocks.reduce((sum, block) => sum + block.length, 0);
+
+export function formatResult(data: unknown, options: FormatOptions): FormattedResult {
+  const list = mainList(data, options.list);
+  const all = list?.items ?? [];
+  const projected = options.fields?.length ? all.map((item) => project(item, options.fields!)) : all;
+
+  let shown = options.maxItems != null ? Math.min(options.maxItems, projected.length) : projected.length;
+  let limit: Truncation['limit'] = 'maxItems';
+  let content = render(data, list, projected.slice(0, shown), options);
+
+  // The largest number of items that fits, found by bisection since
+  // rendering is the expensive part.
+  if (options.maxChars > 0 && list && length(content) > options.maxChars) {
+    let low = 0;
+    let high = shown - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (length(render(data, list, projected.slice(0, middle), options)) <= options.maxChars) low = middle;
+      else high = middle - 1;
+    }
+    shown = low;
+    limit = 'maxChars';
+    content = render(data, list, projected.slice(0, shown), options);
+  }
+
+  if (!list || shown === all.length) return { content, data, truncated: null };
+  const truncated = { shown, omitted: all.length - shown, limit };
+  return { content: [...content, note(truncated)], data: list.rebuild(all.slice(0, shown)), truncated };
+}
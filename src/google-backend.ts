@@ -0,0 +1,111 @@
+import { google, classroom_v1 } from 'googleapis';
+import { OAuth2Client } from 'google-auth-library';
+import {
+  ClassroomBackend,
+  ListAnnouncementsParams,
+  ListCourseAliasesParams,
+  ListCoursesParams,
+  ListCourseWorkMaterialsParams,
+  ListCourseWorkParams,
+  ListGuardiansParams,
+  ListRosterParams,
+  ListSubmissionsParams,
+  ListTopicsParams,
+} from './backend.js';
+
+// ClassroomBackend backed by the live Google Classroom API.
+export class GoogleClassroomBackend implements ClassroomBackend {
+  private classroom: classroom_v1.Classroom;
+
+  constructor(auth: OAuth2Client) {
+    this.classroom = google.classroom({ version: 'v1', auth });
+  }
+
+  async listCourses(params: ListCoursesParams) {
+    const response = await this.classroom.courses.list(params);
+    return { items: response.data.courses || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async getCourse(courseId: string) {
+    const response = await this.classroom.courses.get({ id: courseId });
+    return response.data;
+  }
+
+  async listCourseAliases(params: ListCourseAliasesParams) {
+    const response = await this.classroom.courses.aliases.list(params);
+    return { items: response.data.aliases || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listCourseWork(params: ListCourseWorkParams) {
+    const response = await this.classroom.courses.courseWork.list(params);
+    return { items: response.data.courseWork || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async getCourseWork(courseId: string, courseWorkId: string) {
+    const response = await this.classroom.courses.courseWork.get({ courseId, id: courseWorkId });
+    return response.data;
+  }
+
+  async listSubmissions(params: ListSubmissionsParams) {
+    const response = await this.classroom.courses.courseWork.studentSubmissions.list(params);
+    return { items: response.data.studentSubmissions || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listAnnouncements(params: ListAnnouncementsParams) {
+    const response = await this.classroom.courses.announcements.list(params);
+    return { items: response.data.announcements || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listTopics(params: ListTopicsParams) {
+    const response = await this.classroom.courses.topics.list(params);
+    return { items: response.data.topic || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listCourseWorkMaterials(params: ListCourseWorkMaterialsParams) {
+    const response = await this.classroom.courses.courseWorkMaterials.list(params);
+    return { items: response.data.courseWorkMaterial || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async getCourseWorkMaterial(courseId: string, materialId: string) {
+    const response = await this.classroom.courses.courseWorkMaterials.get({ courseId, id: materialId });
+    return response.data;
+  }
+
+  async listStudents(params: ListRosterParams) {
+    const response = await this.classroom.courses.students.list(params);
+    return { items: response.data.students || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listTeachers(params: ListRosterParams) {
+    const response = await this.classroom.courses.teachers.list(params);
+    return { items: response.data.teachers || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async listGuardians(params: ListGuardiansParams) {
+    const response = await this.classroom.userProfiles.guardians.list(params);
+    return { items: response.data.guardians || [], nextPageToken: response.data.nextPageToken };
+  }
+
+  async getUserProfile(userId: string) {
+    const response = await this.classroom.userProfiles.get({ userId });
+    return response.data;
+  }
+
+  async turnInSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    await this.classroom.courses.courseWork.studentSubmissions.turnIn({ courseId, courseWorkId, id: submissionId, requestBody: {} });
+  }
+
+  async reclaimSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    await this.classroom.courses.courseWork.studentSubmissions.reclaim({ courseId, courseWorkId, id: submissionId, requestBody: {} });
+  }
+
+  async addSubmissionLink(courseId: string, courseWorkId: string, submissionId: string, url: string) {
+    const response = await this.classroom.courses.courseWork.studentSubmissions.modifyAttachments({
+      courseId,
+      courseWorkId,
+      id: submissionId,
+      requestBody: { addAttachments: [{ link: { url } }] },
+    });
+    return response.data;
+  }
+}
@@ -0,0 +1,373 @@
+// Grade math that mirrors Classroom's gradebook settings.
+//
+// Classroom computes the overall grade either as total points earned over
+// total points possible, or as a weighted average of per-category averages.
+// Weights come from gradebookSettings.gradeCategories, where 1,000,000 = 100%.
+
+import { Course, CourseWork, StudentSubmission } from './backend.js';
+
+export type CalculationType = 'TOTAL_POINTS' | 'WEIGHTED_CATEGORIES';
+
+// One assignment that counts towards the grade. Hypothetical assignments
+// that do not exist in Classroom yet have no assignmentId.
+export interface ScoredItem {
+  assignmentId: string | null;
+  title: string | null;
+  categoryId: string | null;
+  earned: number;
+  possible: number;
+}
+
+// Gradable work that has no score yet.
+export interface PendingItem {
+  assignmentId: string | null;
+  title: string | null;
+  categoryId: string | null;
+  possible: number;
+  dueDate: CourseWork['dueDate'] | null;
+  dueTime: CourseWork['dueTime'] | null;
+}
+
+export interface CategoryTotal {
+  id: string | null;
+  name: string;
+  // Percent of the overall grade (weighted courses only).
+  weight: number | null;
+  earned: number;
+  possible: number;
+  percentage: number | null;
+  gradedAssignments: number;
+}
+
+export interface ExcludedItem {
+  assignmentId: string;
+  title: string | null;
+  reason: string;
+}
+
+export interface GradeSummary {
+  calculationType: CalculationType;
+  method: string;
+  totalEarned: number;
+  totalPossible: number;
+  overallPercentage: number | null;
+  // Unrounded overall grade as a fraction (0.8 = 80%), for further math.
+  overallRatio: number | null;
+  categories: CategoryTotal[];
+}
+
+export interface TargetRequirement {
+  assignmentId: string | null;
+  title: string | null;
+  possible: number;
+  minimumScore: number;
+}
+
+export interface SimulationResult {
+  currentPercentage: number | null;
+  projectedPercentage: number | null;
+  // Best possible finish: every remaining assignment at full marks.
+  maxAchievablePercentage: number | null;
+  target: {
+    targetPercentage: number;
+    reachable: boolean;
+    // The same percentage on every remaining assignment that lands exactly on the target.
+    requiredPercentage: number | null;
+    perAssignment: TargetRequirement[];
+    note: string;
+  } | null;
+}
+
+const WEIGHT_SCALE = 1_000_000;
+
+export function roundPercent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function percentage(earned: number, possible: number): number | null {
+  return possible > 0 ? roundPercent((earned / possible) * 100) : null;
+}
+
+// One letter grade and the lowest percentage that earns it.
+export interface GradeBand {
+  grade: string;
+  min: number;
+}
+
+export const GRADE_SCALES: Record<string, GradeBand[]> = {
+  letter: [
+    { grade: 'A', min: 90 },
+    { grade: 'B', min: 80 },
+    { grade: 'C', min: 70 },
+    { grade: 'D', min: 60 },
+    { grade: 'F', min: 0 },
+  ],
+  'letter-plus-minus': [
+    { grade: 'A+', min: 97 },
+    { grade: 'A', min: 93 },
+    { grade: 'A-', min: 90 },
+    { grade: 'B+', min: 87 },
+    { grade: 'B', min: 83 },
+    { grade: 'B-', min: 80 },
+    { grade: 'C+', min: 77 },
+    { grade: 'C', min: 73 },
+    { grade: 'C-', min: 70 },
+    { grade: 'D+', min: 67 },
+    { grade: 'D', min: 63 },
+    { grade: 'D-', min: 60 },
+    { grade: 'F', min: 0 },
+  ],
+};
+
+// The highest band `value` reaches, or null below every band.
+export function letterGrade(value: number | null, scale: GradeBand[]): string | null {
+  if (value == null) return null;
+  const band = [...scale].sort((a, b) => b.min - a.min).find((b) => value >= b.min);
+  return band?.grade ?? null;
+}
+
+export function calculationTypeOf(course: Course): CalculationType {
+  return course.gradebookSettings?.calculationType === 'WEIGHTED_CATEGORIES' ? 'WEIGHTED_CATEGORIES' : 'TOTAL_POINTS';
+}
+
+// Excused work is whatever the caller lists in excusedAssignmentIds.
+export function isExcused(submission: StudentSubmission, excusedIds: Set<string>): boolean {
+  return excusedIds.has(submission.courseWorkId ?? '');
+}
+
+// Aggregates scored items into per-category subtotals and an overall
+// percentage using the course's calculation type.
+export function summarizeGrade(course: Course, items: ScoredItem[]): GradeSummary {
+  const calculationType = calculationTypeOf(course);
+  const settingsCategories = course.gradebookSettings?.gradeCategories || [];
+
+  const categories: CategoryTotal[] = settingsCategories.map((c) => ({
+    id: c.id ?? null,
+    name: c.name ?? 'Unnamed category',
+    weight: calculationType === 'WEIGHTED_CATEGORIES' ? (c.weight ?? 0) / (WEIGHT_SCALE / 100) : null,
+    earned: 0,
+    possible: 0,
+    percentage: null,
+    gradedAssignments: 0,
+  }));
+
+  let totalEarned = 0;
+  let totalPossible = 0;
+
+  for (const item of items) {
+    let category = categories.find((c) => c.id !== null && c.id === item.categoryId);
+    if (!category) {
+      category = categories.find((c) => c.id === null);
+      if (!category) {
+        category = {
+          id: null,
+          name: 'Uncategorized',
+          weight: null,
+          earned: 0,
+          possible: 0,
+          percentage: null,
+          gradedAssignments: 0,
+        };
+        categories.push(category);
+      }
+    }
+    category.earned += item.earned;
+    category.possible += item.possible;
+    category.gradedAssignments += 1;
+    totalEarned += item.earned;
+    totalPossible += item.possible;
+  }
+
+  for (const category of categories) {
+    category.percentage = percentage(category.earned, category.possible);
+  }
+
+  if (calculationType === 'TOTAL_POINTS') {
+    const overallRatio = totalPossible > 0 ? totalEarned / totalPossible : null;
+    return {
+      calculationType,
+      method: 'Total points: points earned divided by points possible across all graded work',
+      totalEarned,
+      totalPossible,
+      overallPercentage: overallRatio == null ? null : roundPercent(overallRatio * 100),
+      overallRatio,
+      categories,
+    };
+  }
+
+  // Categories with no graded work yet drop out and the remaining weights are
+  // rescaled, which is what Classroom shows students mid-term.
+  let weightedSum = 0;
+  let weightTotal = 0;
+  for (const category of categories) {
+    if (category.id === null || !category.weight || category.possible <= 0) continue;
+    weightedSum += category.weight * (category.earned / category.possible);
+    weightTotal += category.weight;
+  }
+
+  const overallRatio = weightTotal > 0 ? weightedSum / weightTotal : null;
+  return {
+    calculationType,
+    method: 'Weighted categories: each category average is weighted by its share of the grade, rescaled over categories that have graded work',
+    totalEarned,
+    totalPossible,
+    overallPercentage: overallRatio == null ? null : roundPercent(overallRatio * 100),
+    overallRatio,
+    categories,
+  };
+}
+
+// Splits a student's submissions into items that count towards the grade and
+// items that were left out, with the reason for each.
+export function collectScoredItems(
+  course: Course,
+  courseWork: CourseWork[],
+  submissions: StudentSubmission[],
+  excusedIds: Set<string> = new Set()
+): { items: ScoredItem[]; excluded: ExcludedItem[] } {
+  const weighted = calculationTypeOf(course) === 'WEIGHTED_CATEGORIES';
+  const courseworkMap: Record<string, CourseWork> = {};
+  for (const cw of courseWork) {
+    courseworkMap[cw.id!] = cw;
+  }
+
+  const items: ScoredItem[] = [];
+  const excluded: ExcludedItem[] = [];
+
+  for (const sub of submissions) {
+    const cw = courseworkMap[sub.courseWorkId!];
+    if (!cw || cw.maxPoints == null) continue;
+
+    const base = { assignmentId: sub.courseWorkId!, title: cw.title ?? null };
+    if (isExcused(sub, excusedIds)) {
+      excluded.push({ ...base, reason: 'excused' });
+    } else if (sub.assignedGrade == null) {
+      if (sub.state === 'RETURNED') {
+        excluded.push({ ...base, reason: 'returned without a grade' });
+      }
+    } else if (weighted && !cw.gradeCategory?.id) {
+      excluded.push({ ...base, reason: 'no grade category; weighted courses ignore uncategorized work' });
+    } else {
+      items.push({
+        ...base,
+        categoryId: cw.gradeCategory?.id ?? null,
+        earned: sub.assignedGrade,
+        possible: cw.maxPoints,
+      });
+    }
+  }
+
+  return { items, excluded };
+}
+
+// Gradable published work the student has no score for yet: not graded, not
+// excused, not returned without a grade, and worth points. Weighted courses
+// skip uncategorized work because it never affects the grade.
+export function collectPendingItems(
+  course: Course,
+  courseWork: CourseWork[],
+  submissions: StudentSubmission[],
+  excusedIds: Set<string> = new Set()
+): PendingItem[] {
+  const weighted = calculationTypeOf(course) === 'WEIGHTED_CATEGORIES';
+  const submissionMap: Record<string, StudentSubmission> = {};
+  for (const sub of submissions) {
+    submissionMap[sub.courseWorkId!] = sub;
+  }
+
+  return courseWork
+    .filter((cw) => {
+      if (!cw.maxPoints || excusedIds.has(cw.id!)) return false;
+      if (weighted && !cw.gradeCategory?.id) return false;
+      const sub = submissionMap[cw.id!];
+      if (!sub) return true;
+      return sub.assignedGrade == null && sub.state !== 'RETURNED' && !isExcused(sub, excusedIds);
+    })
+    .map((cw) => ({
+      assignmentId: cw.id!,
+      title: cw.title ?? null,
+      categoryId: cw.gradeCategory?.id ?? null,
+      possible: cw.maxPoints!,
+      dueDate: cw.dueDate ?? null,
+      dueTime: cw.dueTime ?? null,
+    }));
+}
+
+// Projects the final grade from graded work, hypothetical scores and the work
+// still remaining. With a target, solves for the single percentage that every
+// remaining assignment needs; the overall grade is linear in that percentage
+// for both calculation types, so two evaluations pin it down.
+export function simulateGrade(
+  course: Course,
+  graded: ScoredItem[],
+  hypothetical: ScoredItem[],
+  remaining: PendingItem[],
+  targetPercentage?: number
+): SimulationResult {
+  const ratioAt = (fraction: number) =>
+    summarizeGrade(course, [
+      ...graded,
+      ...hypothetical,
+      ...remaining.map((item) => ({
+        assignmentId: item.assignmentId,
+        title: item.title,
+        categoryId: item.categoryId,
+        earned: item.possible * fraction,
+        possible: item.possible,
+      })),
+    ]).overallRatio;
+
+  const toPercent = (ratio: number | null) => (ratio == null ? null : roundPercent(ratio * 100));
+  const current = summarizeGrade(course, graded).overallRatio;
+  const projected = summarizeGrade(course, [...graded, ...hypothetical]).overallRatio;
+  const floor = remaining.length > 0 ? ratioAt(0) : projected;
+  const ceiling = remaining.length > 0 ? ratioAt(1) : projected;
+
+  const result: SimulationResult = {
+    currentPercentage: toPercent(current),
+    projectedPercentage: toPercent(projected),
+    maxAchievablePercentage: toPercent(ceiling),
+    target: null,
+  };
+
+  if (targetPercentage == null) return result;
+
+  const target = targetPercentage / 100;
+  const epsilon = 1e-9;
+
+  if (remaining.length === 0 || floor == null || ceiling == null || ceiling - floor < epsilon) {
+    const reachable = ceiling != null && ceiling + epsilon >= target;
+    result.target = {
+      targetPercentage,
+      reachable,
+      requiredPercentage: null,
+      perAssignment: [],
+      note: remaining.length === 0
+        ? `No remaining graded work; the grade ${reachable ? 'meets' : 'falls short of'} the target.`
+        : `Remaining work cannot move the grade; the grade ${reachable ? 'meets' : 'falls short of'} the target.`,
+    };
+    return result;
+  }
+
+  const required = Math.max(0, (target - floor) / (ceiling - floor));
+  const reachable = required <= 1 + epsilon;
+
+  result.target = {
+    targetPercentage,
+    reachable,
+    requiredPercentage: roundPercent(required * 100),
+    perAssignment: remaining.map((item) => ({
+      assignmentId: item.assignmentId,
+      title: item.title,
+      possible: item.possible,
+      // Round up so hitting the listed score is always enough.
+      minimumScore: Math.ceil(required * item.possible * 10 - epsilon) / 10,
+    })),
+    note: required === 0
+      ? 'The target is already secured even with zeros on the remaining work.'
+      : reachable
+        ? `Averaging ${roundPercent(required * 100)}% on the remaining work reaches the target.`
+        : `Even full marks on the remaining work only reaches ${roundPercent(ceiling * 100)}%.`,
+  };
+  return result;
+}
@@ -0,0 +1,133 @@
+// Guardian view: parents reading the work of the students they guard.
+//
+// With CLASSROOM_GUARDIAN_MODE=on and an account that granted GUARDIAN_SCOPES
+// (`npm run setup-auth -- --guardian`), list_students_i_guard lists the
+// students linked to the signed-in account as a Classroom guardian, and the
+// student-facing summary tools take a `studentId` to read one of them instead
+// of the signed-in user. Every such call is checked against the guardian
+// links first, and results name the student they belong to.
+//
+// Google only lets domain administrators list the guardian links of every
+// student at once. Anyone else may only ask about one student, so for most
+// parents list_students_i_guard cannot work, while `studentId` does.
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { isInsufficientScopeError } from './auth-status.js';
+import type { ClassroomBackend, Guardian, UserProfile } from './backend.js';
+import { classifyError } from './errors.js';
+import { paginate } from './pagination.js';
+
+// Tools that read the signed-in user's own work and accept `studentId`.
+export const STUDENT_ID_TOOLS = new Set([
+  'get_grades',
+  'get_missing_assignments',
+  'get_upcoming_assignments',
+  'calculate_grade',
+]);
+
+export function guardianModeFromEnv(): boolean {
+  return /^(1|on|true|yes)$/i.test(process.env.CLASSROOM_GUARDIAN_MODE ?? '');
+}
+
+// JSON schema fragment added to STUDENT_ID_TOOLS in guardian mode.
+export const STUDENT_ID_PROPERTY = {
+  studentId: {
+    type: 'string',
+    description: 'Read the work of a student you are a guardian of (their ID or school email address) instead of your own',
+  },
+};
+
+export interface GuardedStudent {
+  studentId: string;
+  name: string | null;
+  email: string | null;
+}
+
+function describeProfile(profile: UserProfile | null, fallbackId: string): GuardedStudent {
+  return {
+    studentId: profile?.id ?? fallbackId,
+    name: profile?.name?.fullName ?? null,
+    email: profile?.emailAddress ?? null,
+  };
+}
+
+// Profiles are a nicety: a link still counts when its profile is hidden.
+async function profileOrNull(backend: ClassroomBackend, userId: string): Promise<UserProfile | null> {
+  try {
+    return await backend.getUserProfile(userId);
+  } catch {
+    return null;
+  }
+}
+
+// The guardian links of `studentId` (an ID, email address or '-' for every
+// student) in which the signed-in user is the guardian.
+async function ownLinks(backend: ClassroomBackend, studentId: string): Promise<{ me: UserProfile; links: Guardian[] }> {
+  const [me, links] = await Promise.all([
+    backend.getUserProfile('me'),
+    paginate((page) => backend.listGuardians({ studentId, ...page })),
+  ]);
+  return { me, links: links.items.filter((link) => link.guardianId === me.id) };
+}
+
+// A refusal that is about the request, not a scope the account is missing.
+function refused(error: unknown, ...kinds: string[]): boolean {
+  return kinds.includes(classifyError(error).kind) && !isInsufficientScopeError(error);
+}
+
+export async function listGuardedStudents(backend: ClassroomBackend) {
+  let own: { me: UserProfile; links: Guardian[] };
+  try {
+    own = await ownLinks(backend, '-');
+  } catch (error) {
+    if (!refused(error, 'permission_denied')) throw error;
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'Google Classroom only lets domain administrators list guardian links, so the students you guard cannot be listed. ' +
+      'Pass a student\'s email address as studentId to get_grades, get_missing_assignments, get_upcoming_assignments or calculate_grade instead; ' +
+      'your link to that student is checked on each call.'
+    );
+  }
+  const { me, links } = own;
+  const students = await Promise.all(
+    links.map(async (link) => describeProfile(await profileOrNull(backend, link.studentId!), link.studentId!))
+  );
+  return {
+    guardian: { userId: me.id ?? null, name: me.name?.fullName ?? null, email: me.emailAddress ?? null },
+    students,
+  };
+}
+
+// The student behind `studentId` (an ID or email address), or InvalidParams
+// when the signed-in user is not their guardian.
+export async function resolveGuardedStudent(backend: ClassroomBackend, studentId: string): Promise<GuardedStudent> {
+  let links: Guardian[] = [];
+  try {
+    ({ links } = await ownLinks(backend, studentId));
+  } catch (error) {
+    // Google refuses to show the links of a student you do not guard.
+    if (!refused(error, 'permission_denied', 'not_found')) throw error;
+  }
+  const link = links[0];
+  if (!link) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `You are not a guardian of student "${studentId}". list_students_i_guard shows the students linked to this account.`
+    );
+  }
+  return describeProfile(await profileOrNull(backend, link.studentId!), link.studentId!);
+}
+
+export function describeStudent(student: GuardedStudent): string {
+  const who = student.name ?? student.email ?? student.studentId;
+  return student.email && student.name ? `${who} <${student.email}>` : who;
+}
+
+// Google decides per request whether a guardian may read a student's work;
+// many schools only share it with guardians through email summaries.
+export function guardianAccessMessage(student: GuardedStudent, error: unknown): string | null {
+  if (classifyError(error).kind !== 'permission_denied') return null;
+  return `Google Classroom refused access to ${describeStudent(student)}'s coursework. ` +
+    'The school may not share student work with guardians through the API. ' +
+    'Instead, sign in with the student\'s own account as a profile (npm run setup-auth -- --profile <name>) and pass account: "<name>".';
+}
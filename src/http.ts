@@ -0,0 +1,412 @@
+// Streamable HTTP transport for hosted deployments.
+//
+// Stdio serves the one client that launched the process. In HTTP mode one
+// instance serves many: each client session gets its own MCP server (and so
+// its own resource subscriptions) while accounts, the response cache and the
+// request scheduler are shared. Streamable HTTP is served at /mcp, and the
+// older HTTP+SSE transport at /sse and /messages for clients that predate it.
+// The endpoint is protected by static bearer tokens, by Google sign-in
+// restricted to a list of accounts and issued to our own OAuth client, or
+// both; without either it only listens on a loopback address. A session
+// belongs to the caller that opened it, is closed once idle for too long, and
+// only so many are kept open at once.
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { OAuth2Client, TokenInfo } from 'google-auth-library';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  // Static bearer tokens that may call the endpoint.
+  tokens: string[];
+  // Google accounts whose OAuth access tokens may call the endpoint.
+  oauthEmails: string[];
+  // The OAuth client Google tokens must have been issued to. Required with
+  // oauthEmails: a token issued to any other app is not ours to accept.
+  oauthClientId: string | null;
+  // Origins browsers may call from; "*" allows any.
+  corsOrigins: string[];
+  // The externally visible base URL, e.g. behind a reverse proxy.
+  publicUrl: string | null;
+  // Sessions without a request for this long are closed.
+  sessionIdleMs: number;
+  // Sessions open at once; new ones are refused beyond it.
+  maxSessions: number;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  // Stops accepting connections, lets requests in progress finish, then
+  // closes every session.
+  close(): Promise<void>;
+}
+
+export const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+const GOOGLE_ISSUER = 'https://accounts.google.com';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// How long shutdown waits for requests in progress before closing sessions.
+const SHUTDOWN_GRACE_MS = 10_000;
+// Longest a verified Google token is trusted before tokeninfo is asked again.
+const TOKEN_CACHE_MS = 5 * 60 * 1000;
+
+function list(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+function positive(name: string, value: string | undefined, fallback: number): number {
+  if (value == null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`Invalid ${name} "${value}"`);
+  return number;
+}
+
+function argValue(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+// --http / --stdio win over CLASSROOM_TRANSPORT; stdio is the default.
+export function transportFromArgs(argv = process.argv, env = process.env): TransportMode {
+  if (argv.includes('--http')) return 'http';
+  if (argv.includes('--stdio')) return 'stdio';
+  const mode = (env.CLASSROOM_TRANSPORT ?? 'stdio').toLowerCase();
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unknown CLASSROOM_TRANSPORT "${env.CLASSROOM_TRANSPORT}". Use stdio or http.`);
+  }
+  return mode;
+}
+
+export function httpOptionsFromEnv(argv = process.argv, env = process.env): HttpOptions {
+  const port = Number(argValue(argv, '--port') ?? env.CLASSROOM_HTTP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${argValue(argv, '--port') ?? env.CLASSROOM_HTTP_PORT}"`);
+  }
+  return {
+    host: argValue(argv, '--host') ?? env.CLASSROOM_HTTP_HOST ?? '127.0.0.1',
+    port,
+    tokens: list(env.CLASSROOM_HTTP_TOKEN),
+    oauthEmails: list(env.CLASSROOM_HTTP_OAUTH_EMAILS).map((email) => email.toLowerCase()),
+    oauthClientId: env.CLASSROOM_HTTP_OAUTH_CLIENT_ID || null,
+    corsOrigins: list(env.CLASSROOM_HTTP_CORS_ORIGINS),
+    publicUrl: env.CLASSROOM_HTTP_PUBLIC_URL?.replace(/\/+$/, '') || null,
+    sessionIdleMs: positive('CLASSROOM_HTTP_SESSION_IDLE', env.CLASSROOM_HTTP_SESSION_IDLE, 1800) * 1000,
+    maxSessions: Math.floor(positive('CLASSROOM_HTTP_MAX_SESSIONS', env.CLASSROOM_HTTP_MAX_SESSIONS, 100)),
+  };
+}
+
+export function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host === '[::1]' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function requiresAuth(options: HttpOptions): boolean {
+  return options.tokens.length > 0 || options.oauthEmails.length > 0;
+}
+
+// Hashing first makes the comparison constant-time whatever the lengths.
+function sameToken(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+export type TokenInfoLookup = (accessToken: string) => Promise<TokenInfo>;
+
+export type Authenticator = (authorization: string | undefined) => Promise<string | null>;
+
+// Returns a check for an Authorization header that names the caller, or
+// null to refuse it. Static tokens are compared directly and named by their
+// position in the list; anything else is looked up as a Google access token
+// and accepted when it was issued to oauthClientId for an allowed, verified
+// email address, which names the caller.
+export function createAuthenticator(
+  options: HttpOptions,
+  lookup: TokenInfoLookup = (token) => new OAuth2Client().getTokenInfo(token),
+  now: () => number = Date.now
+): Authenticator {
+  const verified = new Map<string, { until: number; principal: string }>();
+
+  return async (authorization) => {
+    if (!requiresAuth(options)) return 'local';
+    const token = /^Bearer\s+(\S+)$/i.exec(authorization ?? '')?.[1];
+    if (!token) return null;
+    const index = options.tokens.findIndex((allowed) => sameToken(allowed, token));
+    if (index !== -1) return `token:${index + 1}`;
+    if (options.oauthEmails.length === 0 || !options.oauthClientId) return null;
+
+    const key = createHash('sha256').update(token).digest('hex');
+    const cached = verified.get(key);
+    if (cached && cached.until > now()) return cached.principal;
+
+    let info: TokenInfo;
+    try {
+      info = await lookup(token);
+    } catch {
+      return null;
+    }
+    const email = info.email?.toLowerCase();
+    const allowed = !!email && info.email_verified !== false && options.oauthEmails.includes(email) &&
+      (info.aud === options.oauthClientId || info.azp === options.oauthClientId);
+    if (!allowed) return null;
+    const principal = `google:${email}`;
+    verified.set(key, { until: Math.min(info.expiry_date, now() + TOKEN_CACHE_MS), principal });
+    return principal;
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function jsonRpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+class BodyError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BodyError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new BodyError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse, origins: string[]) {
+  const origin = req.headers.origin;
+  if (!origin || !(origins.includes('*') || origins.includes(origin))) return;
+  res.setHeader('Access-Control-Allow-Origin', origins.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id, WWW-Authenticate');
+}
+
+function hostname(hostHeader: string | undefined): string {
+  return (hostHeader ?? '').replace(/:\d+$/, '');
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Who opened the session; only they may use it.
+  principal: string;
+  lastSeen: number;
+}
+
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpOptions,
+  authenticate: Authenticator = createAuthenticator(options)
+): Promise<HttpServerHandle> {
+  if (!requiresAuth(options) && !isLoopback(options.host)) {
+    throw new Error(
+      `Refusing to serve on ${options.host} without authentication. ` +
+      'Set CLASSROOM_HTTP_TOKEN or CLASSROOM_HTTP_OAUTH_EMAILS, or listen on 127.0.0.1.'
+    );
+  }
+  if (options.oauthEmails.length > 0 && !options.oauthClientId) {
+    throw new Error(
+      'CLASSROOM_HTTP_OAUTH_EMAILS needs CLASSROOM_HTTP_OAUTH_CLIENT_ID, the OAuth client your users sign in with. ' +
+      'Without it a Google token issued to any other app would be accepted.'
+    );
+  }
+  const sessions = new Map<string, Session>();
+  const baseUrl = (req: http.IncomingMessage) => options.publicUrl ?? `http://${req.headers.host}`;
+
+  // The caller's session of the given transport, or null once an error has
+  // been sent.
+  function useSession<T extends Session['transport']>(
+    res: http.ServerResponse,
+    id: string,
+    principal: string,
+    kind: new (...args: never[]) => T,
+    notFound: string
+  ): T | null {
+    const session = sessions.get(id);
+    if (!session || !(session.transport instanceof kind)) {
+      sendJson(res, 404, jsonRpcError(-32001, notFound));
+      return null;
+    }
+    if (session.principal !== principal) {
+      sendJson(res, 403, jsonRpcError(-32001, 'Forbidden: this session belongs to another caller'));
+      return null;
+    }
+    session.lastSeen = Date.now();
+    return session.transport;
+  }
+
+  function roomForSession(res: http.ServerResponse): boolean {
+    if (sessions.size < options.maxSessions) return true;
+    sendJson(res, 503, jsonRpcError(-32000, `Too many open sessions (${options.maxSessions}); close one or try again later`));
+    return false;
+  }
+
+  async function handleStreamable(req: http.IncomingMessage, res: http.ServerResponse, principal: string) {
+    const body = req.method === 'POST' ? await readJson(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = useSession(
+        res, sessionId, principal, StreamableHTTPServerTransport, 'Session not found; start a new one with an initialize request'
+      );
+      if (transport) await transport.handleRequest(req, res, body);
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJson(res, 400, jsonRpcError(-32000, 'Bad Request: no valid session ID provided'));
+      return;
+    }
+    if (!roomForSession(res)) return;
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, principal, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function openSse(res: http.ServerResponse, principal: string) {
+    if (!roomForSession(res)) return;
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { transport, principal, lastSeen: Date.now() });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+  }
+
+  async function postSse(req: http.IncomingMessage, res: http.ServerResponse, url: URL, principal: string) {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = useSession(res, sessionId, principal, SSEServerTransport, 'Session not found; reconnect to /sse');
+    if (transport) await transport.handlePostMessage(req, res, await readJson(req));
+  }
+
+  // Closes sessions that have gone quiet; closing removes them from the map.
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) session.transport.close().catch(() => {});
+    }
+  }, Math.min(options.sessionIdleMs, 60_000));
+  sweeper.unref();
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    applyCors(req, res, options.corsOrigins);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    // Without authentication, only requests addressed to localhost are
+    // served, so a web page cannot reach the server by DNS rebinding.
+    if (!requiresAuth(options) && !isLoopback(hostname(req.headers.host))) {
+      sendJson(res, 403, jsonRpcError(-32000, 'Forbidden: unexpected Host header'));
+      return;
+    }
+
+    const oauth = options.oauthEmails.length > 0;
+    if (oauth && url.pathname === RESOURCE_METADATA_PATH) {
+      sendJson(res, 200, {
+        resource: `${baseUrl(req)}${MCP_PATH}`,
+        authorization_servers: [GOOGLE_ISSUER],
+        scopes_supported: ['openid', 'email'],
+        bearer_methods_supported: ['header'],
+      });
+      return;
+    }
+    const principal = await authenticate(req.headers.authorization);
+    if (principal == null) {
+      res.setHeader(
+        'WWW-Authenticate',
+        oauth ? `Bearer resource_metadata="${baseUrl(req)}${RESOURCE_METADATA_PATH}"` : 'Bearer'
+      );
+      sendJson(res, 401, jsonRpcError(-32001, 'Unauthorized: send Authorization: Bearer <token>'));
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await handleStreamable(req, res, principal);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await openSse(res, principal);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await postSse(req, res, url, principal);
+    } else {
+      sendJson(res, 404, jsonRpcError(-32601, `Not found: ${req.method} ${url.pathname}`));
+    }
+  }
+
+  // POST requests still being answered, so shutdown can let them finish.
+  const pending = new Set<Promise<void>>();
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'POST') {
+      const done = new Promise<void>((resolve) => res.once('close', resolve));
+      pending.add(done);
+      done.then(() => pending.delete(done));
+    }
+    handle(req, res).catch((error) => {
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof BodyError) {
+        sendJson(res, error.status, jsonRpcError(-32700, error.message));
+      } else {
+        console.error('HTTP request failed:', error);
+        sendJson(res, 500, jsonRpcError(-32603, 'Internal server error'));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const host = options.host.includes(':') && !options.host.startsWith('[') ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}${MCP_PATH}`,
+    async close() {
+      const stopped = new Promise<void>((resolve) => server.close(() => resolve()));
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.all(pending),
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, SHUTDOWN_GRACE_MS);
+        }),
+      ]);
+      clearTimeout(timer);
+      clearInterval(sweeper);
+      await Promise.all([...sessions.values()].map(({ transport }) => transport.close().catch(() => {})));
+      server.closeAllConnections();
+      await stopped;
+    },
+  };
+}
@@ -5,807 +5,2457 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as fs from 'fs';
 import * as path from 'path';
+import { paginate, paginationOptions, PAGINATION_PROPERTIES, PaginationOptions } from './pagination.js';
+import {
+  ClassroomBackend,
+  Course,
+  CourseWork,
+  ListAnnouncementsParams,
+  ListCoursesParams,
+  ListCourseWorkMaterialsParams,
+  ListCourseWorkParams,
+  ListRosterParams,
+  ListSubmissionsParams,
+  ListTopicsParams,
+} from './backend.js';
+import { GoogleClassroomBackend } from './google-backend.js';
+import { builtInClientId, createOAuthClient, GUARDIAN_SCOPES, SCOPES, TEACHER_SCOPES, WRITE_SCOPES } from './oauth.js';
+import {
+  AuthStatus,
+  checkToken,
+  describeTokenError,
+  isInsufficientScopeError,
+  missingScopeMessage,
+  missingScopes,
+  setupAuthCommand,
+  setupAuthFlags,
+  shortScope,
+  TOOL_SCOPES,
+} from './auth-status.js';
+import {
+  credentialsPath,
+  describeProfile,
+  listProfiles,
+  loadCredentials,
+  migrateLegacyCredentials,
+  updateTokens,
+} from './credential-store.js';
+import {
+  accountProperty,
+  ALL_ACCOUNTS,
+  chooseDefaultAccount,
+  DEFAULT_ACCOUNT,
+  MERGEABLE_TOOLS,
+  parseFixtureProfiles,
+} from './accounts.js';
+import { FakeClassroomBackend } from './fake-backend.js';
+import { classifyError, FailureLog, FailureReport, toMcpError } from './errors.js';
+import { LIST_PROPERTIES, OUTPUT_SCHEMAS, validateArguments } from './schemas.js';
+import { arrangeCourses, ClassroomConfig, ConfigError, configPath, DEFAULT_CONFIG, listsCourse, loadConfig, TOOL_GROUPS, toolGroupOf } from './config.js';
+import { DEFAULT_MAX_CHARS, FormatOptions, formatResult, OutputFormat, UNFORMATTED_TOOLS, withFormatArguments } from './format.js';
+import { nicknamesFromEnv, requireLookupArguments, resolveAssignment, resolveCourse, withLookupArguments } from './lookup.js';
+import { RequestScheduler, ScheduledBackend, schedulerOptionsFromEnv } from './scheduler.js';
+import { CachedBackend, cacheOptionsFromEnv, REFRESH_PROPERTY, withFreshData } from './cache.js';
+import {
+  collectPendingItems,
+  collectScoredItems,
+  letterGrade,
+  percentage,
+  ScoredItem,
+  simulateGrade,
+  summarizeGrade,
+} from './grading.js';
+import { normalizeCourseWorkMaterial, normalizeMaterials } from './materials.js';
+import { filterByTopic, groupByTopic, TOPIC_PROPERTIES } from './topics.js';
+import { DAY, deadlineFields, deadlineOutput, defaultTimezone, dueInstant, isValidTimezone, TIMEZONE_PROPERTY } from './deadlines.js';
+import {
+  CALENDAR_URI,
+  COURSES_URI,
+  matchResourceUri,
+  RESOURCE_TEMPLATES,
+  ResourceKind,
+  resourceMimeType,
+  resourceUri,
+} from './resources.js';
+import { pollerOptionsFromEnv, ResourcePoller } from './poller.js';
+import {
+  buildSnapshot,
+  changesSinceTimestamp,
+  CourseData,
+  diffSnapshots,
+  loadSnapshot,
+  saveSnapshot,
+  summarizeDigest,
+} from './changes.js';
+import { buildCalendar, CALENDAR_MIME_TYPE, DeadlineEvent } from './calendar.js';
+import { httpOptionsFromEnv, startHttpServer, transportFromArgs } from './http.js';
+import {
+  describeSubmission,
+  isProjectPermissionError,
+  planWrite,
+  PROJECT_PERMISSION_MESSAGE,
+  WRITE_PROPERTIES,
+  WRITE_TOOLS,
+  WriteAction,
+  writeModeFromEnv,
+} from './writes.js';
+import { buildSubmissionReport, TEACHER_TOOLS, teacherModeFromEnv } from './teacher.js';
+import {
+  describeStudent,
+  GuardedStudent,
+  guardianAccessMessage,
+  guardianModeFromEnv,
+  listGuardedStudents,
+  resolveGuardedStudent,
+  STUDENT_ID_PROPERTY,
+  STUDENT_ID_TOOLS,
+} from './guardians.js';
+
+interface ListCourseMaterialsArgs {
+  courseId: string;
+  topicId?: string;
+  postedSince?: string;
+  courseWorkMaterialStates?: string[];
+}
+
+interface TopicArgs {
+  topicId?: string;
+  groupByTopic?: boolean;
+}
+
+interface ExportCalendarArgs {
+  courseIds?: string[];
+  from?: string;
+  to?: string;
+  excludeTurnedIn?: boolean;
+  reminderMinutes?: number[];
+  outputPath?: string;
+  timezone?: string;
+}
+
+interface WriteArgs {
+  courseId: string;
+  courseWorkId: string;
+  url?: string;
+  dryRun?: boolean;
+  confirm?: boolean;
+}
+
+interface SimulateGradeArgs {
+  courseId: string;
+  hypotheticalScores?: { assignmentId: string; score: number }[];
+  futureAssignments?: { title: string; maxPoints: number; category?: string; score?: number }[];
+  targetPercentage?: number;
+  excusedAssignmentIds?: string[];
+  timezone?: string;
+}
 
-// Default OAuth credentials — injected at publish time via inject-credentials.js
-const DEFAULT_CLIENT_ID = '__GOOGLE_CLIENT_ID__';
-const DEFAULT_CLIENT_SECRET = '__GOOGLE_CLIENT_SECRET__';
+// What a tool handler returns; toolResult turns it into the MCP result.
+interface ToolOutput {
+  data: object;
+  // structuredContent must be an object, so list results are nested under this key.
+  key?: string;
+  // Text content to send instead of `data` as JSON.
+  text?: string;
+  report?: FailureReport | null;
+  // Set when a guardian read a student's data rather than their own.
+  student?: GuardedStudent;
+  // How `course` / `assignment` names were resolved to IDs.
+  matches?: string[];
+}
 
-// Google Classroom API scopes
-const SCOPES = [
-  'https://www.googleapis.com/auth/classroom.courses.readonly',
-  'https://www.googleapis.com/auth/classroom.course-work.readonly',
-  'https://www.googleapis.com/auth/classroom.student-submissions.me.readonly',
-  'https://www.googleapis.com/auth/classroom.announcements.readonly',
-  'https://www.googleapis.com/auth/classroom.courseworkmaterials.readonly',
-  'https://www.googleapis.com/auth/classroom.topics.readonly',
-];
+// One signed-in profile.
+interface Account {
+  name: string;
+  source: 'fixtures' | 'environment' | 'store';
+  auth: OAuth2Client | null;
+  fixtures: FakeClassroomBackend | null;
+  // Routed through the shared request scheduler.
+  live: ClassroomBackend;
+  // `live` behind the response cache; what tools read from.
+  backend: CachedBackend;
+}
 
 class GoogleClassroomMCPServer {
-  private server: Server;
-  private auth: OAuth2Client | null = null;
-  private classroom: any = null;
+  private accounts = new Map<string, Account>();
+  // Stored profiles that could not be loaded, with the reason.
+  private accountErrors = new Map<string, string>();
+  private defaultAccount: string | null = null;
+  // The account the current tool call runs as; the default account outside a call.
+  private accountScope = new AsyncLocalStorage<Account>();
+  // Result of the most recent token check per account, and the check in flight.
+  private authStatus = new Map<string, AuthStatus>();
+  private authCheck: Promise<void> | null = null;
+  private scheduler = new RequestScheduler(schedulerOptionsFromEnv());
+  private cacheOptions = cacheOptionsFromEnv();
+  // The guarded student the current tool call reads, if any.
+  private studentScope = new AsyncLocalStorage<GuardedStudent>();
+  // The user's config file, as of startup or the last reload_config.
+  private config: ClassroomConfig = DEFAULT_CONFIG;
+  // Every connected session, so reload_config can tell each one the tool list changed.
+  private servers = new Set<Server>();
 
   constructor() {
-    this.server = new Server(
+    this.loadStartupConfig();
+    this.setupAuth();
+  }
+
+  // A broken config file should not keep the server from starting; its tools
+  // run on the defaults and reload_config reports the problem.
+  private loadStartupConfig() {
+    try {
+      this.config = loadConfig().config;
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      console.error(`${error.message}. Using the default settings.`);
+    }
+  }
+
+  // Served to remote clients, so nothing may touch the local filesystem on their behalf.
+  private get httpMode(): boolean {
+    return transportFromArgs() === 'http';
+  }
+
+  // toolGroups.write or CLASSROOM_WRITE_MODE: lists the write tools and requires WRITE_SCOPES.
+  private get writeMode(): boolean {
+    return this.config.toolGroups.write ?? writeModeFromEnv();
+  }
+
+  // toolGroups.teacher or CLASSROOM_TEACHER_MODE: lists the teacher tools and requires TEACHER_SCOPES.
+  private get teacherMode(): boolean {
+    return this.config.toolGroups.teacher ?? teacherModeFromEnv();
+  }
+
+  // toolGroups.guardian or CLASSROOM_GUARDIAN_MODE: adds list_students_i_guard and `studentId`, and requires GUARDIAN_SCOPES.
+  private get guardianMode(): boolean {
+    return this.config.toolGroups.guardian ?? guardianModeFromEnv();
+  }
+
+  private toolGroupEnabled(group: string): boolean {
+    if (group === 'write') return this.writeMode;
+    if (group === 'teacher') return this.teacherMode;
+    if (group === 'guardian') return this.guardianMode;
+    return this.config.toolGroups[group] ?? true;
+  }
+
+  // Nickname to courseId, for the `course` argument; the config file wins over CLASSROOM_COURSE_NICKNAMES.
+  private get nicknames(): Map<string, string> {
+    return new Map([...nicknamesFromEnv(), ...Object.entries(this.config.nicknames)]);
+  }
+
+  // One MCP server per client session: stdio has one, HTTP one per session.
+  // Each keeps its own resource subscriptions; accounts, cache and the
+  // request scheduler are shared.
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'google-classroom-mcp-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
         },
       }
     );
 
-    this.setupToolHandlers();
-    this.setupAuth();
+    const poller = new ResourcePoller(
+      // Polling looks for changes, so it must not see cached responses.
+      () => this.currentAccount()?.live ?? null,
+      {
+        resourceUpdated: (uri) => server.sendResourceUpdated({ uri }),
+        resourceListChanged: () => server.sendResourceListChanged(),
+      },
+      pollerOptionsFromEnv(),
+      (courses) => this.coverCourses(courses).map((course) => course.id!)
+    );
+    this.servers.add(server);
+    server.onclose = () => {
+      poller.stop();
+      this.servers.delete(server);
+    };
+
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server, poller);
+    return server;
+  }
+
+  private currentAccount(): Account | null {
+    return this.accountScope.getStore() ?? (this.defaultAccount ? this.accounts.get(this.defaultAccount) ?? null : null);
+  }
+
+  private get backend(): ClassroomBackend | null {
+    return this.currentAccount()?.backend ?? null;
+  }
+
+  private get requiredScopes(): string[] {
+    return [...new Set([
+      ...SCOPES,
+      ...(this.writeMode ? WRITE_SCOPES : []),
+      ...(this.teacherMode ? TEACHER_SCOPES : []),
+      ...(this.guardianMode ? GUARDIAN_SCOPES : []),
+    ])];
+  }
+
+  // Whose submissions the summary tools read: 'me', or the guarded student.
+  private get userId(): string {
+    return this.studentScope.getStore()?.studentId ?? 'me';
+  }
+
+  // Restricts course lists to the guarded student's courses.
+  private get studentCourses(): Pick<ListCoursesParams, 'studentId'> {
+    const student = this.studentScope.getStore();
+    return student ? { studentId: student.studentId } : {};
+  }
+
+  // Names per-account local state such as change snapshots.
+  private get account(): string {
+    return this.currentAccount()?.name ?? DEFAULT_ACCOUNT;
+  }
+
+  private connect(name: string, backend: ClassroomBackend) {
+    const live = new ScheduledBackend(backend, this.scheduler);
+    return { live, backend: new CachedBackend(live, this.cacheOptions, name) };
   }
 
   private async setupAuth() {
     try {
-      // Try environment variables first (new method)
-      if (process.env.GOOGLE_REFRESH_TOKEN) {
-        const clientId = process.env.GOOGLE_CLIENT_ID || DEFAULT_CLIENT_ID;
-        const clientSecret = process.env.GOOGLE_CLIENT_SECRET || DEFAULT_CLIENT_SECRET;
-        const redirectUri = process.env.GOOGLE_REDIRECT_URI || 'urn:ietf:wg:oauth:2.0:oob';
+      // Offline fixture data (tests and demos) — no Google account involved
+      if (process.env.CLASSROOM_FIXTURES) {
+        for (const { name, file } of parseFixtureProfiles(process.env.CLASSROOM_FIXTURES)) {
+          const fixtures = FakeClassroomBackend.fromFile(file);
+          this.accounts.set(name, { name, source: 'fixtures', auth: null, fixtures, ...this.connect(name, fixtures) });
+          console.error(`Using offline fixtures from ${file} as account "${name}"`);
+        }
+      } else {
+        this.loadEnvironmentAccount();
+        this.loadStoredAccounts();
+      }
+    } catch (error) {
+      console.error('Authentication setup failed:', error);
+    }
 
-        this.auth = new google.auth.OAuth2(clientId, clientSecret, redirectUri);
+    this.defaultAccount = chooseDefaultAccount([...this.accounts.keys()]);
+    if (!this.defaultAccount) {
+      console.error('No authentication found. Please run: npm run setup-auth');
+    }
+    this.authCheck = this.checkAccounts();
+  }
 
-        this.auth.setCredentials({
-          refresh_token: process.env.GOOGLE_REFRESH_TOKEN,
-        });
+  // Confirms every account's token refreshes and carries the scopes the
+  // tools need, so problems surface at startup rather than mid-conversation.
+  private async checkAccounts() {
+    await Promise.all([...this.accounts.values()].map(async (account) => {
+      const check = account.auth
+        ? await checkToken(account.auth, this.requiredScopes)
+        : account.fixtures!.tokenCheck(this.requiredScopes);
+      this.authStatus.set(account.name, {
+        account: account.name,
+        source: account.source,
+        ...check,
+        checkedAt: new Date().toISOString(),
+      });
 
-        this.classroom = google.classroom({ version: 'v1', auth: this.auth });
-        console.error('Authenticated via environment variables');
-        return;
+      const who = check.email ? ` (${check.email})` : '';
+      if (check.missingScopes.length > 0) {
+        console.error(
+          `Account "${account.name}"${who} is missing scopes: ${check.missingScopes.map(shortScope).join(', ')}. ` +
+          `Run: ${setupAuthCommand(account.name, setupAuthFlags(check.missingScopes, this.requiredScopes))}`
+        );
+      } else if (!check.ok) {
+        console.error(`Account "${account.name}" failed its token check: ${check.error}. Run: ${setupAuthCommand(account.name)}`);
+      } else if (account.auth) {
+        console.error(`Account "${account.name}"${who} verified${check.expiresAt ? `; access token valid until ${check.expiresAt}` : ''}`);
       }
+    }));
+  }
 
-      // Fallback to legacy tokens.json file (backward compatibility)
-      const tokensPath = path.join(process.cwd(), 'tokens.json');
-      const credentialsPath = path.join(process.cwd(), 'credentials.json');
-      
-      if (fs.existsSync(tokensPath) && fs.existsSync(credentialsPath)) {
-        const credentials = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
-        const tokens = JSON.parse(fs.readFileSync(tokensPath, 'utf8'));
-        
-        const { client_id, client_secret, redirect_uris } = credentials.web || credentials.installed;
-        
-        this.auth = new google.auth.OAuth2(
-          client_id,
-          client_secret,
-          redirect_uris[0] || 'urn:ietf:wg:oauth:2.0:oob'
-        );
+  // Fails fast with the scopes a tool needs but the account never granted.
+  // Accounts whose scopes are unknown (the check failed) are left to try.
+  // `extra` holds scopes the call's arguments add, such as studentId.
+  private async requireScopes(tool: string, accounts: Account[], extra: string[] = []) {
+    await this.authCheck;
+    const required = [...(TOOL_SCOPES[tool] ?? []), ...extra];
+    for (const account of accounts) {
+      const status = this.authStatus.get(account.name);
+      if (!status || status.grantedScopes.length === 0) continue;
+      const missing = missingScopes(status.grantedScopes, required);
+      if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidRequest, missingScopeMessage(tool, account.name, missing, required));
+      }
+    }
+  }
+
+  // GOOGLE_* environment variables form the default profile and take
+  // precedence over a stored one.
+  private loadEnvironmentAccount() {
+    if (!process.env.GOOGLE_REFRESH_TOKEN) return;
+    const clientId = process.env.GOOGLE_CLIENT_ID || builtInClientId();
+    if (!clientId) {
+      console.error('GOOGLE_REFRESH_TOKEN is set but GOOGLE_CLIENT_ID is not. Please run: npm run setup-auth');
+      return;
+    }
+
+    // Installed-app clients authorized with PKCE have no secret.
+    const auth = createOAuthClient({
+      clientId,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || undefined,
+    });
+    auth.setCredentials({
+      refresh_token: process.env.GOOGLE_REFRESH_TOKEN,
+    });
 
-        this.auth.setCredentials(tokens);
-        this.classroom = google.classroom({ version: 'v1', auth: this.auth });
-        console.error('Authenticated via tokens.json (legacy mode)');
-        return;
+    this.accounts.set(DEFAULT_ACCOUNT, {
+      name: DEFAULT_ACCOUNT,
+      source: 'environment',
+      auth,
+      fixtures: null,
+      ...this.connect(DEFAULT_ACCOUNT, new GoogleClassroomBackend(auth)),
+    });
+    console.error('Authenticated via environment variables');
+  }
+
+  // Every profile in the per-user credential store written by setup-auth.
+  private loadStoredAccounts() {
+    // Legacy .env / tokens.json in the working directory move into the store once
+    if (!this.accounts.has(DEFAULT_ACCOUNT)) {
+      const migratedFrom = migrateLegacyCredentials(process.cwd());
+      if (migratedFrom) {
+        console.error(`Migrated credentials from ${migratedFrom} to ${credentialsPath()}; the old file can be deleted`);
       }
+    }
 
-      console.error('No authentication found. Please run: npm run setup-auth');
-      console.error('   Or use legacy: node index.js auth');
-      
-    } catch (error) {
-      console.error('Authentication setup failed:', error);
+    for (const name of listProfiles()) {
+      if (this.accounts.has(name)) continue;
+      try {
+        const stored = loadCredentials(name);
+        if (!stored) continue;
+        const auth = createOAuthClient({ clientId: stored.clientId, clientSecret: stored.clientSecret });
+        auth.setCredentials({
+          refresh_token: stored.refreshToken,
+          access_token: stored.accessToken,
+          expiry_date: stored.expiryDate,
+          scope: stored.scope,
+        });
+        // Keep refreshed access tokens so restarts don't each need a refresh.
+        auth.on('tokens', (tokens) => {
+          try {
+            updateTokens(tokens, name);
+          } catch (error) {
+            console.error(`Could not save refreshed tokens for account "${name}":`, error);
+          }
+        });
+        this.accounts.set(name, { name, source: 'store', auth, fixtures: null, ...this.connect(name, new GoogleClassroomBackend(auth)) });
+        console.error(`Authenticated account "${name}" via ${credentialsPath(name)}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.accountErrors.set(name, message);
+        console.error(`Skipping account "${name}": ${message}`);
+      }
     }
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          // Legacy tool names for backward compatibility
-          {
-            name: 'courses',
-            description: 'Get a list of all your Google Classroom courses (legacy)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseStates: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by course states (ACTIVE, ARCHIVED, PROVISIONED, DECLINED, SUSPENDED)',
-                },
-              },
+  private resolveAccount(name?: string): Account {
+    if (name == null) return this.currentAccount()!;
+    if (name === ALL_ACCOUNTS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `account "${ALL_ACCOUNTS}" is only supported by ${[...MERGEABLE_TOOLS].join(', ')}`
+      );
+    }
+    const account = this.accounts.get(name);
+    if (!account) {
+      const reason = this.accountErrors.get(name);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        reason
+          ? `Account "${name}" could not be loaded: ${reason}`
+          : `Unknown account "${name}". Available: ${[...this.accounts.keys()].join(', ')}`
+      );
+    }
+    return account;
+  }
+
+  // Runs `collect` once as each account when `account` is "all", tagging
+  // results with the account name; otherwise once as the current account.
+  // When merging, an account that fails entirely is logged and skipped.
+  private async collectForAccounts<T>(
+    account: string | undefined,
+    failures: FailureLog,
+    collect: (tag: { account?: string }) => Promise<T[]>
+  ): Promise<T[]> {
+    if (account !== ALL_ACCOUNTS) return collect({});
+    const perAccount = await Promise.all(
+      [...this.accounts.values()].map((a) =>
+        this.accountScope.run(a, () => collect({ account: a.name })).catch((error) => {
+          failures.account(a.name, error);
+          return [];
+        })
+      )
+    );
+    return perAccount.flat();
+  }
+
+  // The result as text in the requested format, plus structuredContent
+  // matching the tool's outputSchema. Without `options` (the account and
+  // config tools) the text is indented JSON in full. A failure report
+  // follows the result as its own text block and is merged into
+  // structuredContent.
+  private toolResult({ data, key, text, report, student, matches }: ToolOutput, options?: FormatOptions) {
+    const formatted = text == null && options
+      ? formatResult(data, options)
+      : { content: [text ?? JSON.stringify(data, null, 2)], data, truncated: null };
+    const structured = formatted.data as object;
+    return {
+      content: [
+        ...formatted.content.map((block) => ({ type: 'text', text: block })),
+        ...(student ? [{ type: 'text', text: `Showing data for student ${describeStudent(student)} (studentId ${student.studentId})` }] : []),
+        ...(matches?.length ? [{ type: 'text', text: matches.join('\n') }] : []),
+        ...(report ? [{ type: 'text', text: JSON.stringify(report, null, 2) }] : []),
+      ],
+      structuredContent: {
+        ...(key ? { [key]: structured } : structured),
+        ...(formatted.truncated ? { truncated: formatted.truncated } : {}),
+        ...(student ? { student } : {}),
+        ...report,
+      },
+    };
+  }
+
+  // Every tool with its input and output schemas.
+  private toolDefinitions() {
+    const tools = [
+      // Legacy tool names for backward compatibility
+      {
+        name: 'courses',
+        description: 'Get a list of all your Google Classroom courses (legacy)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseStates: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by course states (ACTIVE, ARCHIVED, PROVISIONED, DECLINED, SUSPENDED)',
             },
           },
-          {
-            name: 'course-details',
-            description: 'Get detailed information about a specific course including announcements (legacy)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course to retrieve',
-                },
-              },
-              required: ['courseId'],
+        },
+      },
+      {
+        name: 'course-details',
+        description: 'Get detailed information about a specific course including announcements (legacy)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course to retrieve',
             },
           },
-          {
-            name: 'assignments',
-            description: 'Get assignments and coursework for a specific course (legacy)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-              },
-              required: ['courseId'],
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'assignments',
+        description: 'Get assignments and coursework for a specific course (legacy)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
             },
           },
-          // New enhanced tools
-          {
-            name: 'list_courses',
-            description: 'List all courses with advanced filtering options',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseStates: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by course states (ACTIVE, ARCHIVED, PROVISIONED, DECLINED, SUSPENDED)',
-                },
-                teacherId: {
-                  type: 'string',
-                  description: 'Filter courses by teacher ID',
-                },
-                studentId: {
-                  type: 'string',
-                  description: 'Filter courses by student ID',
-                },
-              },
+          required: ['courseId'],
+        },
+      },
+      // New enhanced tools
+      {
+        name: 'list_courses',
+        description: 'List all courses with advanced filtering options',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseStates: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by course states (ACTIVE, ARCHIVED, PROVISIONED, DECLINED, SUSPENDED)',
+            },
+            teacherId: {
+              type: 'string',
+              description: 'Filter courses by teacher ID',
             },
+            studentId: {
+              type: 'string',
+              description: 'Filter courses by student ID',
+            },
+            includeHidden: {
+              type: 'boolean',
+              description: 'Include the courses hiddenCourses in the config file leaves out',
+            },
+            ...PAGINATION_PROPERTIES,
           },
-          {
-            name: 'get_course',
-            description: 'Get detailed information about a specific course',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course to retrieve',
-                },
-              },
-              required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_course',
+        description: 'Get detailed information about a specific course',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course to retrieve',
             },
           },
-          {
-            name: 'list_coursework',
-            description: 'List assignments and coursework for a course',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-                courseWorkStates: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by coursework states (PUBLISHED, DRAFT, DELETED)',
-                },
-              },
-              required: ['courseId'],
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'list_coursework',
+        description: 'List assignments and coursework for a course',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            courseWorkStates: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by coursework states (PUBLISHED, DRAFT, DELETED)',
             },
+            ...TOPIC_PROPERTIES,
+            ...PAGINATION_PROPERTIES,
           },
-          {
-            name: 'get_coursework',
-            description: 'Get detailed information about a specific assignment',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-                courseWorkId: {
-                  type: 'string',
-                  description: 'The ID of the coursework/assignment',
-                },
-              },
-              required: ['courseId', 'courseWorkId'],
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_coursework',
+        description: 'Get detailed information about a specific assignment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            courseWorkId: {
+              type: 'string',
+              description: 'The ID of the coursework/assignment',
             },
           },
-          {
-            name: 'list_submissions',
-            description: 'View your own submissions for an assignment, including state, grade, and attachments',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-                courseWorkId: {
-                  type: 'string',
-                  description: 'The ID of the coursework/assignment',
-                },
-              },
-              required: ['courseId', 'courseWorkId'],
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+      {
+        name: 'list_submissions',
+        description: 'View your own submissions for an assignment, including state, grade, and attachments',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
             },
+            courseWorkId: {
+              type: 'string',
+              description: 'The ID of the coursework/assignment',
+            },
+            ...PAGINATION_PROPERTIES,
           },
-          {
-            name: 'list_announcements',
-            description: 'List announcements for a course',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-                announcementStates: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Filter by announcement states (PUBLISHED, DRAFT, DELETED)',
-                },
-              },
-              required: ['courseId'],
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+      {
+        name: 'list_announcements',
+        description: 'List announcements for a course',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
             },
+            announcementStates: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by announcement states (PUBLISHED, DRAFT, DELETED)',
+            },
+            ...PAGINATION_PROPERTIES,
           },
-          {
-            name: 'get_upcoming_assignments',
-            description: 'Get upcoming assignments due within the next N days across all active courses. Defaults to 7 days.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                days: {
-                  type: 'number',
-                  description: 'Number of days to look ahead. Defaults to 7. Example: 7 for one week, 14 for two weeks, 30 for one month.',
-                },
-              },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_upcoming_assignments',
+        description: 'Get upcoming assignments due within the next N days across all active courses. Defaults to 7 days, or lookaheadDays from the config file.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            days: {
+              type: 'number',
+              description: 'Number of days to look ahead. Defaults to 7, or lookaheadDays from the config file. Example: 7 for one week, 14 for two weeks, 30 for one month.',
+            },
+            ...TIMEZONE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_missing_assignments',
+        description: 'Get all past-due assignments that have not been submitted across all active courses',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...TIMEZONE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_assignments',
+        description: 'Get all published assignments for a specific course, formatted for easy reading',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            ...TOPIC_PROPERTIES,
+            ...TIMEZONE_PROPERTY,
+          },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'list_topics',
+        description: 'List the topics (classwork folders such as "Unit 3") in a course',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            ...PAGINATION_PROPERTIES,
+          },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'list_course_materials',
+        description: 'List course materials (posts like lecture slides, readings and syllabi that are not assignments), with their Drive files, links, videos and forms',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            topicId: {
+              type: 'string',
+              description: 'Only include materials in this topic (see list_topics)',
+            },
+            postedSince: {
+              type: 'string',
+              description: 'Only include materials posted on or after this date or ISO 8601 timestamp',
+            },
+            courseWorkMaterialStates: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by material states (PUBLISHED, DRAFT, DELETED)',
             },
           },
-          {
-            name: 'get_missing_assignments',
-            description: 'Get all past-due assignments that have not been submitted across all active courses',
-            inputSchema: {
-              type: 'object',
-              properties: {},
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_course_material',
+        description: 'Get one course material post and its attachments',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            materialId: {
+              type: 'string',
+              description: 'The ID of the course material',
             },
           },
-          {
-            name: 'get_assignments',
-            description: 'Get all published assignments for a specific course, formatted for easy reading',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
+          required: ['courseId', 'materialId'],
+        },
+      },
+      {
+        name: 'calculate_grade',
+        description: "Calculate your overall grade percentage for a course using the course's gradebook settings (total points or weighted categories), with per-category subtotals",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            excusedAssignmentIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Assignment IDs your teacher excused; they are left out of the grade',
+            },
+          },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_changes_since',
+        description: "What's new since you last checked: new announcements and assignments, changed due dates, grades that appeared, changed or were removed, and submission state changes (e.g. RETURNED) across active courses. Without `since`, compares against a snapshot saved by the previous call without `since`. A removed grade is listed with assignedGrade null; with `since`, only grades Classroom's history records are reported.",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            since: {
+              type: 'string',
+              description: 'ISO 8601 timestamp to report changes after, instead of the last call',
+            },
+            courseId: {
+              type: 'string',
+              description: 'Only check this course',
+            },
+            ...TIMEZONE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'simulate_grade',
+        description: 'What-if grade calculator for a course. Projects your grade from hypothetical scores on ungraded or future assignments, and with targetPercentage works out the minimum score needed on each remaining assignment and whether the target is still reachable.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            hypotheticalScores: {
+              type: 'array',
+              description: 'Scores to assume for existing assignments that are not graded yet',
+              items: {
+                type: 'object',
+                properties: {
+                  assignmentId: { type: 'string', description: 'The ID of the assignment' },
+                  score: { type: 'number', minimum: 0, description: 'Points you expect to earn. More than the assignment is worth counts as extra credit.' },
                 },
+                required: ['assignmentId', 'score'],
               },
-              required: ['courseId'],
             },
-          },
-          {
-            name: 'calculate_grade',
-            description: 'Calculate your overall grade percentage for a course based on all graded assignments',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
+            futureAssignments: {
+              type: 'array',
+              description: 'Assignments not posted yet (e.g. a final exam). Without a score they count as remaining work for the target.',
+              items: {
+                type: 'object',
+                properties: {
+                  title: { type: 'string', description: 'A label for the assignment' },
+                  maxPoints: { type: 'number', description: 'Points the assignment is worth' },
+                  category: { type: 'string', description: 'Grade category name or ID (required for weighted courses)' },
+                  score: { type: 'number', minimum: 0, description: 'Points you expect to earn, if known. More than maxPoints counts as extra credit.' },
                 },
+                required: ['title', 'maxPoints'],
               },
-              required: ['courseId'],
             },
+            targetPercentage: {
+              type: 'number',
+              description: 'Overall grade you want to finish with, e.g. 90',
+            },
+            excusedAssignmentIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Assignment IDs your teacher excused; they are left out of the grade',
+            },
+            ...TIMEZONE_PROPERTY,
           },
-          {
-            name: 'get_assignment_materials',
-            description: 'Get all materials and attachments for a specific assignment (Drive files, links, YouTube videos, forms)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                courseId: {
-                  type: 'string',
-                  description: 'The ID of the course',
-                },
-                courseWorkId: {
-                  type: 'string',
-                  description: 'The ID of the assignment',
-                },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'export_calendar',
+        description: 'Export assignment deadlines across active courses as an iCalendar (.ics) feed that any calendar app can import. ' +
+          (this.httpMode ? 'Returns the feed.' : 'Returns the feed, or writes it to outputPath.'),
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only include these courses (default: all active courses)',
+            },
+            from: {
+              type: 'string',
+              description: 'Earliest due date to include (YYYY-MM-DD, in the display timezone)',
+            },
+            to: {
+              type: 'string',
+              description: 'Latest due date to include (YYYY-MM-DD, in the display timezone)',
+            },
+            excludeTurnedIn: {
+              type: 'boolean',
+              description: 'Leave out assignments you already turned in or that were returned',
+            },
+            reminderMinutes: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Add a reminder this many minutes before each deadline, e.g. [1440, 60]',
+            },
+            // Over HTTP the path would be on the server's machine, not the client's.
+            ...(this.httpMode ? {} : {
+              outputPath: {
+                type: 'string',
+                description: 'Write the .ics file to this path instead of returning its contents',
               },
-              required: ['courseId', 'courseWorkId'],
+            }),
+            ...TIMEZONE_PROPERTY,
+          },
+        },
+      },
+      {
+        name: 'get_assignment_materials',
+        description: 'Get all materials and attachments for a specific assignment (Drive files, links, YouTube videos, forms)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            courseWorkId: {
+              type: 'string',
+              description: 'The ID of the assignment',
             },
           },
-          {
-            name: 'get_grades',
-            description: 'Get your grades across all active courses, showing assigned grade, max points, and submission state for each assignment',
-            inputSchema: {
-              type: 'object',
-              properties: {},
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+      {
+        name: 'get_grades',
+        description: 'Get your grades across all active courses, showing assigned grade, max points, and submission state for each assignment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...TIMEZONE_PROPERTY,
+          },
+        },
+      },
+      ...(this.teacherMode ? this.teacherToolDefinitions() : []),
+      ...(this.guardianMode ? [{
+        name: 'list_students_i_guard',
+        description: 'List the students you are linked to as a Classroom guardian; pass one as studentId to get_grades, get_missing_assignments, get_upcoming_assignments or calculate_grade. Google only allows this for domain administrators; others can pass a student\'s email address as studentId directly.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      }] : []),
+    ];
+
+    return [
+      ...tools.filter((tool) => this.toolEnabled(tool.name)).map((tool) => {
+        const inputSchema = {
+          ...tool.inputSchema,
+          properties: {
+            ...tool.inputSchema.properties,
+            ...(this.guardianMode && STUDENT_ID_TOOLS.has(tool.name) ? STUDENT_ID_PROPERTY : {}),
+            ...accountProperty(tool.name),
+            ...REFRESH_PROPERTY,
+          },
+        };
+        return { ...tool, inputSchema: UNFORMATTED_TOOLS.has(tool.name) ? inputSchema : withFormatArguments(inputSchema) };
+      }),
+      ...(this.writeMode ? this.writeToolDefinitions() : []),
+      {
+        name: 'reload_config',
+        description: `Re-read the config file (${configPath()}) after editing it: hidden and pinned courses, nicknames, default timezone, lookahead, grade scale and output format, and tool groups`,
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'clear_cache',
+        description: 'Drop cached Classroom responses so the next calls fetch fresh data',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            account: {
+              type: 'string',
+              description: 'Profile whose cache to clear. Clears every profile when omitted.',
+            },
+          },
+        },
+      },
+      {
+        name: 'auth_status',
+        description: 'Check sign-in for every account: who is signed in, granted vs required scopes, token expiry, and whether the token refreshes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            refresh: {
+              type: 'boolean',
+              description: 'Re-run the token checks instead of reporting the ones from startup',
             },
           },
+        },
+      },
+      {
+        name: 'list_accounts',
+        description: 'List the Google accounts (profiles) this server can use, and which one tools use by default',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ].map((tool) => ({ ...tool, inputSchema: withLookupArguments(tool.inputSchema), outputSchema: OUTPUT_SCHEMAS[tool.name] }));
+  }
+
+  // Tools outside every group (list_accounts and the like) are always listed.
+  private toolEnabled(name: string): boolean {
+    const group = toolGroupOf(name);
+    return group == null || this.toolGroupEnabled(group);
+  }
+
+  private teacherToolDefinitions() {
+    return [
+      {
+        name: 'list_students',
+        description: 'List the students enrolled in a course, with their names and email addresses (teacher mode)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            ...PAGINATION_PROPERTIES,
+          },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'list_teachers',
+        description: 'List the teachers of a course (teacher mode)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            ...PAGINATION_PROPERTIES,
+          },
+          required: ['courseId'],
+        },
+      },
+      {
+        name: 'get_submission_report',
+        description: 'Summarize every student\'s submission for an assignment: counts by state, late work, who has not turned in (and who is missing it once past due), and the grade distribution (teacher mode)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'string',
+              description: 'The ID of the course',
+            },
+            courseWorkId: {
+              type: 'string',
+              description: 'The ID of the assignment',
+            },
+            ...TIMEZONE_PROPERTY,
+          },
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+    ];
+  }
+
+  // Always read fresh data, so they take no `refresh` argument.
+  private writeToolDefinitions() {
+    const { courseId, courseWorkId, dryRun, confirm } = WRITE_PROPERTIES;
+    return [
+      {
+        name: 'turn_in_submission',
+        description: 'Turn in your submission for an assignment. Needs confirm: true; preview with dryRun: true first.',
+        inputSchema: {
+          type: 'object',
+          properties: { courseId, courseWorkId, dryRun, confirm, ...accountProperty('turn_in_submission') },
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+      {
+        name: 'reclaim_submission',
+        description: 'Reclaim (unsubmit) a turned-in submission so it can be edited. Needs confirm: true; preview with dryRun: true first.',
+        inputSchema: {
+          type: 'object',
+          properties: { courseId, courseWorkId, dryRun, confirm, ...accountProperty('reclaim_submission') },
+          required: ['courseId', 'courseWorkId'],
+        },
+      },
+      {
+        name: 'add_submission_link',
+        description: 'Attach a link to your submission for an assignment. Needs confirm: true; preview with dryRun: true first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId,
+            courseWorkId,
+            url: {
+              type: 'string',
+              description: 'The http(s) link to attach',
+            },
+            dryRun,
+            confirm,
+            ...accountProperty('add_submission_link'),
+          },
+          required: ['courseId', 'courseWorkId', 'url'],
+        },
+      },
+    ];
+  }
+
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: this.toolDefinitions() }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name } = request.params;
+      const tool = this.toolDefinitions().find((t) => t.name === name);
+      const group = toolGroupOf(name);
+      if (!tool && group && this.config.toolGroups[group] === false) {
+        throw new McpError(ErrorCode.InvalidRequest, `${name} is disabled by toolGroups.${group} in ${configPath()}`);
+      }
+      if (!tool && WRITE_TOOLS[name]) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${name} is disabled. Write tools need CLASSROOM_WRITE_MODE=on and an account set up with: npm run setup-auth -- --write`
+        );
+      }
+      if (!tool && TEACHER_TOOLS.has(name)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${name} is disabled. Teacher tools need CLASSROOM_TEACHER_MODE=on and an account set up with: npm run setup-auth -- --teacher`
+        );
+      }
+      if (!tool && name === 'list_students_i_guard') {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${name} is disabled. Guardian tools need CLASSROOM_GUARDIAN_MODE=on and an account set up with: npm run setup-auth -- --guardian`
+        );
+      }
+      if (!tool) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+      validateArguments(name, tool.inputSchema, request.params.arguments);
+      requireLookupArguments(name, tool.inputSchema, request.params.arguments);
+
+      if (name === 'list_accounts') {
+        return this.toolResult(this.listAccounts());
+      }
+      if (name === 'auth_status') {
+        return this.toolResult(await this.getAuthStatus(request.params.arguments as { refresh?: boolean } || {}));
+      }
+      if (name === 'reload_config') {
+        return this.toolResult(this.reloadConfig());
+      }
+      if (!this.backend) {
+        const reasons = [...this.accountErrors].map(([account, reason]) => ` Account "${account}": ${reason}.`).join('');
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Google Classroom API not initialized.${reasons} Please run: npm run setup-auth (auth_status has details)`
+        );
+      }
+      if (name === 'clear_cache') {
+        return this.toolResult(this.clearCache(request.params.arguments as { account?: string } || {}));
+      }
+
+      // account: "all" is handled inside the mergeable tools themselves.
+      const requested = request.params.arguments?.account as string | undefined;
+      const account = requested === ALL_ACCOUNTS && MERGEABLE_TOOLS.has(name) ? null : this.resolveAccount(requested);
+      // list_courses has a studentId filter of its own.
+      const studentId = STUDENT_ID_TOOLS.has(name) ? request.params.arguments?.studentId as string | undefined : undefined;
+      if (studentId && !this.guardianMode) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'studentId needs CLASSROOM_GUARDIAN_MODE=on and an account set up with: npm run setup-auth -- --guardian'
+        );
+      }
+      if (studentId && !account) {
+        throw new McpError(ErrorCode.InvalidParams, `studentId cannot be combined with account "${ALL_ACCOUNTS}"`);
+      }
+      await this.requireScopes(name, account ? [account] : [...this.accounts.values()], studentId ? GUARDIAN_SCOPES : []);
+
+      const call = () => studentId
+        ? this.callForStudent(studentId, name, request.params.arguments)
+        : this.runTool(name, request.params.arguments);
+      const run = () => account ? this.accountScope.run(account, call) : call();
+      try {
+        return this.toolResult(
+          await this.scheduler.track(() => request.params.arguments?.refresh === true ? withFreshData(run) : run()),
+          'format' in tool.inputSchema.properties ? this.formatOptions(tool, request.params.arguments) : undefined
+        );
+      } catch (error) {
+        if (error instanceof McpError) throw error;
+        console.error(`Error executing tool ${name}:`, error);
+        const authMessage = this.authErrorMessage(name, account?.name ?? requested ?? this.account, error);
+        if (authMessage) throw new McpError(ErrorCode.InvalidRequest, authMessage);
+        throw toMcpError(error);
+      }
+    });
+  }
+
+  // Runs a summary tool as a guarded student once the guardian link checks out.
+  private async callForStudent(studentId: string, name: string, args: Record<string, unknown> | undefined): Promise<ToolOutput> {
+    const student = await resolveGuardedStudent(this.backend!, studentId);
+    try {
+      return { ...await this.studentScope.run(student, () => this.runTool(name, args)), student };
+    } catch (error) {
+      const message = isInsufficientScopeError(error) ? null : guardianAccessMessage(student, error);
+      if (message) throw new McpError(ErrorCode.InvalidRequest, message);
+      throw error;
+    }
+  }
+
+  // Auth failures that only show up mid-call: a revoked refresh token, or a
+  // scope Google refuses even though the startup check could not see it.
+  private authErrorMessage(tool: string, account: string, error: unknown): string | null {
+    if (isInsufficientScopeError(error)) {
+      return missingScopeMessage(tool, account, TOOL_SCOPES[tool] ?? SCOPES);
+    }
+    const tokenError = (error as { response?: { data?: { error?: unknown } } })?.response?.data?.error;
+    if (typeof tokenError === 'string' && /^(invalid_grant|invalid_client|unauthorized_client)$/.test(tokenError)) {
+      return `${describeTokenError(error)} for account "${account}". Run: ${setupAuthCommand(account)}`;
+    }
+    return null;
+  }
+
+  // Swaps `course` / `assignment` names for IDs, then runs the tool.
+  private async runTool(name: string, args: Record<string, unknown> | undefined): Promise<ToolOutput> {
+    if (args?.course == null && args?.assignment == null) return this.callTool(name, args);
+
+    const { course, assignment, ...resolved } = args;
+    const matches: string[] = [];
+    if (resolved.courseId == null && typeof course === 'string') {
+      const match = await resolveCourse(this.backend!, course, this.nicknames, this.studentCourses);
+      resolved.courseId = match.id;
+      matches.push(`Matched course "${course}" to ${match.description}`);
+    }
+    if (resolved.courseWorkId == null && typeof assignment === 'string' && typeof resolved.courseId === 'string') {
+      const match = await resolveAssignment(this.backend!, resolved.courseId, assignment);
+      resolved.courseWorkId = match.id;
+      matches.push(`Matched assignment "${assignment}" to ${match.description}`);
+    }
+    const output = await this.callTool(name, resolved);
+    return matches.length > 0 ? { ...output, matches } : output;
+  }
+
+  private async callTool(name: string, args: Record<string, unknown> | undefined): Promise<ToolOutput> {
+    switch (name) {
+      // Legacy tool compatibility
+      case 'courses':
+      case 'list_courses':
+        return await this.listCourses(args || {});
+      
+      case 'course-details':
+      case 'get_course':
+        return await this.getCourse(args as { courseId: string });
+      
+      case 'assignments':
+      case 'list_coursework':
+        return await this.listCoursework(args as { courseId: string; courseWorkStates?: string[] });
+      
+      case 'get_coursework':
+        return await this.getCoursework(args as { courseId: string; courseWorkId: string });
+      
+      case 'list_submissions':
+        return await this.listSubmissions(args as { courseId: string; courseWorkId: string });
+      
+      case 'list_announcements':
+        return await this.listAnnouncements(args as { courseId: string; announcementStates?: string[] });
+      
+      case 'get_upcoming_assignments':
+        return await this.getUpcomingAssignments(args as { days?: number; timezone?: string; account?: string } || {});
+
+      case 'get_missing_assignments':
+        return await this.getMissingAssignments(args as { timezone?: string; account?: string } || {});
+
+      case 'get_assignments':
+        return await this.getAssignments(args as { courseId: string; timezone?: string });
+
+      case 'list_topics':
+        return await this.listTopics(args as { courseId: string });
+
+      case 'list_course_materials':
+        return await this.listCourseMaterials(args as unknown as ListCourseMaterialsArgs);
+
+      case 'get_course_material':
+        return await this.getCourseMaterial(args as { courseId: string; materialId: string });
+
+      case 'calculate_grade':
+        return await this.calculateGrade(args as { courseId: string; excusedAssignmentIds?: string[] });
+
+      case 'get_changes_since':
+        return await this.getChangesSince(args as { since?: string; courseId?: string; timezone?: string } || {});
+
+      case 'simulate_grade':
+        return await this.simulateGrade(args as unknown as SimulateGradeArgs);
+
+      case 'export_calendar':
+        return await this.exportCalendar(args as ExportCalendarArgs || {});
+
+      case 'get_assignment_materials':
+        return await this.getAssignmentMaterials(args as { courseId: string; courseWorkId: string });
+
+      case 'get_grades':
+        return await this.getGrades(args as { timezone?: string; account?: string } || {});
+
+      case 'list_students':
+        return await this.listStudents(args as { courseId: string });
+
+      case 'list_teachers':
+        return await this.listTeachers(args as { courseId: string });
+
+      case 'get_submission_report':
+        return await this.getSubmissionReport(args as { courseId: string; courseWorkId: string; timezone?: string });
+
+      case 'list_students_i_guard':
+        return { data: await listGuardedStudents(this.backend!) };
+
+      case 'turn_in_submission':
+      case 'reclaim_submission':
+      case 'add_submission_link':
+        return await this.writeSubmission(name, WRITE_TOOLS[name], args as unknown as WriteArgs);
+
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+  }
+
+  private setupResourceHandlers(server: Server, poller: ResourcePoller) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      // Clients list resources on connect; without credentials there is simply nothing to show.
+      if (!this.backend) {
+        return { resources: [] };
+      }
+
+      const courses = await this.coveredCourses();
+      const perCourse = await Promise.all(
+        courses.map(async (course) => {
+          const courseId = course.id!;
+          const label = course.name ?? courseId;
+          const { items: courseWork } = await this.fetchCourseWork({ courseId, courseWorkStates: ['PUBLISHED'] });
+          return [
+            { uri: resourceUri('course', { courseId }), name: label, description: course.section ?? undefined },
+            { uri: resourceUri('coursework-list', { courseId }), name: `${label}: assignments` },
+            { uri: resourceUri('announcements', { courseId }), name: `${label}: announcements` },
+            { uri: resourceUri('submissions', { courseId }), name: `${label}: my submissions` },
+            ...courseWork.map((cw) => ({
+              uri: resourceUri('coursework', { courseId, courseWorkId: cw.id! }),
+              name: cw.title ?? cw.id!,
+              description: `Assignment in ${label}`,
+            })),
+            {
+              uri: resourceUri('course-calendar', { courseId }),
+              name: `${label}: deadline calendar`,
+              mimeType: CALENDAR_MIME_TYPE,
+            },
+          ];
+        })
+      );
+
+      return {
+        resources: [
+          { uri: COURSES_URI, name: 'All courses', mimeType: 'application/json' },
+          { uri: CALENDAR_URI, name: 'Deadline calendar', description: 'iCalendar feed of deadlines across active courses', mimeType: CALENDAR_MIME_TYPE },
+          ...perCourse.flat().map((resource) => ({ mimeType: 'application/json', ...resource })),
         ],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (!this.classroom) {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES.map((t) => ({
+          uriTemplate: t.uriTemplate,
+          name: t.name,
+          description: t.description,
+          mimeType: t.mimeType ?? 'application/json',
+        })),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      if (!this.backend) {
         throw new McpError(
           ErrorCode.InternalError,
           'Google Classroom API not initialized. Please run: npm run setup-auth'
         );
       }
 
+      const match = matchResourceUri(uri);
+      if (!match) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+
       try {
-        switch (request.params.name) {
-          // Legacy tool compatibility
-          case 'courses':
-          case 'list_courses':
-            return await this.listCourses(request.params.arguments || {});
-          
-          case 'course-details':
-          case 'get_course':
-            return await this.getCourse(request.params.arguments as { courseId: string });
-          
-          case 'assignments':
-          case 'list_coursework':
-            return await this.listCoursework(request.params.arguments as { courseId: string; courseWorkStates?: string[] });
-          
-          case 'get_coursework':
-            return await this.getCoursework(request.params.arguments as { courseId: string; courseWorkId: string });
-          
-          case 'list_submissions':
-            return await this.listSubmissions(request.params.arguments as { courseId: string; courseWorkId: string });
-          
-          case 'list_announcements':
-            return await this.listAnnouncements(request.params.arguments as { courseId: string; announcementStates?: string[] });
-          
-          case 'get_upcoming_assignments':
-            return await this.getUpcomingAssignments(request.params.arguments as { days?: number } || {});
-
-          case 'get_missing_assignments':
-            return await this.getMissingAssignments();
-
-          case 'get_assignments':
-            return await this.getAssignments(request.params.arguments as { courseId: string });
-
-          case 'calculate_grade':
-            return await this.calculateGrade(request.params.arguments as { courseId: string });
-
-          case 'get_assignment_materials':
-            return await this.getAssignmentMaterials(request.params.arguments as { courseId: string; courseWorkId: string });
-
-          case 'get_grades':
-            return await this.getGrades();
-
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
-        }
+        const data = await this.readResource(match.kind, match.params);
+        return {
+          contents: [{
+            uri,
+            mimeType: resourceMimeType(match.kind),
+            text: typeof data === 'string' ? data : JSON.stringify(data, null, 2),
+          }],
+        };
       } catch (error) {
-        console.error(`Error executing tool ${request.params.name}:`, error);
-        throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error(`Error reading resource ${uri}:`, error);
+        if (classifyError(error).kind !== 'unknown') throw toMcpError(error);
+        throw new McpError(ErrorCode.InternalError, `Resource read failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      if (!matchResourceUri(uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
       }
+      await poller.subscribe(uri);
+      return {};
     });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      poller.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private async readResource(kind: ResourceKind, params: Record<string, string>) {
+    const { courseId, courseWorkId } = params;
+    switch (kind) {
+      case 'courses': {
+        const { items } = await this.fetchCourses({});
+        return { courses: arrangeCourses(items, this.config) };
+      }
+
+      case 'course':
+        return this.backend!.getCourse(courseId);
+
+      case 'coursework-list': {
+        const { items } = await this.fetchCourseWork({ courseId, courseWorkStates: ['PUBLISHED'] });
+        return { courseWork: items };
+      }
+
+      case 'coursework': {
+        const cw = await this.backend!.getCourseWork(courseId, courseWorkId);
+        return { ...cw, deadline: deadlineFields(cw, this.resolveTimezone()) };
+      }
+
+      case 'coursework-materials':
+        return this.assignmentMaterials(courseId, courseWorkId);
+
+      case 'submission': {
+        const { items } = await this.fetchSubmissions({ courseId, courseWorkId, userId: 'me' });
+        return { studentSubmissions: items };
+      }
+
+      case 'submissions': {
+        const { items } = await this.fetchSubmissions({ courseId, courseWorkId: '-', userId: 'me' });
+        return { studentSubmissions: items };
+      }
+
+      case 'announcements': {
+        const { items } = await this.fetchAnnouncements({ courseId });
+        return { announcements: items };
+      }
+
+      case 'calendar':
+        return buildCalendar(await this.deadlineEvents({ timezone: this.resolveTimezone() }));
+
+      case 'course-calendar': {
+        const events = await this.deadlineEvents({ courseIds: [courseId], timezone: this.resolveTimezone() });
+        return buildCalendar(events, { name: events[0]?.courseName ?? undefined });
+      }
+    }
+  }
+
+  // The `timezone` argument, else the config file's, else CLASSROOM_TIMEZONE or the system's.
+  private resolveTimezone(timezone?: string): string {
+    if (timezone == null) return this.config.timezone ?? defaultTimezone();
+    if (!isValidTimezone(timezone)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown timezone "${timezone}". Use an IANA name such as America/New_York.`);
+    }
+    return timezone;
+  }
+
+  // The call's format arguments over the config file's defaults. On the
+  // paged list_* tools maxItems is the pagination limit, which already
+  // stopped the fetch; it is not applied a second time to the display.
+  private formatOptions(tool: { name: string; inputSchema: { properties: object } }, args: Record<string, unknown> = {}): FormatOptions {
+    const paged = 'pageToken' in tool.inputSchema.properties;
+    return {
+      format: (args.format as OutputFormat | undefined) ?? this.config.format ?? 'json',
+      list: LIST_PROPERTIES[tool.name],
+      fields: args.fields as string[] | undefined,
+      maxItems: paged ? undefined : args.maxItems as number | undefined,
+      maxChars: (args.maxChars as number | undefined) ?? this.config.maxChars ?? DEFAULT_MAX_CHARS,
+    };
+  }
+
+  // The courses cross-course tools cover: ACTIVE ones plus pinned ones in any
+  // state, minus hidden ones, pinned first.
+  private async coveredCourses(params: Pick<ListCoursesParams, 'studentId'> = {}) {
+    const { items } = await this.fetchCourses(this.config.pinnedCourses.length > 0 ? params : { courseStates: ['ACTIVE'], ...params });
+    return this.coverCourses(items);
+  }
+
+  private coverCourses(courses: Course[]) {
+    const { pinnedCourses } = this.config;
+    return arrangeCourses(
+      courses.filter((course) => course.courseState === 'ACTIVE' || listsCourse(pinnedCourses, course)),
+      this.config
+    );
+  }
+
+  // Paginated fetch helpers — every handler lists through these so no caller
+  // ever works from a truncated first page.
+  private fetchCourses(params: Omit<ListCoursesParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listCourses({ ...params, ...page }), options);
+  }
+
+  private fetchCourseWork(
+    params: Omit<ListCourseWorkParams, 'pageToken' | 'pageSize'>,
+    options: PaginationOptions = {},
+    keep?: (courseWork: CourseWork) => boolean
+  ) {
+    return paginate((page) => this.backend!.listCourseWork({ ...params, ...page }), options, keep);
+  }
+
+  private fetchSubmissions(params: Omit<ListSubmissionsParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listSubmissions({ ...params, ...page }), options);
+  }
+
+  private fetchAnnouncements(params: Omit<ListAnnouncementsParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listAnnouncements({ ...params, ...page }), options);
+  }
+
+  private fetchTopics(params: Omit<ListTopicsParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listTopics({ ...params, ...page }), options);
+  }
+
+  private fetchStudents(params: Omit<ListRosterParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listStudents({ ...params, ...page }), options);
+  }
+
+  private fetchTeachers(params: Omit<ListRosterParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listTeachers({ ...params, ...page }), options);
+  }
+
+  private fetchCourseWorkMaterials(params: Omit<ListCourseWorkMaterialsParams, 'pageToken' | 'pageSize'>, options: PaginationOptions = {}) {
+    return paginate((page) => this.backend!.listCourseWorkMaterials({ ...params, ...page }), options);
+  }
+
+  private async getAuthStatus(args: { refresh?: boolean }) {
+    if (args.refresh) {
+      this.authCheck = this.checkAccounts();
+    }
+    await this.authCheck;
+
+    const accounts = [...this.accounts.keys()]
+      .sort()
+      .map((name) => ({ ...this.authStatus.get(name)!, default: name === this.defaultAccount }));
+    const unavailable = [...this.accountErrors].map(([name, reason]) => ({
+      name,
+      reason,
+      fix: `Run: ${setupAuthCommand(name, setupAuthFlags(this.requiredScopes))}`,
+    }));
+
+    return {
+      data: {
+        ok: accounts.length > 0 && accounts.every((a) => a.ok),
+        requiredScopes: this.requiredScopes,
+        accounts,
+        ...(unavailable.length > 0 ? { unavailable } : {}),
+        ...(accounts.length === 0 && unavailable.length === 0
+          ? { hint: 'No credentials found. Run: npm run setup-auth' }
+          : {}),
+      },
+    };
+  }
+
+  // A broken file keeps the settings in effect. Sessions hear about tools
+  // that appeared or went away, and a change in required scopes re-runs the
+  // token checks so auth_status stays accurate.
+  private reloadConfig() {
+    const file = configPath();
+    let loaded: ReturnType<typeof loadConfig>;
+    try {
+      loaded = loadConfig(file);
+    } catch (error) {
+      if (error instanceof ConfigError) throw new McpError(ErrorCode.InvalidRequest, `${error.message}. Kept the previous settings.`);
+      throw error;
+    }
+
+    const toolsBefore = this.toolDefinitions().map((tool) => tool.name);
+    const scopesBefore = this.requiredScopes.join(' ');
+    this.config = loaded.config;
+    const toolsAfter = this.toolDefinitions().map((tool) => tool.name);
+    const toolsAdded = toolsAfter.filter((tool) => !toolsBefore.includes(tool));
+    const toolsRemoved = toolsBefore.filter((tool) => !toolsAfter.includes(tool));
+
+    if (toolsAdded.length > 0 || toolsRemoved.length > 0) {
+      for (const server of this.servers) {
+        server.sendToolListChanged().catch((error) => console.error('Could not send tools/list_changed:', error));
+      }
+    }
+    if (this.requiredScopes.join(' ') !== scopesBefore) {
+      this.authCheck = this.checkAccounts();
+    }
+
+    return {
+      data: {
+        path: file,
+        found: loaded.found,
+        ...this.config,
+        toolGroups: Object.fromEntries(Object.keys(TOOL_GROUPS).map((group) => [group, this.toolGroupEnabled(group)])),
+        toolsAdded,
+        toolsRemoved,
+      },
+    };
+  }
+
+  private clearCache(args: { account?: string }) {
+    const accounts = args.account ? [this.resolveAccount(args.account)] : [...this.accounts.values()];
+    const cleared = accounts.map((account) => ({ account: account.name, entries: account.backend.clear() }));
+    return { data: { cleared } };
+  }
+
+  private listAccounts() {
+    const accounts = [...this.accounts.values()]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((account) => {
+        let stored = null;
+        if (account.source === 'store') {
+          try {
+            stored = describeProfile(account.name);
+          } catch {
+            // Loaded at startup; a later permission change only affects the metadata.
+          }
+        }
+        return {
+          name: account.name,
+          default: account.name === this.defaultAccount,
+          source: account.source,
+          ...(stored ? { credentialsFile: stored.file, encrypted: stored.encrypted, savedAt: stored.savedAt } : {}),
+        };
+      });
+    const unavailable = [...this.accountErrors].map(([name, reason]) => ({ name, reason }));
+
+    return {
+      data: {
+        defaultAccount: this.defaultAccount,
+        accounts,
+        ...(unavailable.length > 0 ? { unavailable } : {}),
+      },
+    };
   }
 
   private async listCourses(args: any) {
-    const response = await this.classroom.courses.list({
+    const result = await this.fetchCourses({
       courseStates: args.courseStates,
       teacherId: args.teacherId,
       studentId: args.studentId,
-    });
+    }, paginationOptions(args));
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
+      data: {
+        courses: arrangeCourses(result.items, this.config, args.includeHidden === true),
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
     };
   }
 
   private async getCourse(args: { courseId: string }) {
-    const response = await this.classroom.courses.get({
-      id: args.courseId,
-    });
+    const course = await this.backend!.getCourse(args.courseId);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
-    };
+    return { data: course };
   }
 
-  private async listCoursework(args: { courseId: string; courseWorkStates?: string[] }) {
-    const response = await this.classroom.courses.courseWork.list({
+  private async listCoursework(args: { courseId: string; courseWorkStates?: string[] } & TopicArgs & PaginationOptions) {
+    // The API cannot filter by topic, so a single page would come back with
+    // however many of its items happen to match.
+    if (args.topicId && args.pageSize != null) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'topicId cannot be combined with pageSize. Use maxItems to cap the results; its nextPageToken resumes with the same topicId.'
+      );
+    }
+    const result = await this.fetchCourseWork({
       courseId: args.courseId,
       courseWorkStates: args.courseWorkStates,
-    });
+    }, paginationOptions(args), args.topicId ? (courseWork) => courseWork.topicId === args.topicId : undefined);
+    const courseWork = result.items;
+    const grouped = args.groupByTopic
+      ? groupByTopic(courseWork, (await this.fetchTopics({ courseId: args.courseId })).items)
+        .map(({ items, ...topic }) => ({ ...topic, courseWork: items }))
+      : null;
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
+      data: {
+        ...(grouped ? { topics: grouped } : { courseWork }),
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
     };
   }
 
   private async getCoursework(args: { courseId: string; courseWorkId: string }) {
-    const response = await this.classroom.courses.courseWork.get({
-      courseId: args.courseId,
-      id: args.courseWorkId,
-    });
+    const courseWork = await this.backend!.getCourseWork(args.courseId, args.courseWorkId);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
-    };
+    return { data: courseWork };
   }
 
-  private async listSubmissions(args: { courseId: string; courseWorkId: string }) {
-    const response = await this.classroom.courses.courseWork.studentSubmissions.list({
+  private async listSubmissions(args: { courseId: string; courseWorkId: string } & PaginationOptions) {
+    const result = await this.fetchSubmissions({
       courseId: args.courseId,
       courseWorkId: args.courseWorkId,
       userId: 'me',
-    });
+    }, paginationOptions(args));
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
+      data: {
+        studentSubmissions: result.items,
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
     };
   }
 
-  private async listAnnouncements(args: { courseId: string; announcementStates?: string[] }) {
-    const response = await this.classroom.courses.announcements.list({
+  private async listAnnouncements(args: { courseId: string; announcementStates?: string[] } & PaginationOptions) {
+    const result = await this.fetchAnnouncements({
       courseId: args.courseId,
       announcementStates: args.announcementStates,
-    });
+    }, paginationOptions(args));
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response.data, null, 2),
-        },
-      ],
+      data: {
+        announcements: result.items,
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
     };
   }
 
-  private async getUpcomingAssignments(args: { days?: number } = {}) {
-    const days = args.days ?? 7;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const now = today.getTime();
-    const cutoff = now + days * 24 * 60 * 60 * 1000;
+  private async getUpcomingAssignments(args: { days?: number; timezone?: string; account?: string } = {}) {
+    const days = args.days ?? this.config.lookaheadDays ?? 7;
+    const timezone = this.resolveTimezone(args.timezone);
+    const now = Date.now();
+    const cutoff = now + days * DAY;
 
-    const coursesResponse = await this.classroom.courses.list({ courseStates: ['ACTIVE'] });
-    const courses: any[] = coursesResponse.data.courses || [];
+    const failures = new FailureLog();
+    const upcoming = await this.collectForAccounts(args.account, failures, async (tag) => {
+      const courses = await this.coveredCourses(this.studentCourses);
 
-    const perCourse = await Promise.all(
-      courses.map(async (course: any) => {
-        try {
-          const cwResponse = await this.classroom.courses.courseWork.list({
-            courseId: course.id,
-            courseWorkStates: ['PUBLISHED'],
-          });
-          const items: any[] = cwResponse.data.courseWork || [];
-          return items
-            .filter((cw: any) => {
-              if (!cw.dueDate) return false;
-              const { year, month, day } = cw.dueDate;
-              const due = new Date(year, month - 1, day).getTime();
-              return due >= now && due <= cutoff;
-            })
-            .map((cw: any) => {
-              const { year, month, day } = cw.dueDate;
+      const perCourse = await Promise.all(
+        courses.map(async (course: any) => {
+          try {
+            const { items } = await this.fetchCourseWork({
+              courseId: course.id,
+              courseWorkStates: ['PUBLISHED'],
+            });
+            return items
+              .map((cw: any) => ({ cw, due: dueInstant(cw, timezone) }))
+              .filter(({ due }) => due != null && due >= now && due <= cutoff)
+              .map(({ cw, due }) => ({
+                due: due!,
+                assignment: {
+                  ...tag,
+                  courseId: course.id,
+                  courseName: course.name,
+                  assignmentId: cw.id,
+                  title: cw.title,
+                  ...deadlineOutput(cw, timezone, now),
+                  maxPoints: cw.maxPoints ?? null,
+                  alternateLink: cw.alternateLink ?? null,
+                },
+              }));
+          } catch (error) {
+            failures.course(course, error, tag);
+            return [];
+          }
+        })
+      );
+      return perCourse.flat();
+    });
+
+    const assignments = upcoming
+      .sort((a, b) => a.due - b.due)
+      .map(({ assignment }) => assignment);
+
+    return { data: assignments, key: 'assignments', report: failures.report(this.scheduler.stats()) };
+  }
+
+  private async getGrades(args: { timezone?: string; account?: string } = {}) {
+    const timezone = this.resolveTimezone(args.timezone);
+    const now = Date.now();
+    const failures = new FailureLog();
+    const grades = await this.collectForAccounts(args.account, failures, async (tag) => {
+      const courses = await this.coveredCourses(this.studentCourses);
+
+      const perCourse = await Promise.all(
+        courses.map(async (course: any) => {
+          try {
+            const [courseWork, submissions] = await Promise.all([
+              this.fetchCourseWork({
+                courseId: course.id,
+                courseWorkStates: ['PUBLISHED'],
+              }),
+              this.fetchSubmissions({
+                courseId: course.id,
+                courseWorkId: '-',
+                userId: this.userId,
+              }),
+            ]);
+
+            const courseworkMap: Record<string, any> = {};
+            for (const cw of courseWork.items) {
+              courseworkMap[cw.id!] = cw;
+            }
+
+            return submissions.items.map((sub: any) => {
+              const cw = courseworkMap[sub.courseWorkId] || {};
               return {
+                ...tag,
                 courseId: course.id,
                 courseName: course.name,
-                assignmentId: cw.id,
-                title: cw.title,
-                dueDate: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+                assignmentId: sub.courseWorkId,
+                title: cw.title ?? null,
+                state: sub.state,
+                assignedGrade: sub.assignedGrade ?? null,
                 maxPoints: cw.maxPoints ?? null,
-                alternateLink: cw.alternateLink ?? null,
+                ...deadlineOutput(cw, timezone, now),
+                alternateLink: sub.alternateLink ?? null,
               };
             });
-        } catch {
-          return [];
-        }
-      })
-    );
+          } catch (error) {
+            failures.course(course, error, tag);
+            return [];
+          }
+        })
+      );
 
-    const assignments = perCourse
-      .flat()
-      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+      return perCourse.flat();
+    });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(assignments, null, 2),
-        },
-      ],
-    };
+    return { data: grades, key: 'grades', report: failures.report(this.scheduler.stats()) };
   }
 
-  private async getGrades() {
-    const coursesResponse = await this.classroom.courses.list({ courseStates: ['ACTIVE'] });
-    const courses: any[] = coursesResponse.data.courses || [];
+  private async getMissingAssignments(args: { timezone?: string; account?: string } = {}) {
+    const timezone = this.resolveTimezone(args.timezone);
+    const now = Date.now();
 
-    const perCourse = await Promise.all(
-      courses.map(async (course: any) => {
-        try {
-          const [cwResponse, subResponse] = await Promise.all([
-            this.classroom.courses.courseWork.list({
-              courseId: course.id,
-              courseWorkStates: ['PUBLISHED'],
-            }),
-            this.classroom.courses.courseWork.studentSubmissions.list({
-              courseId: course.id,
-              courseWorkId: '-',
-              userId: 'me',
-            }),
-          ]);
+    const failures = new FailureLog();
+    const overdue = await this.collectForAccounts(args.account, failures, async (tag) => {
+      const courses = await this.coveredCourses(this.studentCourses);
 
-          const courseworkMap: Record<string, any> = {};
-          for (const cw of cwResponse.data.courseWork || []) {
-            courseworkMap[cw.id] = cw;
+      const perCourse = await Promise.all(
+        courses.map(async (course: any) => {
+          try {
+            const [courseWork, submissions] = await Promise.all([
+              this.fetchCourseWork({
+                courseId: course.id,
+                courseWorkStates: ['PUBLISHED'],
+              }),
+              this.fetchSubmissions({
+                courseId: course.id,
+                courseWorkId: '-',
+                userId: this.userId,
+              }),
+            ]);
+
+            const submissionMap: Record<string, any> = {};
+            for (const sub of submissions.items) {
+              submissionMap[sub.courseWorkId!] = sub;
+            }
+
+            return courseWork.items
+              .map((cw: any) => ({ cw, due: dueInstant(cw, timezone) }))
+              .filter(({ cw, due }) => {
+                if (due == null || due >= now) return false;
+                const sub = submissionMap[cw.id];
+                if (!sub) return true;
+                return sub.state !== 'TURNED_IN' && sub.state !== 'RETURNED';
+              })
+              .map(({ cw, due }) => {
+                const sub = submissionMap[cw.id];
+                return {
+                  due: due!,
+                  assignment: {
+                    ...tag,
+                    courseId: course.id,
+                    courseName: course.name,
+                    assignmentId: cw.id,
+                    title: cw.title,
+                    ...deadlineOutput(cw, timezone, now),
+                    maxPoints: cw.maxPoints ?? null,
+                    submissionState: sub?.state ?? 'NOT_STARTED',
+                    alternateLink: cw.alternateLink ?? null,
+                  },
+                };
+              });
+          } catch (error) {
+            failures.course(course, error, tag);
+            return [];
           }
+        })
+      );
 
-          return (subResponse.data.studentSubmissions || []).map((sub: any) => {
-            const cw = courseworkMap[sub.courseWorkId] || {};
-            return {
-              courseId: course.id,
-              courseName: course.name,
-              assignmentId: sub.courseWorkId,
-              title: cw.title ?? null,
-              state: sub.state,
-              assignedGrade: sub.assignedGrade ?? null,
-              maxPoints: cw.maxPoints ?? null,
-              dueDate: cw.dueDate
-                ? `${cw.dueDate.year}-${String(cw.dueDate.month).padStart(2, '0')}-${String(cw.dueDate.day).padStart(2, '0')}`
-                : null,
-              alternateLink: sub.alternateLink ?? null,
-            };
-          });
-        } catch {
-          return [];
-        }
-      })
-    );
+      return perCourse.flat();
+    });
+
+    const missing = overdue
+      .sort((a, b) => a.due - b.due)
+      .map(({ assignment }) => assignment);
+
+    return { data: missing, key: 'assignments', report: failures.report(this.scheduler.stats()) };
+  }
+
+  private async getAssignments(args: { courseId: string; timezone?: string } & TopicArgs) {
+    const timezone = this.resolveTimezone(args.timezone);
+    const now = Date.now();
+    const [{ items }, topics] = await Promise.all([
+      this.fetchCourseWork({
+        courseId: args.courseId,
+        courseWorkStates: ['PUBLISHED'],
+      }),
+      args.groupByTopic ? this.fetchTopics({ courseId: args.courseId }) : null,
+    ]);
+
+    const assignments = filterByTopic(items, args.topicId).map((cw: any) => ({
+      id: cw.id,
+      title: cw.title,
+      description: cw.description ?? null,
+      workType: cw.workType,
+      topicId: cw.topicId ?? null,
+      maxPoints: cw.maxPoints ?? null,
+      ...deadlineOutput(cw, timezone, now),
+      creationTime: cw.creationTime ?? null,
+      alternateLink: cw.alternateLink ?? null,
+    }));
+    if (!topics) {
+      return { data: assignments, key: 'assignments' };
+    }
+    const grouped = groupByTopic(assignments, topics.items).map(({ items, ...topic }) => ({ ...topic, assignments: items }));
+    return { data: grouped, key: 'topics' };
+  }
 
-    const grades = perCourse.flat();
+  private async listTopics(args: { courseId: string } & PaginationOptions) {
+    const result = await this.fetchTopics({ courseId: args.courseId }, paginationOptions(args));
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(grades, null, 2),
-        },
-      ],
+      data: {
+        topics: result.items,
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
     };
   }
 
-  private async getMissingAssignments() {
-    const now = Date.now();
+  private async listCourseMaterials(args: ListCourseMaterialsArgs) {
+    const postedSince = args.postedSince != null ? Date.parse(args.postedSince) : null;
+    if (postedSince != null && Number.isNaN(postedSince)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid postedSince "${args.postedSince}". Use a date like 2024-03-01 or an ISO 8601 timestamp.`);
+    }
 
-    const coursesResponse = await this.classroom.courses.list({ courseStates: ['ACTIVE'] });
-    const courses: any[] = coursesResponse.data.courses || [];
+    const [materials, topics] = await Promise.all([
+      this.fetchCourseWorkMaterials({
+        courseId: args.courseId,
+        courseWorkMaterialStates: args.courseWorkMaterialStates,
+      }),
+      this.fetchTopics({ courseId: args.courseId }),
+    ]);
+    const topicNames = new Map(topics.items.map((t) => [t.topicId!, t.name ?? null]));
 
-    const perCourse = await Promise.all(
-      courses.map(async (course: any) => {
-        try {
-          const [cwResponse, subResponse] = await Promise.all([
-            this.classroom.courses.courseWork.list({
-              courseId: course.id,
-              courseWorkStates: ['PUBLISHED'],
-            }),
-            this.classroom.courses.courseWork.studentSubmissions.list({
-              courseId: course.id,
-              courseWorkId: '-',
-              userId: 'me',
-            }),
-          ]);
+    const output = filterByTopic(materials.items, args.topicId)
+      .filter((m) => postedSince == null || (!!m.creationTime && Date.parse(m.creationTime) >= postedSince))
+      .map((m) => normalizeCourseWorkMaterial(m, topicNames));
 
-          const submissionMap: Record<string, any> = {};
-          for (const sub of subResponse.data.studentSubmissions || []) {
-            submissionMap[sub.courseWorkId] = sub;
-          }
+    return { data: output, key: 'materials' };
+  }
 
-          const items: any[] = cwResponse.data.courseWork || [];
-          return items
-            .filter((cw: any) => {
-              if (!cw.dueDate) return false;
-              const { year, month, day } = cw.dueDate;
-              const due = new Date(year, month - 1, day).getTime();
-              if (due >= now) return false;
-              const sub = submissionMap[cw.id];
-              if (!sub) return true;
-              return sub.state !== 'TURNED_IN' && sub.state !== 'RETURNED';
-            })
-            .map((cw: any) => {
-              const { year, month, day } = cw.dueDate;
-              const sub = submissionMap[cw.id];
-              return {
-                courseId: course.id,
-                courseName: course.name,
-                assignmentId: cw.id,
-                title: cw.title,
-                dueDate: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
-                maxPoints: cw.maxPoints ?? null,
-                submissionState: sub?.state ?? 'NOT_STARTED',
-                alternateLink: cw.alternateLink ?? null,
-              };
-            });
-        } catch {
-          return [];
-        }
-      })
-    );
+  private async getCourseMaterial(args: { courseId: string; materialId: string }) {
+    const [material, topics] = await Promise.all([
+      this.backend!.getCourseWorkMaterial(args.courseId, args.materialId),
+      this.fetchTopics({ courseId: args.courseId }),
+    ]);
+    const topicNames = new Map(topics.items.map((t) => [t.topicId!, t.name ?? null]));
+
+    return { data: normalizeCourseWorkMaterial(material, topicNames) };
+  }
+
+  private async calculateGrade(args: { courseId: string; excusedAssignmentIds?: string[] }) {
+    const [course, courseWork, submissions] = await Promise.all([
+      this.backend!.getCourse(args.courseId),
+      this.fetchCourseWork({
+        courseId: args.courseId,
+        courseWorkStates: ['PUBLISHED'],
+      }),
+      this.fetchSubmissions({
+        courseId: args.courseId,
+        courseWorkId: '-',
+        userId: this.userId,
+      }),
+    ]);
 
-    const missing = perCourse.flat().sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    const { items, excluded } = collectScoredItems(
+      course,
+      courseWork.items,
+      submissions.items,
+      new Set(args.excusedAssignmentIds || [])
+    );
+    const summary = summarizeGrade(course, items);
+    const categoryNames = new Map(summary.categories.map((c) => [c.id, c.name]));
+
+    const breakdown = items.map((item) => ({
+      assignmentId: item.assignmentId,
+      title: item.title,
+      category: categoryNames.get(item.categoryId) ?? null,
+      earned: item.earned,
+      possible: item.possible,
+      percentage: percentage(item.earned, item.possible),
+    }));
 
     return {
-      content: [{ type: 'text', text: JSON.stringify(missing, null, 2) }],
+      data: {
+        courseId: args.courseId,
+        courseName: course.name ?? null,
+        calculationType: summary.calculationType,
+        method: summary.method,
+        totalEarned: summary.totalEarned,
+        totalPossible: summary.totalPossible,
+        overallPercentage: summary.overallPercentage,
+        ...(this.config.gradeScale ? { letterGrade: letterGrade(summary.overallPercentage, this.config.gradeScale) } : {}),
+        gradedAssignments: breakdown.length,
+        categories: summary.categories,
+        breakdown,
+        excluded,
+      },
     };
   }
 
-  private async getAssignments(args: { courseId: string }) {
-    const response = await this.classroom.courses.courseWork.list({
-      courseId: args.courseId,
-      courseWorkStates: ['PUBLISHED'],
-    });
+  private async getChangesSince(args: { since?: string; courseId?: string; timezone?: string } = {}) {
+    const timezone = this.resolveTimezone(args.timezone);
+    const since = args.since != null ? new Date(args.since) : null;
+    if (since && Number.isNaN(since.getTime())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid since timestamp "${args.since}". Use ISO 8601, e.g. 2024-03-01T08:00:00Z.`);
+    }
 
-    const items: any[] = response.data.courseWork || [];
-    const assignments = items.map((cw: any) => ({
-      id: cw.id,
-      title: cw.title,
-      description: cw.description ?? null,
-      workType: cw.workType,
-      maxPoints: cw.maxPoints ?? null,
-      dueDate: cw.dueDate
-        ? `${cw.dueDate.year}-${String(cw.dueDate.month).padStart(2, '0')}-${String(cw.dueDate.day).padStart(2, '0')}`
-        : null,
-      creationTime: cw.creationTime ?? null,
-      alternateLink: cw.alternateLink ?? null,
-    }));
+    const checkedAt = new Date();
+    const courses = args.courseId
+      ? [await this.backend!.getCourse(args.courseId)]
+      : await this.coveredCourses();
+
+    const failures = new FailureLog();
+    const fetched = await Promise.all(
+      courses.map(async (course): Promise<CourseData | null> => {
+        try {
+          const [courseWork, announcements, submissions] = await Promise.all([
+            this.fetchCourseWork({ courseId: course.id!, courseWorkStates: ['PUBLISHED'] }),
+            this.fetchAnnouncements({ courseId: course.id! }),
+            this.fetchSubmissions({ courseId: course.id!, courseWorkId: '-', userId: 'me' }),
+          ]);
+          return {
+            course,
+            courseWork: courseWork.items,
+            announcements: announcements.items,
+            submissions: submissions.items,
+          };
+        } catch (error) {
+          failures.course(course, error);
+          return null;
+        }
+      })
+    );
+    const data = fetched.filter((d): d is CourseData => d !== null);
+
+    // A single-course check only replaces that course's part of the snapshot.
+    const snapshotKey = this.account;
+    const previous = loadSnapshot(snapshotKey);
+    const scopedPrevious = previous && args.courseId
+      ? { ...previous, courses: previous.courses[args.courseId] ? { [args.courseId]: previous.courses[args.courseId] } : {} }
+      : previous;
+    const failedCourseIds = failures.failedCourses.map((failure) => failure.courseId);
+    const current = buildSnapshot(data, failedCourseIds, scopedPrevious, checkedAt);
+    // A `since` check leaves the snapshot alone, so the next snapshot check
+    // still covers everything since the previous snapshot check.
+    if (!since) {
+      saveSnapshot(snapshotKey, args.courseId && previous
+        ? { takenAt: current.takenAt, courses: { ...previous.courses, ...current.courses } }
+        : current);
+    }
+
+    const now = checkedAt.getTime();
+    const firstRun = !since && !scopedPrevious;
+    const digest = since
+      ? changesSinceTimestamp(data, since, timezone, now)
+      : scopedPrevious
+        ? diffSnapshots(scopedPrevious, current, data, timezone, now)
+        : null;
 
     return {
-      content: [{ type: 'text', text: JSON.stringify(assignments, null, 2) }],
+      data: {
+        account: this.account,
+        mode: since ? 'timestamp' : 'snapshot',
+        since: since ? since.toISOString() : scopedPrevious?.takenAt ?? null,
+        checkedAt: checkedAt.toISOString(),
+        ...(firstRun
+          ? { firstRun: true, note: 'No earlier snapshot for this account; saved one now. Call again later to see what changed.' }
+          : {}),
+        ...(digest ? { summary: summarizeDigest(digest), ...digest } : {}),
+        ...failures.report(this.scheduler.stats()),
+      },
     };
   }
 
-  private async calculateGrade(args: { courseId: string }) {
-    const [cwResponse, subResponse] = await Promise.all([
-      this.classroom.courses.courseWork.list({
+  private async simulateGrade(args: SimulateGradeArgs) {
+    // Above an assignment's points is extra credit; below zero is a mistake.
+    const negative = [...(args.hypotheticalScores || []), ...(args.futureAssignments || [])]
+      .find((entry) => entry.score != null && entry.score < 0);
+    if (negative) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid score ${negative.score}: a score must be >= 0`);
+    }
+    const timezone = this.resolveTimezone(args.timezone);
+    const [course, courseWork, submissions] = await Promise.all([
+      this.backend!.getCourse(args.courseId),
+      this.fetchCourseWork({
         courseId: args.courseId,
         courseWorkStates: ['PUBLISHED'],
       }),
-      this.classroom.courses.courseWork.studentSubmissions.list({
+      this.fetchSubmissions({
         courseId: args.courseId,
         courseWorkId: '-',
         userId: 'me',
       }),
     ]);
 
-    const courseworkMap: Record<string, any> = {};
-    for (const cw of cwResponse.data.courseWork || []) {
-      courseworkMap[cw.id] = cw;
-    }
-
-    let totalEarned = 0;
-    let totalPossible = 0;
-    const breakdown: any[] = [];
-
-    for (const sub of subResponse.data.studentSubmissions || []) {
-      const cw = courseworkMap[sub.courseWorkId];
-      if (!cw || cw.maxPoints == null || sub.assignedGrade == null) continue;
-      totalEarned += sub.assignedGrade;
-      totalPossible += cw.maxPoints;
-      breakdown.push({
-        assignmentId: sub.courseWorkId,
-        title: cw.title ?? null,
-        earned: sub.assignedGrade,
-        possible: cw.maxPoints,
-        percentage: cw.maxPoints > 0 ? Math.round((sub.assignedGrade / cw.maxPoints) * 1000) / 10 : null,
-      });
+    const excusedIds = new Set(args.excusedAssignmentIds || []);
+    const { items: graded } = collectScoredItems(course, courseWork.items, submissions.items, excusedIds);
+    let remaining = collectPendingItems(course, courseWork.items, submissions.items, excusedIds);
+    const hypothetical: ScoredItem[] = [];
+
+    for (const { assignmentId, score } of args.hypotheticalScores || []) {
+      const pending = remaining.find((item) => item.assignmentId === assignmentId);
+      if (!pending) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Assignment ${assignmentId} is not an ungraded, gradable assignment in course ${args.courseId}`
+        );
+      }
+      remaining = remaining.filter((item) => item !== pending);
+      hypothetical.push({ ...pending, earned: score });
+    }
+
+    const categories = course.gradebookSettings?.gradeCategories || [];
+    const weighted = course.gradebookSettings?.calculationType === 'WEIGHTED_CATEGORIES';
+    for (const future of args.futureAssignments || []) {
+      const wanted = future.category?.toLowerCase();
+      const category = wanted
+        ? categories.find((c) => c.id?.toLowerCase() === wanted || c.name?.toLowerCase() === wanted)
+        : undefined;
+      if (wanted && !category) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown grade category "${future.category}". Available: ${categories.map((c) => c.name).join(', ') || 'none'}`
+        );
+      }
+      if (weighted && !category) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `"${future.title}" needs a category because this course uses weighted grade categories`
+        );
+      }
+      const item = {
+        assignmentId: null,
+        title: future.title,
+        categoryId: category?.id ?? null,
+        possible: future.maxPoints,
+      };
+      if (future.score != null) {
+        hypothetical.push({ ...item, earned: future.score });
+      } else {
+        remaining.push({ ...item, dueDate: null, dueTime: null });
+      }
     }
 
+    const summary = summarizeGrade(course, graded);
+    const simulation = simulateGrade(course, graded, hypothetical, remaining, args.targetPercentage);
+
     return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          courseId: args.courseId,
-          totalEarned,
-          totalPossible,
-          overallPercentage: totalPossible > 0 ? Math.round((totalEarned / totalPossible) * 1000) / 10 : null,
-          gradedAssignments: breakdown.length,
-          breakdown,
-        }, null, 2),
-      }],
+      data: {
+        courseId: args.courseId,
+        courseName: course.name ?? null,
+        calculationType: summary.calculationType,
+        method: summary.method,
+        ...simulation,
+        ...(this.config.gradeScale
+          ? {
+            currentLetterGrade: letterGrade(simulation.currentPercentage, this.config.gradeScale),
+            projectedLetterGrade: letterGrade(simulation.projectedPercentage, this.config.gradeScale),
+          }
+          : {}),
+        hypothetical: hypothetical.map((item) => ({
+          assignmentId: item.assignmentId,
+          title: item.title,
+          score: item.earned,
+          possible: item.possible,
+          extraCredit: item.earned > item.possible,
+        })),
+        remaining: remaining.map((item) => ({
+          assignmentId: item.assignmentId,
+          title: item.title,
+          possible: item.possible,
+          ...deadlineOutput(item, timezone),
+        })),
+      },
     };
   }
 
+  private async exportCalendar(args: ExportCalendarArgs) {
+    const timezone = this.resolveTimezone(args.timezone);
+    for (const [name, value] of [['from', args.from], ['to', args.to]] as const) {
+      if (value != null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} date "${value}". Use YYYY-MM-DD.`);
+      }
+    }
+    const reminderMinutes = args.reminderMinutes || [];
+    if (reminderMinutes.some((m) => typeof m !== 'number' || !Number.isFinite(m) || m < 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'reminderMinutes must be non-negative numbers');
+    }
+
+    if (args.outputPath && this.httpMode) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'outputPath is not available over HTTP: it would write to the server\'s disk. Save the returned feed instead.'
+      );
+    }
+
+    const failures = new FailureLog();
+    const events = await this.deadlineEvents({ ...args, timezone }, failures);
+    const calendar = buildCalendar(events, { reminderMinutes });
+
+    if (!args.outputPath) {
+      return {
+        data: { calendar, events: events.length, timezone },
+        text: calendar,
+        report: failures.report(this.scheduler.stats()),
+      };
+    }
+
+    const outputPath = path.resolve(args.outputPath);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, calendar);
+    return { data: { path: outputPath, events: events.length, timezone, ...failures.report(this.scheduler.stats()) } };
+  }
+
+  // Dated assignments as calendar events, sorted by deadline. `from` and `to`
+  // compare against the local due date in `timezone`. Courses that fail are
+  // recorded in `failures` and left out of the feed.
+  private async deadlineEvents(options: {
+    courseIds?: string[];
+    from?: string;
+    to?: string;
+    excludeTurnedIn?: boolean;
+    timezone: string;
+  }, failures = new FailureLog()): Promise<DeadlineEvent[]> {
+    const { timezone } = options;
+    // Each named course is looked up on its own, so one that cannot be read
+    // is recorded as a failure instead of failing the whole export.
+    const courses = options.courseIds?.length
+      ? (await Promise.all(options.courseIds.map(async (id): Promise<Course | null> => {
+        try {
+          return await this.backend!.getCourse(id);
+        } catch (error) {
+          failures.course({ id }, error);
+          return null;
+        }
+      }))).filter((course): course is Course => course !== null)
+      : await this.coveredCourses();
+
+    const perCourse = await Promise.all(
+      courses.map(async (course): Promise<DeadlineEvent[]> => {
+        try {
+          const [courseWork, submissions] = await Promise.all([
+            this.fetchCourseWork({ courseId: course.id!, courseWorkStates: ['PUBLISHED'] }),
+            options.excludeTurnedIn
+              ? this.fetchSubmissions({ courseId: course.id!, courseWorkId: '-', userId: 'me' })
+              : null,
+          ]);
+          const turnedIn = new Set(
+            (submissions?.items || [])
+              .filter((sub) => sub.state === 'TURNED_IN' || sub.state === 'RETURNED')
+              .map((sub) => sub.courseWorkId!)
+          );
+
+          return courseWork.items.flatMap((cw) => {
+            const due = dueInstant(cw, timezone);
+            const fields = deadlineFields(cw, timezone);
+            if (due == null || !fields || turnedIn.has(cw.id!)) return [];
+            if (options.from && fields.dueDate < options.from) return [];
+            if (options.to && fields.dueDate > options.to) return [];
+            return [{
+              courseId: course.id!,
+              courseName: course.name ?? null,
+              assignmentId: cw.id!,
+              title: cw.title ?? null,
+              description: cw.description ?? null,
+              due,
+              dueDate: fields.dueDate,
+              hasDueTime: fields.hasDueTime,
+              alternateLink: cw.alternateLink ?? null,
+              updateTime: cw.updateTime ?? null,
+            }];
+          });
+        } catch (error) {
+          failures.course(course, error);
+          return [];
+        }
+      })
+    );
+
+    return perCourse.flat().sort((a, b) => a.due - b.due);
+  }
+
   private async getAssignmentMaterials(args: { courseId: string; courseWorkId: string }) {
-    const response = await this.classroom.courses.courseWork.get({
-      courseId: args.courseId,
-      id: args.courseWorkId,
-    });
+    return { data: await this.assignmentMaterials(args.courseId, args.courseWorkId) };
+  }
 
-    const cw = response.data;
-    const materials = (cw.materials || []).map((m: any) => {
-      if (m.driveFile) {
-        return {
-          type: 'driveFile',
-          title: m.driveFile.driveFile?.title ?? null,
-          url: m.driveFile.driveFile?.alternateLink ?? null,
-          shareMode: m.driveFile.shareMode ?? null,
-        };
-      } else if (m.youTubeVideo) {
-        return {
-          type: 'youTubeVideo',
-          title: m.youTubeVideo.title ?? null,
-          url: m.youTubeVideo.alternateLink ?? null,
-          thumbnailUrl: m.youTubeVideo.thumbnailUrl ?? null,
-        };
-      } else if (m.link) {
-        return {
-          type: 'link',
-          title: m.link.title ?? null,
-          url: m.link.url ?? null,
-        };
-      } else if (m.form) {
-        return {
-          type: 'form',
-          title: m.form.title ?? null,
-          url: m.form.formUrl ?? null,
-          responseUrl: m.form.responseUrl ?? null,
-        };
+  private async assignmentMaterials(courseId: string, courseWorkId: string) {
+    const cw = await this.backend!.getCourseWork(courseId, courseWorkId);
+    return {
+      assignmentId: cw.id,
+      title: cw.title,
+      description: cw.description ?? null,
+      materials: normalizeMaterials(cw.materials),
+      alternateLink: cw.alternateLink ?? null,
+    };
+  }
+
+  private async listStudents(args: { courseId: string } & PaginationOptions) {
+    const result = await this.fetchStudents({ courseId: args.courseId }, paginationOptions(args));
+
+    return {
+      data: {
+        students: result.items,
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
+    };
+  }
+
+  private async listTeachers(args: { courseId: string } & PaginationOptions) {
+    const result = await this.fetchTeachers({ courseId: args.courseId }, paginationOptions(args));
+
+    return {
+      data: {
+        teachers: result.items,
+        ...(result.nextPageToken ? { nextPageToken: result.nextPageToken } : {}),
+      },
+    };
+  }
+
+  private async getSubmissionReport(args: { courseId: string; courseWorkId: string; timezone?: string }) {
+    const timezone = this.resolveTimezone(args.timezone);
+    const [courseWork, submissions, students] = await Promise.all([
+      this.backend!.getCourseWork(args.courseId, args.courseWorkId),
+      // No userId: every student's submission.
+      this.fetchSubmissions({ courseId: args.courseId, courseWorkId: args.courseWorkId }),
+      this.fetchStudents({ courseId: args.courseId }),
+    ]);
+
+    return { data: buildSubmissionReport(courseWork, submissions.items, students.items, timezone) };
+  }
+
+  // Plans the change against the submission as Classroom has it now, then
+  // previews it (dryRun), refuses it (no confirm), or makes it and reports
+  // the submission as it is afterwards.
+  private async writeSubmission(tool: string, action: WriteAction, args: WriteArgs) {
+    const { courseId, courseWorkId } = args;
+    const [courseWork, submissions] = await withFreshData(() => Promise.all([
+      this.backend!.getCourseWork(courseId, courseWorkId),
+      this.fetchSubmissions({ courseId, courseWorkId, userId: 'me' }),
+    ]));
+    const submission = submissions.items[0];
+    if (!submission?.id) {
+      throw new McpError(ErrorCode.InvalidParams, `You have no submission for "${courseWork.title ?? courseWorkId}" in course ${courseId}`);
+    }
+    const plan = planWrite(action, courseWork, submission, args.url);
+    const summary = {
+      action,
+      courseId,
+      courseWorkId,
+      title: courseWork.title ?? null,
+      submissionId: submission.id,
+      alternateLink: submission.alternateLink ?? null,
+    };
+
+    if (args.dryRun) {
+      return { data: { ...summary, dryRun: true, applied: false, ...plan } };
+    }
+    if (args.confirm !== true) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${tool} changes your submission, so it needs confirm: true (would ${plan.changes.join('; ')}). ` +
+        'Preview it with dryRun: true first.'
+      );
+    }
+
+    try {
+      if (action === 'turn_in') await this.backend!.turnInSubmission(courseId, courseWorkId, submission.id);
+      else if (action === 'reclaim') await this.backend!.reclaimSubmission(courseId, courseWorkId, submission.id);
+      else await this.backend!.addSubmissionLink(courseId, courseWorkId, submission.id, args.url!);
+    } catch (error) {
+      if (isProjectPermissionError(error)) {
+        throw new McpError(ErrorCode.InvalidRequest, PROJECT_PERMISSION_MESSAGE, { kind: 'permission_denied', status: 403 });
       }
-      return { type: 'unknown', raw: m };
-    });
+      throw error;
+    }
 
+    const updated = await withFreshData(() => this.fetchSubmissions({ courseId, courseWorkId, userId: 'me' }));
+    const after = describeSubmission(updated.items.find((s) => s.id === submission.id) ?? submission);
     return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          assignmentId: cw.id,
-          title: cw.title,
-          description: cw.description ?? null,
-          materials,
-          alternateLink: cw.alternateLink ?? null,
-        }, null, 2),
-      }],
+      data: { ...summary, dryRun: false, applied: true, before: plan.before, after, changes: plan.changes, warnings: plan.warnings },
     };
   }
 
   async run() {
+    if (this.httpMode) {
+      const http = await startHttpServer(() => this.createServer(), httpOptionsFromEnv());
+      console.error(`Google Classroom MCP server listening on ${http.url} (HTTP+SSE clients: /sse)`);
+      const shutdown = (signal: string) => {
+        console.error(`${signal} received, closing sessions`);
+        http.close().then(() => process.exit(0), () => process.exit(1));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('Google Classroom MCP server running on stdio');
   }
 }
 
 const server = new GoogleClassroomMCPServer();
-server.run().catch(console.error);
\ No newline at end of file
+server.run().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
\ No newline at end of file
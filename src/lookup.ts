@@ -0,0 +1,276 @@
+// Course and assignment lookup by name.
+//
+// Every tool that needs a courseId also takes `course`, and every tool that
+// needs a courseWorkId also takes `assignment`, so the model can pass "bio"
+// or "lab 4" instead of copying IDs out of list_courses. Names are matched
+// case-insensitively against a course's name, section, aliases and the
+// nicknames in CLASSROOM_COURSE_NICKNAMES, and against assignment titles,
+// tolerating prefixes and small typos. A name that fits several courses
+// equally well fails with the candidates rather than guessing.
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ClassroomBackend, Course, CourseWork, ListCoursesParams } from './backend.js';
+import { paginate } from './pagination.js';
+
+// JSON schema fragments added next to required courseId / courseWorkId.
+export const COURSE_PROPERTY = {
+  course: {
+    type: 'string',
+    description: 'Course name, section, alias or nickname to use instead of courseId, e.g. "biology" (case-insensitive, fuzzy)',
+  },
+};
+
+export const ASSIGNMENT_PROPERTY = {
+  assignment: {
+    type: 'string',
+    description: 'Assignment title to use instead of courseWorkId, e.g. "lab 4" (case-insensitive, fuzzy)',
+  },
+};
+
+// Pairs of ID argument and name argument.
+const LOOKUPS: [id: string, name: string, property: Record<string, object>][] = [
+  ['courseId', 'course', COURSE_PROPERTY],
+  ['courseWorkId', 'assignment', ASSIGNMENT_PROPERTY],
+];
+
+interface ObjectSchema {
+  type: string;
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+// Adds `course` / `assignment` to a schema that requires courseId /
+// courseWorkId, which then become optional. Callers check that one of each
+// pair was given with requireLookupArguments.
+export function withLookupArguments<T extends ObjectSchema>(schema: T): T {
+  let result = schema;
+  for (const [id, , property] of LOOKUPS) {
+    if (!result.required?.includes(id)) continue;
+    const required = result.required.filter((name) => name !== id);
+    result = {
+      ...result,
+      properties: { ...result.properties, ...property },
+      required,
+    };
+  }
+  if (result.required?.length === 0) {
+    const { required: _, ...rest } = result;
+    return rest as T;
+  }
+  return result;
+}
+
+export function requireLookupArguments(tool: string, schema: ObjectSchema, args: Record<string, unknown> | undefined) {
+  for (const [id, name] of LOOKUPS) {
+    if (schema.properties[name] && args?.[id] == null && args?.[name] == null) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${tool}: ${id} or ${name} is required`);
+    }
+  }
+}
+
+// CLASSROOM_COURSE_NICKNAMES: comma-separated nickname=courseId pairs.
+export function nicknamesFromEnv(value = process.env.CLASSROOM_COURSE_NICKNAMES ?? ''): Map<string, string> {
+  const nicknames = new Map<string, string>();
+  for (const entry of value.split(',')) {
+    const index = entry.indexOf('=');
+    if (index <= 0) continue;
+    const nickname = entry.slice(0, index).trim();
+    const courseId = entry.slice(index + 1).trim();
+    if (nickname && courseId) nicknames.set(nickname, courseId);
+  }
+  return nicknames;
+}
+
+// Lowercase ASCII words: "Biología — Period 2" becomes "biologia period 2".
+export function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for equal strings, falling towards 0 as edits pile up.
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+// How well `query` names `label`: 1 for an exact match, 0.9 when every query
+// word starts a label word ("bio per 2" for "Biology Period 2"), 0.8 for a
+// substring, and up to 0.7 for near misses such as typos.
+export function matchScore(query: string, label: string): number {
+  const q = normalize(query);
+  const l = normalize(label);
+  if (!q || !l) return 0;
+  if (q === l) return 1;
+  const labelWords = l.split(' ');
+  const queryWords = q.split(' ');
+  if (queryWords.every((word) => labelWords.some((candidate) => candidate.startsWith(word)))) return 0.9;
+  if (l.includes(q)) return 0.8;
+  const perWord = queryWords.reduce(
+    (sum, word) => sum + Math.max(...labelWords.map((candidate) => similarity(word, candidate))),
+    0
+  ) / queryWords.length;
+  return 0.7 * Math.max(similarity(q, l), perWord);
+}
+
+// Below this a label does not count as a match.
+const THRESHOLD = 0.5;
+// Scores closer than this are a tie.
+const TIE = 0.05;
+
+export interface Candidate<T> {
+  item: T;
+  labels: string[];
+  // Breaks ties, e.g. active courses over archived ones.
+  preferred?: boolean;
+}
+
+export interface Match<T> {
+  item: T;
+  score: number;
+}
+
+function scored<T>(query: string, candidates: Candidate<T>[]) {
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      score: Math.max(0, ...candidate.labels.filter(Boolean).map((label) => matchScore(query, label))),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// The single best match for `query`, null when nothing comes close, or
+// InvalidParams listing the candidates when several fit equally well.
+export function bestMatch<T>(
+  query: string,
+  candidates: Candidate<T>[],
+  describe: (item: T) => string,
+  kind: { noun: string; idArgument: string }
+): Match<T> | null {
+  const ranked = scored(query, candidates);
+  if (ranked.length === 0 || ranked[0].score < THRESHOLD) return null;
+
+  const top = ranked[0].score;
+  let tied = ranked.filter((entry) => top - entry.score < TIE);
+  if (tied.length > 1 && tied.some((entry) => entry.candidate.preferred)) {
+    tied = tied.filter((entry) => entry.candidate.preferred);
+  }
+  if (tied.length > 1) {
+    const options = tied.slice(0, 5).map((entry) => describe(entry.candidate.item)).join('; ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${kind.noun} "${query}" is ambiguous. Did you mean: ${options}? Pass ${kind.idArgument} or a more specific name.`
+    );
+  }
+  return { item: tied[0].candidate.item, score: top };
+}
+
+// The not-found error, naming the closest candidates when there are any.
+export function noMatchError<T>(query: string, candidates: Candidate<T>[], describe: (item: T) => string, kind: { noun: string; listTool: string }) {
+  const close = scored(query, candidates).filter((entry) => entry.score >= 0.3).slice(0, 3);
+  const hint = close.length > 0 ? ` Closest: ${close.map((entry) => describe(entry.candidate.item)).join('; ')}.` : '';
+  return new McpError(ErrorCode.InvalidParams, `No ${kind.noun.toLowerCase()} matches "${query}".${hint} ${kind.listTool} shows them all.`);
+}
+
+export interface Resolved {
+  id: string;
+  // How the match reads in the result, e.g. "Biology, Period 2 (courseId bio)".
+  description: string;
+}
+
+const COURSE = { noun: 'Course', idArgument: 'courseId', listTool: 'list_courses' };
+const ASSIGNMENT = { noun: 'Assignment', idArgument: 'courseWorkId', listTool: 'list_coursework' };
+
+function describeCourse(course: Course): string {
+  const name = [course.name, course.section].filter(Boolean).join(', ') || course.id;
+  const archived = course.courseState && course.courseState !== 'ACTIVE' ? `, ${course.courseState}` : '';
+  return `${name} (courseId ${course.id}${archived})`;
+}
+
+function describeCourseWork(work: CourseWork): string {
+  const due = work.dueDate?.year
+    ? `, due ${work.dueDate.year}-${String(work.dueDate.month).padStart(2, '0')}-${String(work.dueDate.day).padStart(2, '0')}`
+    : '';
+  return `${work.title ?? work.id} (courseWorkId ${work.id}${due})`;
+}
+
+// Aliases look like "d:bio-101" (domain) or "p:bio-101" (project).
+const ALIAS_PREFIX = /^[dp]:/;
+
+async function aliasesOf(backend: ClassroomBackend, courseId: string): Promise<string[]> {
+  try {
+    const { items } = await paginate((page) => backend.listCourseAliases({ courseId, ...page }));
+    return items.flatMap(({ alias }) => (alias ? [alias, alias.replace(ALIAS_PREFIX, '')] : []));
+  } catch {
+    // Aliases only widen the search; a course that hides them still matches by name.
+    return [];
+  }
+}
+
+// The course `query` names among the signed-in user's courses (or a guarded
+// student's, via `courseParams`). Active courses win ties with archived ones.
+// Aliases cost a request per course, so they are only fetched when the query
+// looks like one or nothing else matched.
+export async function resolveCourse(
+  backend: ClassroomBackend,
+  query: string,
+  nicknames: Map<string, string>,
+  courseParams: Pick<ListCoursesParams, 'studentId'> = {}
+): Promise<Resolved> {
+  const { items: courses } = await paginate((page) => backend.listCourses({ ...courseParams, ...page }));
+  const resolved = (course: Course): Resolved => ({ id: course.id!, description: describeCourse(course) });
+
+  for (const [nickname, courseId] of nicknames) {
+    if (normalize(nickname) !== normalize(query)) continue;
+    const course = courses.find((c) => c.id === courseId);
+    return course ? resolved(course) : { id: courseId, description: `nickname for courseId ${courseId}` };
+  }
+
+  const candidates = courses.map((course) => ({
+    item: course,
+    labels: [
+      course.name ?? '',
+      course.section ?? '',
+      `${course.name ?? ''} ${course.section ?? ''}`,
+      course.descriptionHeading ?? '',
+      ...[...nicknames].filter(([, courseId]) => courseId === course.id).map(([nickname]) => nickname),
+    ],
+    preferred: course.courseState === 'ACTIVE',
+  }));
+  if (!ALIAS_PREFIX.test(query.trim())) {
+    const match = bestMatch(query, candidates, describeCourse, COURSE);
+    if (match) return resolved(match.item);
+  }
+
+  const withAliases = await Promise.all(candidates.map(async (candidate) => ({
+    ...candidate,
+    labels: [...candidate.labels, ...await aliasesOf(backend, candidate.item.id!)],
+  })));
+  const match = bestMatch(query, withAliases, describeCourse, COURSE);
+  if (match) return resolved(match.item);
+  throw noMatchError(query, withAliases, describeCourse, COURSE);
+}
+
+// The published assignment in `courseId` whose title `query` names.
+export async function resolveAssignment(backend: ClassroomBackend, courseId: string, query: string): Promise<Resolved> {
+  const { items } = await paginate((page) => backend.listCourseWork({ courseId, ...page }));
+  const candidates = items.map((work) => ({ item: work, labels: [work.title ?? ''] }));
+  const match = bestMatch(query, candidates, describeCourseWork, ASSIGNMENT);
+  if (!match) throw noMatchError(query, candidates, describeCourseWork, ASSIGNMENT);
+  return { id: match.item.id!, description: describeCourseWork(match.item) };
+}
@@ -0,0 +1,59 @@
+import type { classroom_v1 } from 'googleapis';
+
+export type Material = classroom_v1.Schema$Material;
+
+// Flattens Classroom's one-of material shapes (driveFile, youTubeVideo, link,
+// form) into { type, title, url } records.
+export function normalizeMaterials(materials: Material[] | undefined) {
+  return (materials || []).map((m: any) => {
+    if (m.driveFile) {
+      return {
+        type: 'driveFile',
+        title: m.driveFile.driveFile?.title ?? null,
+        url: m.driveFile.driveFile?.alternateLink ?? null,
+        shareMode: m.driveFile.shareMode ?? null,
+      };
+    } else if (m.youTubeVideo) {
+      return {
+        type: 'youTubeVideo',
+        title: m.youTubeVideo.title ?? null,
+        url: m.youTubeVideo.alternateLink ?? null,
+        thumbnailUrl: m.youTubeVideo.thumbnailUrl ?? null,
+      };
+    } else if (m.link) {
+      return {
+        type: 'link',
+        title: m.link.title ?? null,
+        url: m.link.url ?? null,
+      };
+    } else if (m.form) {
+      return {
+        type: 'form',
+        title: m.form.title ?? null,
+        url: m.form.formUrl ?? null,
+        responseUrl: m.form.responseUrl ?? null,
+      };
+    }
+    return { type: 'unknown', raw: m };
+  });
+}
+
+// Course-level material posts (CourseWorkMaterial) with their attachments
+// normalized the same way as an assignment's.
+export function normalizeCourseWorkMaterial(
+  material: classroom_v1.Schema$CourseWorkMaterial,
+  topicNames: Map<string, string | null> = new Map()
+) {
+  return {
+    id: material.id ?? null,
+    title: material.title ?? null,
+    description: material.description ?? null,
+    topicId: material.topicId ?? null,
+    topicName: material.topicId ? topicNames.get(material.topicId) ?? null : null,
+    state: material.state ?? null,
+    materials: normalizeMaterials(material.materials),
+    creationTime: material.creationTime ?? null,
+    updateTime: material.updateTime ?? null,
+    alternateLink: material.alternateLink ?? null,
+  };
+}
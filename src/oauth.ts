@@ -0,0 +1,274 @@
+// OAuth for installed-app clients: a loopback redirect with PKCE.
+//
+// setup-auth starts a temporary HTTP listener on 127.0.0.1 with a random
+// port, sends the browser to Google with a PKCE code challenge and a random
+// `state`, and captures the authorization code when Google redirects back.
+// Because PKCE proves the token request comes from whoever started the flow,
+// the client secret is optional and the published package can ship as a
+// public client. Headless machines use manual mode: the user opens the URL
+// elsewhere and pastes back the address the browser was redirected to.
+
+import { ClientAuthentication, CodeChallengeMethod, Credentials, OAuth2Client } from 'google-auth-library';
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export const SCOPE = {
+  courses: 'https://www.googleapis.com/auth/classroom.courses.readonly',
+  courseWork: 'https://www.googleapis.com/auth/classroom.course-work.readonly',
+  submissions: 'https://www.googleapis.com/auth/classroom.student-submissions.me.readonly',
+  announcements: 'https://www.googleapis.com/auth/classroom.announcements.readonly',
+  materials: 'https://www.googleapis.com/auth/classroom.courseworkmaterials.readonly',
+  topics: 'https://www.googleapis.com/auth/classroom.topics.readonly',
+};
+
+// Everything the tools need.
+export const SCOPES = Object.values(SCOPE);
+
+// Only requested by `setup-auth --write`, for the opt-in write tools that
+// turn in, reclaim and attach links to the student's own submissions.
+export const WRITE_SCOPE = {
+  submissions: 'https://www.googleapis.com/auth/classroom.coursework.me',
+};
+
+export const WRITE_SCOPES = Object.values(WRITE_SCOPE);
+
+// Only requested by `setup-auth --teacher`, for the teacher tools that read
+// class rosters (with email addresses) and every student's submissions.
+export const TEACHER_SCOPE = {
+  rosters: 'https://www.googleapis.com/auth/classroom.rosters.readonly',
+  profiles: 'https://www.googleapis.com/auth/classroom.profile.emails',
+  submissions: 'https://www.googleapis.com/auth/classroom.coursework.students.readonly',
+};
+
+export const TEACHER_SCOPES = Object.values(TEACHER_SCOPE);
+
+// Only requested by `setup-auth --guardian`, for reading the work of the
+// students a parent is linked to as a Classroom guardian.
+export const GUARDIAN_SCOPE = {
+  guardianLinks: 'https://www.googleapis.com/auth/classroom.guardianlinks.students.readonly',
+  profiles: 'https://www.googleapis.com/auth/classroom.profile.emails',
+  submissions: 'https://www.googleapis.com/auth/classroom.coursework.students.readonly',
+};
+
+export const GUARDIAN_SCOPES = Object.values(GUARDIAN_SCOPE);
+
+// Lets auth_status show which Google account is signed in. Not required:
+// tokens issued before it was requested keep working.
+export const IDENTITY_SCOPE = 'https://www.googleapis.com/auth/userinfo.email';
+
+// Public client ID for the published package — injected at publish time by
+// inject-credentials.js. No client secret is ever embedded.
+const DEFAULT_CLIENT_ID = '__GOOGLE_CLIENT_ID__';
+
+// Redirect used in manual mode. Nothing listens there; the user copies the
+// address from the browser's location bar instead.
+export const MANUAL_REDIRECT_URI = 'http://127.0.0.1';
+
+const AUTH_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface OAuthClientConfig {
+  clientId: string;
+  // Optional: only confidential clients from a downloaded credentials.json have one.
+  clientSecret?: string;
+}
+
+export function builtInClientId(): string | null {
+  return DEFAULT_CLIENT_ID.startsWith('__') ? null : DEFAULT_CLIENT_ID;
+}
+
+export function createOAuthClient(config: OAuthClientConfig, redirectUri?: string): OAuth2Client {
+  return new OAuth2Client({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    redirectUri,
+    clientAuthentication: config.clientSecret ? ClientAuthentication.ClientSecretPost : ClientAuthentication.None,
+  });
+}
+
+export class AuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export interface LoopbackReceiver {
+  redirectUri: string;
+  // Resolves with the authorization code, or rejects on a denied consent,
+  // a state mismatch or a timeout. The listener is closed either way.
+  code: Promise<string>;
+  close(): void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// The message can echo query parameters, so it is always escaped.
+const page = (title: string, message: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+  `<body style="font-family: sans-serif; margin: 3em"><h1>${title}</h1><p>${escapeHtml(message)}</p></body></html>`;
+
+export async function startLoopbackReceiver(expectedState: string, timeoutMs = AUTH_TIMEOUT_MS): Promise<LoopbackReceiver> {
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const redirectUri = `http://127.0.0.1:${port}`;
+
+  let timer: NodeJS.Timeout | undefined;
+  const close = () => {
+    clearTimeout(timer);
+    server.close();
+    server.closeAllConnections();
+  };
+
+  const code = new Promise<string>((resolve, reject) => {
+    timer = setTimeout(() => {
+      close();
+      reject(new AuthorizationError('Timed out waiting for the browser to finish signing in.'));
+    }, timeoutMs);
+
+    server.on('request', (req, res) => {
+      const url = new URL(req.url ?? '/', redirectUri);
+      if (url.pathname !== '/') {
+        res.writeHead(404).end();
+        return;
+      }
+      const respond = (status: number, title: string, message: string) => {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+        res.end(page(title, message));
+      };
+
+      try {
+        const received = readAuthorizationResponse(url.searchParams, expectedState);
+        respond(200, 'Signed in', 'Google Classroom MCP is authorized. You can close this tab.');
+        close();
+        resolve(received);
+      } catch (error) {
+        respond(400, 'Sign-in failed', error instanceof Error ? error.message : 'Unknown error');
+        close();
+        reject(error);
+      }
+    });
+  });
+
+  return { redirectUri, code, close };
+}
+
+function readAuthorizationResponse(params: URLSearchParams, expectedState: string): string {
+  const error = params.get('error');
+  if (error) {
+    throw new AuthorizationError(`Authorization was not granted: ${error}`);
+  }
+  if (params.get('state') !== expectedState) {
+    throw new AuthorizationError('The sign-in response did not match this request (state mismatch). Please start again.');
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new AuthorizationError('The sign-in response did not include an authorization code.');
+  }
+  return code;
+}
+
+// Manual mode input: the full redirected URL, its query string, or a bare code.
+// A bare code cannot be checked against `state`, so the URL is preferred.
+export function parseRedirectInput(input: string, expectedState: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new AuthorizationError('No authorization response was entered.');
+  }
+  if (!/[?&]?(code|error)=/.test(trimmed)) {
+    return trimmed;
+  }
+  const query = trimmed.includes('?') ? trimmed.slice(trimmed.indexOf('?') + 1) : trimmed;
+  return readAuthorizationResponse(new URLSearchParams(query.split('#')[0]), expectedState);
+}
+
+// Best effort; the URL is always printed as well.
+export function openBrowser(url: string) {
+  const [command, args] =
+    process.platform === 'darwin' ? ['open', [url]] :
+    process.platform === 'win32' ? ['cmd', ['/c', 'start', '""', url.replace(/&/g, '^&')]] :
+    ['xdg-open', [url]];
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', () => {});
+    child.unref();
+  } catch {
+    // No browser available; the user follows the printed URL.
+  }
+}
+
+export interface AuthorizeOptions {
+  // Skip the loopback listener and ask for the redirected URL instead.
+  manual?: boolean;
+  // Shows the authorization URL to the user.
+  showUrl(url: string): void;
+  // Reads the pasted redirect URL in manual mode.
+  prompt(question: string): Promise<string>;
+  openUrl?: (url: string) => void;
+  timeoutMs?: number;
+  // Also request WRITE_SCOPES.
+  write?: boolean;
+  // Also request TEACHER_SCOPES.
+  teacher?: boolean;
+  // Also request GUARDIAN_SCOPES.
+  guardian?: boolean;
+}
+
+export async function authorize(config: OAuthClientConfig, options: AuthorizeOptions): Promise<Credentials> {
+  const state = crypto.randomBytes(16).toString('hex');
+  let receiver: LoopbackReceiver | null = null;
+  if (!options.manual) {
+    try {
+      receiver = await startLoopbackReceiver(state, options.timeoutMs);
+    } catch (error) {
+      console.error('Could not start a local listener; falling back to manual mode:', error);
+    }
+  }
+
+  const redirectUri = receiver?.redirectUri ?? MANUAL_REDIRECT_URI;
+  const client = createOAuthClient(config, redirectUri);
+  let code: string;
+  let codeVerifier: string;
+  try {
+    const challenge = await client.generateCodeVerifierAsync();
+    codeVerifier = challenge.codeVerifier;
+    const authUrl = client.generateAuthUrl({
+      access_type: 'offline',
+      scope: [
+        ...SCOPES,
+        ...(options.write ? WRITE_SCOPES : []),
+        ...(options.teacher ? TEACHER_SCOPES : []),
+        ...(options.guardian ? GUARDIAN_SCOPES : []),
+        IDENTITY_SCOPE,
+      ].filter((scope, index, all) => all.indexOf(scope) === index),
+      // Force the consent screen so Google issues a refresh token.
+      prompt: 'consent',
+      state,
+      code_challenge: challenge.codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    options.showUrl(authUrl);
+    if (receiver) {
+      options.openUrl?.(authUrl);
+      code = await receiver.code;
+    } else {
+      const answer = await options.prompt('Paste the full URL your browser was redirected to: ');
+      code = parseRedirectInput(answer, state);
+    }
+  } finally {
+    receiver?.close();
+  }
+
+  const { tokens } = await client.getToken({ code, codeVerifier, redirect_uri: redirectUri });
+  return tokens;
+}
@@ -0,0 +1,91 @@
+// Shared pagination layer for Classroom list endpoints.
+//
+// Every Classroom list call returns at most one page plus a nextPageToken.
+// Handlers go through paginate() so they see the whole collection by default
+// instead of silently working from the first page.
+
+export interface PageRequest {
+  pageToken?: string;
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextPageToken?: string | null;
+}
+
+export interface PaginationOptions {
+  // When set, exactly one page of this size is fetched (manual paging).
+  pageSize?: number;
+  // Token from a previous response to resume from.
+  pageToken?: string;
+  // Stop once this many items have been collected.
+  maxItems?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  nextPageToken: string | null;
+}
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<Page<T>>;
+
+// `keep` filters items the API cannot filter itself. Only kept items count
+// toward maxItems, so draining goes on until that many match.
+export async function paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {},
+  keep: (item: T) => boolean = () => true
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let pageToken = options.pageToken || undefined;
+
+  if (options.maxItems != null && options.maxItems <= 0) {
+    return { items, nextPageToken: pageToken ?? null };
+  }
+
+  if (options.pageSize != null) {
+    // A smaller page rather than a cut one, so its token resumes right after it.
+    const pageSize = options.maxItems != null ? Math.min(options.pageSize, options.maxItems) : options.pageSize;
+    const page = await fetchPage({ pageToken, pageSize });
+    return { items: (page.items || []).filter(keep), nextPageToken: page.nextPageToken || null };
+  }
+
+  do {
+    // Ask for no more than we still need so a resumable token never skips items.
+    const remaining = options.maxItems != null ? options.maxItems - items.length : undefined;
+    const page = await fetchPage({ pageToken, pageSize: remaining });
+    items.push(...(page.items || []).filter(keep));
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken && (options.maxItems == null || items.length < options.maxItems));
+
+  return {
+    items: options.maxItems != null ? items.slice(0, options.maxItems) : items,
+    nextPageToken: pageToken ?? null,
+  };
+}
+
+// JSON schema fragment shared by every raw list_* tool.
+export const PAGINATION_PROPERTIES = {
+  pageSize: {
+    type: 'number',
+    description: 'Fetch a single page of this size and return its nextPageToken. Omit to fetch all pages.',
+  },
+  pageToken: {
+    type: 'string',
+    description: 'nextPageToken from a previous call, to continue where it left off',
+  },
+  maxItems: {
+    type: 'number',
+    description: 'Maximum number of items to return across all pages',
+  },
+};
+
+// Picks the paging arguments out of a tool's arguments.
+export function paginationOptions(args: PaginationOptions = {}): PaginationOptions {
+  return {
+    pageSize: args.pageSize,
+    pageToken: args.pageToken,
+    maxItems: args.maxItems,
+  };
+}
@@ -0,0 +1,26 @@
+import * as os from 'os';
+import * as path from 'path';
+
+const APP_DIR = 'google-classroom-mcp';
+
+// Where the server keeps data it derives at runtime (change snapshots and the
+// like). CLASSROOM_STATE_DIR wins, then XDG_STATE_HOME, then the platform default.
+export function stateDir(): string {
+  if (process.env.CLASSROOM_STATE_DIR) return process.env.CLASSROOM_STATE_DIR;
+  if (process.env.XDG_STATE_HOME) return path.join(process.env.XDG_STATE_HOME, APP_DIR);
+  if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+    return path.join(process.env.LOCALAPPDATA, APP_DIR, 'state');
+  }
+  return path.join(os.homedir(), '.local', 'state', APP_DIR);
+}
+
+// Where the server keeps configuration and credentials. CLASSROOM_CONFIG_DIR
+// wins, then XDG_CONFIG_HOME, then the platform default.
+export function configDir(): string {
+  if (process.env.CLASSROOM_CONFIG_DIR) return process.env.CLASSROOM_CONFIG_DIR;
+  if (process.env.XDG_CONFIG_HOME) return path.join(process.env.XDG_CONFIG_HOME, APP_DIR);
+  if (process.platform === 'win32' && process.env.APPDATA) {
+    return path.join(process.env.APPDATA, APP_DIR);
+  }
+  return path.join(os.homedir(), '.config', APP_DIR);
+}
@@ -0,0 +1,272 @@
+// Background change detection for resources/subscribe.
+//
+// While at least one resource is subscribed, the poller periodically takes a
+// fingerprint snapshot of the course list and of every course that has a
+// subscribed resource, diffs it against the previous snapshot, and reports
+// which subscribed URIs are affected. classroom://calendar watches every
+// course its feed covers. Failed polls back off exponentially up to
+// maxIntervalMs and snap back to intervalMs after the next success.
+
+import { ClassroomBackend, Course } from './backend.js';
+import { paginate } from './pagination.js';
+import { CALENDAR_URI, COURSES_URI, matchResourceUri, ResourceKind } from './resources.js';
+
+export interface PollerOptions {
+  intervalMs: number;
+  maxIntervalMs: number;
+}
+
+export interface PollerListener {
+  resourceUpdated(uri: string): void | Promise<void>;
+  resourceListChanged(): void | Promise<void>;
+}
+
+// What changed inside one course, keyed the same way resources are.
+interface CourseChanges {
+  course: boolean;
+  courseWork: Set<string>;
+  courseWorkSetChanged: boolean;
+  announcements: boolean;
+  submissions: Set<string>;
+}
+
+interface CourseSnapshot {
+  course: string;
+  courseWork: Map<string, string>;
+  announcements: Map<string, string>;
+  submissions: Map<string, string>;
+}
+
+export function pollerOptionsFromEnv(): PollerOptions {
+  const seconds = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const intervalMs = seconds('CLASSROOM_POLL_INTERVAL', 300) * 1000;
+  return {
+    intervalMs,
+    maxIntervalMs: Math.max(intervalMs, seconds('CLASSROOM_POLL_MAX_INTERVAL', 3600) * 1000),
+  };
+}
+
+// Only the fields a student would notice changing.
+function courseFingerprint(course: Course): string {
+  return JSON.stringify([course.name, course.section, course.courseState, course.descriptionHeading, course.room]);
+}
+
+export class ResourcePoller {
+  private subscriptions = new Set<string>();
+  private courseList: Map<string, string> | null = null;
+  private snapshots = new Map<string, CourseSnapshot>();
+  // The courses classroom://calendar covers, as of the last course list.
+  private calendarCourseIds = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private currentIntervalMs: number;
+  private polling = false;
+
+  constructor(
+    private getBackend: () => ClassroomBackend | null,
+    private listener: PollerListener,
+    private options: PollerOptions,
+    // Picks the courses the all-course calendar feed covers.
+    private calendarCourses: (courses: Course[]) => string[] = (courses) =>
+      courses.filter((course) => course.courseState === 'ACTIVE').map((course) => course.id!)
+  ) {
+    this.currentIntervalMs = options.intervalMs;
+  }
+
+  get subscribedUris(): string[] {
+    return [...this.subscriptions];
+  }
+
+  async subscribe(uri: string) {
+    this.subscriptions.add(uri);
+    // Baseline immediately so the first poll reports changes made after subscribing.
+    try {
+      if (!this.courseList) {
+        this.courseList = await this.fetchCourseList();
+      }
+      for (const courseId of this.watchedCourseIds()) {
+        if (!this.snapshots.has(courseId)) {
+          this.snapshots.set(courseId, await this.fetchCourseSnapshot(courseId));
+        }
+      }
+    } catch (error) {
+      console.error(`Could not take a baseline for ${uri}; the next poll will:`, error);
+    }
+    this.schedule();
+  }
+
+  unsubscribe(uri: string) {
+    this.subscriptions.delete(uri);
+    const watched = this.watchedCourseIds();
+    for (const courseId of this.snapshots.keys()) {
+      if (!watched.has(courseId)) this.snapshots.delete(courseId);
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.courseList = null;
+    this.snapshots.clear();
+    this.calendarCourseIds = new Set();
+    this.currentIntervalMs = this.options.intervalMs;
+  }
+
+  // One polling pass. Public so callers can force a check.
+  async poll() {
+    if (this.polling || !this.getBackend()) return;
+    this.polling = true;
+    try {
+      const updated = new Set<string>();
+      let listChanged = false;
+
+      const previousCalendar = this.calendarCourseIds;
+      const courseList = await this.fetchCourseList();
+      if (this.courseList) {
+        const previous = this.courseList;
+        if (previous.size !== courseList.size || [...courseList.keys()].some((id) => !previous.has(id))) {
+          listChanged = true;
+          updated.add(COURSES_URI);
+        } else if ([...courseList].some(([id, fp]) => previous.get(id) !== fp)) {
+          updated.add(COURSES_URI);
+        }
+        const calendar = this.calendarCourseIds;
+        if (calendar.size !== previousCalendar.size || [...calendar].some((id) => !previousCalendar.has(id))) {
+          updated.add(CALENDAR_URI);
+        }
+      }
+      this.courseList = courseList;
+
+      for (const courseId of this.watchedCourseIds()) {
+        const snapshot = await this.fetchCourseSnapshot(courseId);
+        const previous = this.snapshots.get(courseId);
+        this.snapshots.set(courseId, snapshot);
+        if (!previous) continue;
+
+        const changes = diffCourse(previous, snapshot);
+        if (changes.courseWorkSetChanged) listChanged = true;
+        for (const uri of this.subscriptions) {
+          if (affects(uri, courseId, changes, this.calendarCourseIds)) updated.add(uri);
+        }
+      }
+
+      for (const uri of updated) {
+        if (this.subscriptions.has(uri)) {
+          await this.listener.resourceUpdated(uri);
+        }
+      }
+      if (listChanged) {
+        await this.listener.resourceListChanged();
+      }
+      this.currentIntervalMs = this.options.intervalMs;
+    } catch (error) {
+      this.currentIntervalMs = Math.min(this.currentIntervalMs * 2, this.options.maxIntervalMs);
+      console.error(`Resource poll failed; retrying in ${Math.round(this.currentIntervalMs / 1000)}s:`, error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private schedule() {
+    if (this.timer || this.subscriptions.size === 0) return;
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      await this.poll();
+      this.schedule();
+    }, this.currentIntervalMs);
+    // Polling alone should never keep the process alive.
+    this.timer.unref();
+  }
+
+  private watchedCourseIds(): Set<string> {
+    const ids = new Set<string>(this.subscriptions.has(CALENDAR_URI) ? this.calendarCourseIds : []);
+    for (const uri of this.subscriptions) {
+      const courseId = matchResourceUri(uri)?.params.courseId;
+      if (courseId) ids.add(courseId);
+    }
+    return ids;
+  }
+
+  private async fetchCourseList(): Promise<Map<string, string>> {
+    const backend = this.getBackend()!;
+    const { items } = await paginate((page) => backend.listCourses(page));
+    this.calendarCourseIds = new Set(this.calendarCourses(items));
+    return new Map(items.map((course) => [course.id!, courseFingerprint(course)]));
+  }
+
+  private async fetchCourseSnapshot(courseId: string): Promise<CourseSnapshot> {
+    const backend = this.getBackend()!;
+    const [course, courseWork, announcements, submissions] = await Promise.all([
+      backend.getCourse(courseId),
+      paginate((page) => backend.listCourseWork({ courseId, courseWorkStates: ['PUBLISHED'], ...page })),
+      paginate((page) => backend.listAnnouncements({ courseId, ...page })),
+      paginate((page) => backend.listSubmissions({ courseId, courseWorkId: '-', userId: 'me', ...page })),
+    ]);
+    return {
+      course: courseFingerprint(course),
+      courseWork: new Map(courseWork.items.map((cw) => [
+        cw.id!,
+        JSON.stringify([cw.title, cw.description, cw.dueDate, cw.dueTime, cw.maxPoints, cw.materials, cw.updateTime]),
+      ])),
+      announcements: new Map(announcements.items.map((a) => [a.id!, JSON.stringify([a.text, a.updateTime])])),
+      submissions: new Map(submissions.items.map((sub) => [
+        sub.courseWorkId!,
+        JSON.stringify([sub.state, sub.assignedGrade, sub.late]),
+      ])),
+    };
+  }
+}
+
+function changedKeys(previous: Map<string, string>, current: Map<string, string>): Set<string> {
+  const keys = new Set<string>();
+  for (const [key, fp] of current) {
+    if (previous.get(key) !== fp) keys.add(key);
+  }
+  for (const key of previous.keys()) {
+    if (!current.has(key)) keys.add(key);
+  }
+  return keys;
+}
+
+function diffCourse(previous: CourseSnapshot, current: CourseSnapshot): CourseChanges {
+  const courseWork = changedKeys(previous.courseWork, current.courseWork);
+  return {
+    course: previous.course !== current.course,
+    courseWork,
+    courseWorkSetChanged: [...courseWork].some((id) => !previous.courseWork.has(id) || !current.courseWork.has(id)),
+    announcements: changedKeys(previous.announcements, current.announcements).size > 0,
+    submissions: changedKeys(previous.submissions, current.submissions),
+  };
+}
+
+// Whether a change inside `courseId` should notify subscribers of `uri`.
+// A course subscription hears about everything in that course.
+function affects(uri: string, courseId: string, changes: CourseChanges, calendarCourseIds: Set<string>): boolean {
+  const match = matchResourceUri(uri);
+  if (!match) return false;
+  if (match.kind !== 'calendar' && match.params.courseId !== courseId) return false;
+  const { courseWorkId } = match.params;
+  const anyChange =
+    changes.course || changes.courseWork.size > 0 || changes.announcements || changes.submissions.size > 0;
+
+  const byKind: Record<ResourceKind, () => boolean> = {
+    courses: () => false,
+    course: () => anyChange,
+    'coursework-list': () => changes.courseWork.size > 0,
+    coursework: () => changes.courseWork.has(courseWorkId) || changes.submissions.has(courseWorkId),
+    'coursework-materials': () => changes.courseWork.has(courseWorkId),
+    submission: () => changes.submissions.has(courseWorkId),
+    submissions: () => changes.submissions.size > 0,
+    announcements: () => changes.announcements,
+    calendar: () => calendarCourseIds.has(courseId) && changes.courseWork.size > 0,
+    'course-calendar': () => changes.courseWork.size > 0,
+  };
+  return byKind[match.kind]();
+}
@@ -0,0 +1,116 @@
+// MCP resource URIs for Classroom data.
+//
+// Everything lives under classroom://courses, apart from the combined deadline
+// calendar at classroom://calendar. Concrete URIs are listed by resources/list; the templates below describe the full space for
+// resources/templates/list, and matchResourceUri() routes resources/read.
+
+export const COURSES_URI = 'classroom://courses';
+export const CALENDAR_URI = 'classroom://calendar';
+
+export type ResourceKind =
+  | 'courses'
+  | 'course'
+  | 'coursework-list'
+  | 'coursework'
+  | 'coursework-materials'
+  | 'submission'
+  | 'submissions'
+  | 'announcements'
+  | 'calendar'
+  | 'course-calendar';
+
+export interface ResourceTemplate {
+  kind: ResourceKind;
+  uriTemplate: string;
+  name: string;
+  description: string;
+  // Defaults to application/json.
+  mimeType?: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    kind: 'course',
+    uriTemplate: 'classroom://courses/{courseId}',
+    name: 'Course',
+    description: 'Details for one course',
+  },
+  {
+    kind: 'coursework-list',
+    uriTemplate: 'classroom://courses/{courseId}/coursework',
+    name: 'Course assignments',
+    description: 'All published assignments in a course',
+  },
+  {
+    kind: 'coursework',
+    uriTemplate: 'classroom://courses/{courseId}/coursework/{courseWorkId}',
+    name: 'Assignment',
+    description: 'One assignment, including its deadline in your timezone',
+  },
+  {
+    kind: 'coursework-materials',
+    uriTemplate: 'classroom://courses/{courseId}/coursework/{courseWorkId}/materials',
+    name: 'Assignment materials',
+    description: 'Drive files, links, videos and forms attached to an assignment',
+  },
+  {
+    kind: 'submission',
+    uriTemplate: 'classroom://courses/{courseId}/coursework/{courseWorkId}/submission',
+    name: 'My submission',
+    description: 'Your submission for one assignment, with state and grade',
+  },
+  {
+    kind: 'submissions',
+    uriTemplate: 'classroom://courses/{courseId}/submissions',
+    name: 'My submissions',
+    description: 'Your submissions for every assignment in a course',
+  },
+  {
+    kind: 'announcements',
+    uriTemplate: 'classroom://courses/{courseId}/announcements',
+    name: 'Announcements',
+    description: 'Published announcements in a course',
+  },
+  {
+    kind: 'course-calendar',
+    uriTemplate: 'classroom://courses/{courseId}/calendar',
+    name: 'Course deadline calendar',
+    description: 'iCalendar feed of assignment deadlines in a course',
+    mimeType: 'text/calendar',
+  },
+];
+
+export function resourceMimeType(kind: ResourceKind): string {
+  if (kind === 'calendar') return 'text/calendar';
+  return RESOURCE_TEMPLATES.find((t) => t.kind === kind)?.mimeType ?? 'application/json';
+}
+
+export function resourceUri(kind: ResourceKind, params: Record<string, string>): string {
+  const template = RESOURCE_TEMPLATES.find((t) => t.kind === kind)!;
+  return template.uriTemplate.replace(/\{(\w+)\}/g, (_, name) => encodeURIComponent(params[name]));
+}
+
+export function matchResourceUri(uri: string): { kind: ResourceKind; params: Record<string, string> } | null {
+  if (uri === COURSES_URI) {
+    return { kind: 'courses', params: {} };
+  }
+  if (uri === CALENDAR_URI) {
+    return { kind: 'calendar', params: {} };
+  }
+  for (const template of RESOURCE_TEMPLATES) {
+    const names: string[] = [];
+    const pattern = template.uriTemplate.replace(/\{(\w+)\}/g, (_, name) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+    const match = new RegExp(`^${pattern}$`).exec(uri);
+    if (match) {
+      const params: Record<string, string> = {};
+      names.forEach((name, i) => {
+        params[name] = decodeURIComponent(match[i + 1]);
+      });
+      return { kind: template.kind, params };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,233 @@
+// Shared request scheduler for every Classroom API call.
+//
+// Fan-out tools issue two or three requests per course, so a student with
+// fifteen courses can fire dozens at once. The scheduler caps how many are in
+// flight, retries rate-limit (429), server (5xx) and network failures with
+// jittered exponential backoff (waiting at least as long as Retry-After asks),
+// and gives each tool call a time budget: once it is spent, failing requests
+// are abandoned instead of retried, and requests still running are abandoned
+// too. ScheduledBackend routes a
+// ClassroomBackend through it, so handlers need no changes.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  ClassroomBackend,
+  ListAnnouncementsParams,
+  ListCourseAliasesParams,
+  ListCoursesParams,
+  ListCourseWorkMaterialsParams,
+  ListCourseWorkParams,
+  ListGuardiansParams,
+  ListRosterParams,
+  ListSubmissionsParams,
+  ListTopicsParams,
+} from './backend.js';
+import { ClassroomApiError, ClassroomErrorKind, classifyError } from './errors.js';
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per tool call.
+  budgetMs: number;
+}
+
+export interface RequestStats {
+  requests: number;
+  // Requests that needed at least one retry.
+  retried: number;
+  // Retryable requests given up on: out of retries or out of budget.
+  abandoned: number;
+}
+
+interface CallContext extends RequestStats {
+  deadline: number;
+  budgetMs: number;
+}
+
+const RETRYABLE = new Set<ClassroomErrorKind>(['rate_limited', 'unavailable', 'network']);
+
+export function schedulerOptionsFromEnv(): SchedulerOptions {
+  const number = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    maxConcurrent: Math.max(1, number('CLASSROOM_MAX_CONCURRENT_REQUESTS', 4)),
+    maxRetries: number('CLASSROOM_MAX_RETRIES', 3),
+    baseDelayMs: number('CLASSROOM_RETRY_BASE_MS', 500),
+    maxDelayMs: number('CLASSROOM_RETRY_MAX_MS', 8000),
+    budgetMs: number('CLASSROOM_REQUEST_BUDGET', 30) * 1000,
+  };
+}
+
+export class RequestScheduler {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private calls = new AsyncLocalStorage<CallContext>();
+
+  constructor(
+    private options: SchedulerOptions,
+    private sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    private random: () => number = Math.random
+  ) {}
+
+  // Runs one tool call with its own time budget and request counters.
+  track<T>(fn: () => Promise<T>): Promise<T> {
+    const { budgetMs } = this.options;
+    return this.calls.run({ requests: 0, retried: 0, abandoned: 0, deadline: Date.now() + budgetMs, budgetMs }, fn);
+  }
+
+  // Counters for the tool call in progress, or null outside one.
+  stats(): RequestStats | null {
+    const call = this.calls.getStore();
+    return call ? { requests: call.requests, retried: call.retried, abandoned: call.abandoned } : null;
+  }
+
+  // Writes pass `retry: false`: a failed request may still have been applied.
+  async run<T>(request: () => Promise<T>, { retry = true } = {}): Promise<T> {
+    const call = this.calls.getStore();
+    if (call) call.requests++;
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: unknown;
+      try {
+        return await this.withSlot(request, call);
+      } catch (error) {
+        failure = error;
+      }
+
+      const api = classifyError(failure);
+      if (!retry || !RETRYABLE.has(api.kind)) throw failure;
+      const delay = this.backoff(attempt, api.retryAfterMs);
+      if (attempt >= this.options.maxRetries || (call && Date.now() + delay > call.deadline)) {
+        if (call) call.abandoned++;
+        throw failure;
+      }
+      if (call && attempt === 0) call.retried++;
+      await this.sleep(delay);
+    }
+  }
+
+  // Full jitter, but never sooner than the server asked for.
+  private backoff(attempt: number, retryAfterMs: number | null): number {
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.max(retryAfterMs ?? 0, Math.round(this.random() * cap));
+  }
+
+  private async withSlot<T>(request: () => Promise<T>, call: CallContext | undefined): Promise<T> {
+    if (this.active >= this.options.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      if (call && Date.now() > call.deadline) {
+        call.abandoned++;
+        throw budgetExceeded(call);
+      }
+      return await (call ? this.withinBudget(request(), call) : request());
+    } finally {
+      // Hand the slot straight to the next waiter, if any.
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  // Settles with the request, or with deadline_exceeded once the call's budget
+  // runs out. The API client cannot cancel a request, so an abandoned one is
+  // left to finish in the background and its slot goes to the next waiter.
+  private withinBudget<T>(pending: Promise<T>, call: CallContext): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        call.abandoned++;
+        reject(budgetExceeded(call));
+      }, Math.max(0, call.deadline - Date.now()));
+    });
+    return Promise.race([pending, expired]).finally(() => clearTimeout(timer));
+  }
+}
+
+function budgetExceeded(call: CallContext): ClassroomApiError {
+  return new ClassroomApiError(
+    'deadline_exceeded',
+    null,
+    `Gave up after the ${Math.round(call.budgetMs / 1000)}s request budget for this tool call was used`
+  );
+}
+
+// A ClassroomBackend whose every call goes through the scheduler.
+export class ScheduledBackend implements ClassroomBackend {
+  constructor(private inner: ClassroomBackend, private scheduler: RequestScheduler) {}
+
+  listCourses(params: ListCoursesParams) {
+    return this.scheduler.run(() => this.inner.listCourses(params));
+  }
+
+  getCourse(courseId: string) {
+    return this.scheduler.run(() => this.inner.getCourse(courseId));
+  }
+
+  listCourseAliases(params: ListCourseAliasesParams) {
+    return this.scheduler.run(() => this.inner.listCourseAliases(params));
+  }
+
+  listCourseWork(params: ListCourseWorkParams) {
+    return this.scheduler.run(() => this.inner.listCourseWork(params));
+  }
+
+  getCourseWork(courseId: string, courseWorkId: string) {
+    return this.scheduler.run(() => this.inner.getCourseWork(courseId, courseWorkId));
+  }
+
+  listSubmissions(params: ListSubmissionsParams) {
+    return this.scheduler.run(() => this.inner.listSubmissions(params));
+  }
+
+  listAnnouncements(params: ListAnnouncementsParams) {
+    return this.scheduler.run(() => this.inner.listAnnouncements(params));
+  }
+
+  listTopics(params: ListTopicsParams) {
+    return this.scheduler.run(() => this.inner.listTopics(params));
+  }
+
+  listCourseWorkMaterials(params: ListCourseWorkMaterialsParams) {
+    return this.scheduler.run(() => this.inner.listCourseWorkMaterials(params));
+  }
+
+  getCourseWorkMaterial(courseId: string, materialId: string) {
+    return this.scheduler.run(() => this.inner.getCourseWorkMaterial(courseId, materialId));
+  }
+
+  listStudents(params: ListRosterParams) {
+    return this.scheduler.run(() => this.inner.listStudents(params));
+  }
+
+  listTeachers(params: ListRosterParams) {
+    return this.scheduler.run(() => this.inner.listTeachers(params));
+  }
+
+  listGuardians(params: ListGuardiansParams) {
+    return this.scheduler.run(() => this.inner.listGuardians(params));
+  }
+
+  getUserProfile(userId: string) {
+    return this.scheduler.run(() => this.inner.getUserProfile(userId));
+  }
+
+  turnInSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    return this.scheduler.run(() => this.inner.turnInSubmission(courseId, courseWorkId, submissionId), { retry: false });
+  }
+
+  reclaimSubmission(courseId: string, courseWorkId: string, submissionId: string) {
+    return this.scheduler.run(() => this.inner.reclaimSubmission(courseId, courseWorkId, submissionId), { retry: false });
+  }
+
+  addSubmissionLink(courseId: string, courseWorkId: string, submissionId: string, url: string) {
+    return this.scheduler.run(() => this.inner.addSubmissionLink(courseId, courseWorkId, submissionId, url), { retry: false });
+  }
+}
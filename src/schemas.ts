@@ -0,0 +1,395 @@
+// Argument validation and output schemas for the tools.
+//
+// Clients are free to send anything as tool arguments, so each call is checked
+// against the tool's inputSchema before a handler sees it, and mistakes come
+// back as InvalidParams naming the offending field. Every tool also declares
+// an outputSchema describing its structuredContent. The output schemas list
+// the fields clients can rely on but allow extra ones, since several results
+// pass Classroom API objects through as they are.
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/types.js';
+
+const validator = new AjvJsonSchemaValidator();
+const compiled = new Map<string, JsonSchemaValidator<unknown>>();
+
+// Ajv reports fields as "data/days"; "days" reads better.
+export function describeValidationErrors(message: string, subject = 'arguments'): string {
+  return message
+    .replace(/\bdata must have required property '([^']+)'/g, '$1 is required')
+    .replace(/\bdata\/([^\s,]+)/g, (_, field: string) => field.replace(/\//g, '.'))
+    .replace(/\bdata\b/g, subject);
+}
+
+// Throws InvalidParams unless `args` matches the tool's inputSchema.
+export function validateArguments(tool: string, inputSchema: object, args: unknown) {
+  // Keyed by the schema itself: reload_config can change a tool's arguments.
+  const key = `${tool}:${JSON.stringify(inputSchema)}`;
+  let validate = compiled.get(key);
+  if (!validate) {
+    validate = validator.getValidator(inputSchema as JsonSchemaType);
+    compiled.set(key, validate);
+  }
+  const result = validate(args ?? {});
+  if (!result.valid) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${tool}: ${describeValidationErrors(result.errorMessage)}`
+    );
+  }
+}
+
+const string = { type: 'string' };
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+const integer = { type: 'integer' };
+const boolean = { type: 'boolean' };
+
+function object(properties: Record<string, object> = {}, required: string[] = []) {
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+function list(items: object = { type: 'object' }) {
+  return { type: 'array', items };
+}
+
+const NEXT_PAGE_TOKEN = { nextPageToken: string };
+
+const DEADLINE_PROPERTIES = {
+  dueDate: nullableString,
+  dueTime: nullableString,
+  dueAt: nullableString,
+  hasDueTime: boolean,
+  hoursUntilDue: nullableNumber,
+  dueIn: nullableString,
+};
+
+// What aggregate tools add when courses were skipped or requests retried.
+const FAILURE_REPORT_PROPERTIES = {
+  warnings: list(string),
+  failedCourses: list(object({
+    account: string,
+    courseId: string,
+    courseName: nullableString,
+    kind: string,
+    status: { type: ['integer', 'null'] },
+    message: string,
+  }, ['courseId', 'kind', 'message'])),
+  requests: object({ requests: integer, retried: integer, abandoned: integer }),
+};
+
+// Whose work a guardian's studentId call returned.
+const STUDENT = object({ studentId: string, name: nullableString, email: nullableString }, ['studentId']);
+
+const COURSE = object({ id: string, name: string, section: string, courseState: string, alternateLink: string }, ['id']);
+const COURSE_WORK = object({ id: string, title: string, workType: string, state: string, maxPoints: { type: 'number' } }, ['id']);
+
+const COURSE_ITEM = { account: string, courseId: string, courseName: nullableString, assignmentId: string };
+
+const UPCOMING_ASSIGNMENT = object({
+  ...COURSE_ITEM,
+  title: nullableString,
+  ...DEADLINE_PROPERTIES,
+  maxPoints: nullableNumber,
+  alternateLink: nullableString,
+}, ['courseId', 'assignmentId']);
+
+const MISSING_ASSIGNMENT = object({
+  ...UPCOMING_ASSIGNMENT.properties,
+  submissionState: string,
+}, ['courseId', 'assignmentId', 'submissionState']);
+
+const GRADE = object({
+  ...COURSE_ITEM,
+  title: nullableString,
+  state: string,
+  assignedGrade: nullableNumber,
+  maxPoints: nullableNumber,
+  ...DEADLINE_PROPERTIES,
+  alternateLink: nullableString,
+}, ['courseId', 'assignmentId']);
+
+const ASSIGNMENT = object({
+  id: string,
+  title: nullableString,
+  description: nullableString,
+  workType: string,
+  topicId: nullableString,
+  maxPoints: nullableNumber,
+  ...DEADLINE_PROPERTIES,
+  creationTime: nullableString,
+  alternateLink: nullableString,
+}, ['id']);
+
+const MATERIAL = object({ type: string, title: nullableString, url: nullableString }, ['type']);
+
+const COURSE_MATERIAL = object({
+  id: nullableString,
+  title: nullableString,
+  description: nullableString,
+  topicId: nullableString,
+  topicName: nullableString,
+  state: nullableString,
+  materials: list(MATERIAL),
+  creationTime: nullableString,
+  updateTime: nullableString,
+  alternateLink: nullableString,
+}, ['id', 'materials']);
+
+const TOPIC_GROUP = { topicId: nullableString, name: nullableString };
+
+const GRADE_HEADER = {
+  courseId: string,
+  courseName: nullableString,
+  calculationType: string,
+  method: string,
+};
+
+const CATEGORY = object({
+  id: nullableString,
+  name: string,
+  weight: nullableNumber,
+  earned: { type: 'number' },
+  possible: { type: 'number' },
+  percentage: nullableNumber,
+  gradedAssignments: integer,
+}, ['name']);
+
+const ROSTER_ENTRY = object({
+  courseId: string,
+  userId: string,
+  profile: object({ id: string, name: object({ fullName: string }), emailAddress: string }),
+}, ['userId']);
+
+const REPORT_STUDENT = object({
+  userId: string,
+  name: nullableString,
+  email: nullableString,
+  state: string,
+  late: boolean,
+}, ['userId', 'state']);
+
+const SUBMISSION_VIEW = object({ state: nullableString, late: boolean, attachments: list(MATERIAL) }, ['state', 'attachments']);
+
+// What the write tools preview (dryRun) or report after making a change.
+const WRITE_RESULT = object({
+  action: { type: 'string', enum: ['turn_in', 'reclaim', 'add_link'] },
+  courseId: string,
+  courseWorkId: string,
+  title: nullableString,
+  submissionId: string,
+  alternateLink: nullableString,
+  dryRun: boolean,
+  applied: boolean,
+  before: SUBMISSION_VIEW,
+  after: SUBMISSION_VIEW,
+  changes: list(string),
+  warnings: list(string),
+}, ['action', 'submissionId', 'dryRun', 'applied', 'before', 'after', 'changes']);
+
+const ACCOUNT_ERROR = object({ name: string, reason: string, fix: string }, ['name', 'reason']);
+
+export const OUTPUT_SCHEMAS: Record<string, object> = {
+  list_courses: object({ courses: list(COURSE), ...NEXT_PAGE_TOKEN }, ['courses']),
+  get_course: COURSE,
+  list_coursework: object({
+    courseWork: list(COURSE_WORK),
+    topics: list(object({ ...TOPIC_GROUP, courseWork: list(COURSE_WORK) })),
+    ...NEXT_PAGE_TOKEN,
+  }),
+  get_coursework: COURSE_WORK,
+  list_submissions: object({
+    studentSubmissions: list(object({ id: string, courseWorkId: string, state: string, assignedGrade: { type: 'number' } })),
+    ...NEXT_PAGE_TOKEN,
+  }, ['studentSubmissions']),
+  list_announcements: object({
+    announcements: list(object({ id: string, text: string, creationTime: string, alternateLink: string })),
+    ...NEXT_PAGE_TOKEN,
+  }, ['announcements']),
+  get_upcoming_assignments: object({ assignments: list(UPCOMING_ASSIGNMENT), student: STUDENT, ...FAILURE_REPORT_PROPERTIES }, ['assignments']),
+  get_missing_assignments: object({ assignments: list(MISSING_ASSIGNMENT), student: STUDENT, ...FAILURE_REPORT_PROPERTIES }, ['assignments']),
+  get_grades: object({ grades: list(GRADE), student: STUDENT, ...FAILURE_REPORT_PROPERTIES }, ['grades']),
+  // `topics` instead of `assignments` with groupByTopic.
+  get_assignments: object({
+    assignments: list(ASSIGNMENT),
+    topics: list(object({ ...TOPIC_GROUP, assignments: list(ASSIGNMENT) })),
+  }),
+  list_topics: object({
+    topics: list(object({ topicId: string, name: string, updateTime: string })),
+    ...NEXT_PAGE_TOKEN,
+  }, ['topics']),
+  list_course_materials: object({ materials: list(COURSE_MATERIAL) }, ['materials']),
+  get_course_material: COURSE_MATERIAL,
+  calculate_grade: object({
+    ...GRADE_HEADER,
+    totalEarned: { type: 'number' },
+    totalPossible: { type: 'number' },
+    overallPercentage: nullableNumber,
+    // Only with a gradeScale in the config file.
+    letterGrade: nullableString,
+    gradedAssignments: integer,
+    categories: list(CATEGORY),
+    breakdown: list(object({
+      assignmentId: nullableString,
+      title: nullableString,
+      category: nullableString,
+      earned: { type: 'number' },
+      possible: { type: 'number' },
+      percentage: nullableNumber,
+    })),
+    excluded: list(object({ assignmentId: string, title: nullableString, reason: string })),
+    student: STUDENT,
+  }, ['courseId', 'calculationType', 'overallPercentage', 'breakdown']),
+  simulate_grade: object({
+    ...GRADE_HEADER,
+    currentPercentage: nullableNumber,
+    projectedPercentage: nullableNumber,
+    maxAchievablePercentage: nullableNumber,
+    currentLetterGrade: nullableString,
+    projectedLetterGrade: nullableString,
+    target: { type: ['object', 'null'] },
+    hypothetical: list(object({ assignmentId: nullableString, title: nullableString, score: { type: 'number' }, possible: { type: 'number' }, extraCredit: boolean })),
+    remaining: list(object({ assignmentId: nullableString, title: nullableString, possible: { type: 'number' }, ...DEADLINE_PROPERTIES })),
+  }, ['courseId', 'currentPercentage', 'projectedPercentage', 'hypothetical', 'remaining']),
+  get_changes_since: object({
+    account: string,
+    mode: { type: 'string', enum: ['timestamp', 'snapshot'] },
+    since: nullableString,
+    checkedAt: string,
+    firstRun: boolean,
+    note: string,
+    summary: object(),
+    newCourses: list(),
+    removedCourses: list(),
+    newAnnouncements: list(),
+    newAssignments: list(),
+    updatedAssignments: list(),
+    dueDateChanges: list(),
+    removedAssignments: list(),
+    grades: list(),
+    stateChanges: list(),
+    ...FAILURE_REPORT_PROPERTIES,
+  }, ['account', 'mode', 'checkedAt']),
+  // `calendar` holds the feed unless it was written to `path`.
+  export_calendar: object({
+    calendar: string,
+    path: string,
+    events: integer,
+    timezone: string,
+    ...FAILURE_REPORT_PROPERTIES,
+  }, ['events', 'timezone']),
+  get_assignment_materials: object({
+    assignmentId: string,
+    title: nullableString,
+    description: nullableString,
+    materials: list(MATERIAL),
+    alternateLink: nullableString,
+  }, ['assignmentId', 'materials']),
+  list_students: object({ students: list(ROSTER_ENTRY), ...NEXT_PAGE_TOKEN }, ['students']),
+  list_teachers: object({ teachers: list(ROSTER_ENTRY), ...NEXT_PAGE_TOKEN }, ['teachers']),
+  get_submission_report: object({
+    courseId: nullableString,
+    courseWorkId: nullableString,
+    title: nullableString,
+    maxPoints: nullableNumber,
+    ...DEADLINE_PROPERTIES,
+    pastDue: boolean,
+    assigned: integer,
+    countsByState: { type: 'object', additionalProperties: integer },
+    turnedIn: integer,
+    late: integer,
+    notTurnedIn: list(REPORT_STUDENT),
+    missing: list(REPORT_STUDENT),
+    grades: object({
+      graded: integer,
+      mean: nullableNumber,
+      median: nullableNumber,
+      min: nullableNumber,
+      max: nullableNumber,
+      histogram: {
+        type: ['array', 'null'],
+        items: object({ from: { type: 'number' }, to: { type: 'number' }, count: integer }, ['from', 'to', 'count']),
+      },
+    }, ['graded', 'mean', 'median', 'histogram']),
+  }, ['courseWorkId', 'assigned', 'countsByState', 'turnedIn', 'late', 'notTurnedIn', 'missing', 'grades']),
+  list_students_i_guard: object({
+    guardian: object({ userId: nullableString, name: nullableString, email: nullableString }),
+    students: list(STUDENT),
+  }, ['guardian', 'students']),
+  turn_in_submission: WRITE_RESULT,
+  reclaim_submission: WRITE_RESULT,
+  add_submission_link: WRITE_RESULT,
+  reload_config: object({
+    path: string,
+    found: boolean,
+    hiddenCourses: list(string),
+    pinnedCourses: list(string),
+    nicknames: { type: 'object', additionalProperties: string },
+    timezone: nullableString,
+    lookaheadDays: { type: ['integer', 'null'] },
+    gradeScale: { type: ['array', 'null'], items: object({ grade: string, min: { type: 'number' } }) },
+    toolGroups: { type: 'object', additionalProperties: boolean },
+    format: nullableString,
+    maxChars: { type: ['integer', 'null'] },
+    toolsAdded: list(string),
+    toolsRemoved: list(string),
+  }, ['path', 'found', 'toolGroups', 'toolsAdded', 'toolsRemoved']),
+  clear_cache: object({ cleared: list(object({ account: string, entries: integer }, ['account', 'entries'])) }, ['cleared']),
+  auth_status: object({
+    ok: boolean,
+    requiredScopes: list(string),
+    accounts: list(object({
+      account: string,
+      source: string,
+      default: boolean,
+      ok: boolean,
+      email: nullableString,
+      grantedScopes: list(string),
+      missingScopes: list(string),
+      expiresAt: nullableString,
+      refreshed: boolean,
+      error: nullableString,
+      checkedAt: string,
+    }, ['account', 'ok'])),
+    unavailable: list(ACCOUNT_ERROR),
+    hint: string,
+  }, ['ok', 'requiredScopes', 'accounts']),
+  list_accounts: object({
+    defaultAccount: nullableString,
+    accounts: list(object({
+      name: string,
+      default: boolean,
+      source: string,
+      credentialsFile: string,
+      encrypted: boolean,
+      savedAt: nullableString,
+    }, ['name', 'default', 'source'])),
+    unavailable: list(ACCOUNT_ERROR),
+  }, ['defaultAccount', 'accounts']),
+};
+
+// Legacy names return the same results as the tools they alias.
+OUTPUT_SCHEMAS.courses = OUTPUT_SCHEMAS.list_courses;
+OUTPUT_SCHEMAS['course-details'] = OUTPUT_SCHEMAS.get_course;
+OUTPUT_SCHEMAS.assignments = OUTPUT_SCHEMAS.list_coursework;
+
+// The list property that `fields`, `maxItems` and `maxChars` apply to, for
+// tools whose result is an object. Results that are lists themselves need no
+// entry, and results without one (get_changes_since) are projected whole.
+export const LIST_PROPERTIES: Record<string, string> = {
+  list_courses: 'courses',
+  courses: 'courses',
+  list_coursework: 'courseWork',
+  assignments: 'courseWork',
+  list_submissions: 'studentSubmissions',
+  list_announcements: 'announcements',
+  list_topics: 'topics',
+  get_assignment_materials: 'materials',
+  calculate_grade: 'breakdown',
+  simulate_grade: 'remaining',
+  list_students: 'students',
+  list_teachers: 'teachers',
+  get_submission_report: 'notTurnedIn',
+  list_students_i_guard: 'students',
+};
@@ -1,124 +1,183 @@
 #!/usr/bin/env node
 
-import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
+import { authorize, builtInClientId, OAuthClientConfig, openBrowser } from './oauth.js';
+import { findLegacyCredentials, passphraseFromEnv, saveCredentials } from './credential-store.js';
+import { DEFAULT_ACCOUNT, isValidProfileName } from './accounts.js';
 
-const SCOPES = [
-  'https://www.googleapis.com/auth/classroom.courses.readonly',
-  'https://www.googleapis.com/auth/classroom.course-work.readonly',
-  'https://www.googleapis.com/auth/classroom.student-submissions.me.readonly',
-  'https://www.googleapis.com/auth/classroom.announcements.readonly',
-  'https://www.googleapis.com/auth/classroom.courseworkmaterials.readonly',
-  'https://www.googleapis.com/auth/classroom.topics.readonly',
-];
+// --profile <name> stores the account under its own name, so a school and a
+// personal account (or several children) can sit side by side.
+function profileFromArgs(): string {
+  const index = process.argv.indexOf('--profile');
+  if (index === -1) return DEFAULT_ACCOUNT;
+  const name = process.argv[index + 1];
+  if (!name || !isValidProfileName(name)) {
+    console.error('--profile needs a name made of letters, digits, ".", "_" or "-" (and not "all")');
+    process.exit(1);
+  }
+  return name;
+}
+
+// Where the OAuth client comes from, in order: a downloaded credentials.json
+// in the current directory, GOOGLE_CLIENT_ID in the environment, or the
+// public client ID built into the published package.
+function loadClientConfig(): OAuthClientConfig | null {
+  const credentialsPath = path.join(process.cwd(), 'credentials.json');
+  if (fs.existsSync(credentialsPath)) {
+    const credentials = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+    const { client_id, client_secret } = credentials.installed || credentials.web || {};
+    if (!client_id) {
+      console.error('Invalid credentials.json format');
+      console.error('Make sure you downloaded the correct OAuth 2.0 Client ID credentials');
+      process.exit(1);
+    }
+    console.log('Using OAuth client from credentials.json');
+    return { clientId: client_id, clientSecret: client_secret || undefined };
+  }
+
+  if (process.env.GOOGLE_CLIENT_ID) {
+    console.log('Using OAuth client from GOOGLE_CLIENT_ID');
+    return { clientId: process.env.GOOGLE_CLIENT_ID, clientSecret: process.env.GOOGLE_CLIENT_SECRET || undefined };
+  }
+
+  const clientId = builtInClientId();
+  return clientId ? { clientId } : null;
+}
+
+function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise<string>((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+// Copies credentials an older setup-auth left in this directory into the store.
+function migrate(profile: string) {
+  const legacy = findLegacyCredentials(process.cwd());
+  if (!legacy) {
+    console.error('No .env or tokens.json with a refresh token found in this directory.');
+    process.exit(1);
+  }
+  const file = saveCredentials(legacy.credentials, profile);
+  console.log(`Copied credentials from ${legacy.source} to ${file}${passphraseFromEnv() ? ' (encrypted)' : ''}`);
+  console.log('You can now delete the old .env / tokens.json and remove the GOOGLE_* values from your MCP client config.');
+}
 
 async function setupAuthentication() {
   console.log('Google Classroom MCP Server Authentication Setup');
   console.log('==================================================\n');
 
-  // Check if credentials file exists
-  const credentialsPath = path.join(process.cwd(), 'credentials.json');
-  if (!fs.existsSync(credentialsPath)) {
-    console.error('credentials.json not found!');
+  const profile = profileFromArgs();
+  if (profile !== DEFAULT_ACCOUNT) {
+    console.log(`Setting up profile "${profile}"\n`);
+  }
+
+  if (process.argv.includes('--migrate')) {
+    migrate(profile);
+    return;
+  }
+
+  const client = loadClientConfig();
+  if (!client) {
+    console.error('No OAuth client configured!');
     console.log('\nTo set up authentication:');
     console.log('1. Go to https://console.cloud.google.com/');
     console.log('2. Create a new project or select an existing one');
     console.log('3. Enable the Google Classroom API');
     console.log('4. Go to "Credentials" and create an OAuth 2.0 Client ID');
-    console.log('5. Choose "Desktop application" as the application type');
+    console.log('5. Choose "Desktop app" as the application type');
     console.log('6. Download the credentials and save as "credentials.json" in this directory');
+    console.log('   (or set GOOGLE_CLIENT_ID, and GOOGLE_CLIENT_SECRET if your client has one)');
     console.log('7. Run this setup script again\n');
     process.exit(1);
   }
 
-  // Load credentials
-  const credentialsContent = fs.readFileSync(credentialsPath, 'utf8');
-  const credentials = JSON.parse(credentialsContent);
-  
-  const { client_id, client_secret, redirect_uris } = credentials.installed || credentials.web;
-  
-  if (!client_id || !client_secret) {
-    console.error('Invalid credentials.json format');
-    console.error('Make sure you downloaded the correct OAuth 2.0 Client ID credentials');
-    process.exit(1);
+  // Headless machines (SSH sessions, containers) have no browser that can
+  // reach a local listener, so the redirected URL is pasted back instead.
+  const manual = process.argv.includes('--manual');
+  // --write also asks for permission to turn in and edit your own submissions.
+  const write = process.argv.includes('--write');
+  if (write) {
+    console.log('Requesting write access to your own submissions (turn in, reclaim, attach links)\n');
+  }
+  // --teacher also asks to read class rosters and every student's submissions.
+  const teacher = process.argv.includes('--teacher');
+  if (teacher) {
+    console.log('Requesting read access to class rosters and all students\' submissions\n');
+  }
+  // --guardian also asks to read the guardian links and work of your children.
+  const guardian = process.argv.includes('--guardian');
+  if (guardian) {
+    console.log('Requesting read access to your guardian links and the work of the students you guard\n');
   }
 
-  // Create OAuth2 client
-  const oauth2Client = new OAuth2Client(
-    client_id,
-    client_secret,
-    redirect_uris[0] || 'urn:ietf:wg:oauth:2.0:oob'
-  );
-
-  // Generate authorization URL
-  const authUrl = oauth2Client.generateAuthUrl({
-    access_type: 'offline',
-    scope: SCOPES,
-    prompt: 'consent', // Force consent screen to get refresh token
-  });
-
-  console.log('Please visit this URL to authorize the application:');
-  console.log(`\n${authUrl}\n`);
-
-  // Get authorization code from user
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  const code = await new Promise<string>((resolve) => {
-    rl.question('Enter the authorization code: ', (answer) => {
-      rl.close();
-      resolve(answer.trim());
+  try {
+    const tokens = await authorize(client, {
+      manual,
+      showUrl: (url) => {
+        if (manual) {
+          console.log('Open this URL in a browser on any machine and approve access:');
+          console.log(`\n${url}\n`);
+          console.log('The browser will then fail to load a http://127.0.0.1 page. That is expected:');
+          console.log('copy the full address from its location bar and paste it below.\n');
+        } else {
+          console.log('Opening your browser to authorize the application. If it does not open, visit:');
+          console.log(`\n${url}\n`);
+          console.log('Waiting for Google to redirect back... (run with --manual on a machine without a browser)');
+        }
+      },
+      prompt: ask,
+      openUrl: openBrowser,
+      write,
+      teacher,
+      guardian,
     });
-  });
 
-  try {
-    // Exchange authorization code for tokens
-    const { tokens } = await oauth2Client.getToken(code);
-    
     if (!tokens.refresh_token) {
       console.error('No refresh token received. Please try again and make sure to grant all permissions.');
       process.exit(1);
     }
 
-    // Save tokens to .env file (new method)
-    const envContent = `# Google Classroom MCP Server Environment Variables
-# Generated on ${new Date().toISOString()}
-GOOGLE_CLIENT_ID="${client_id}"
-GOOGLE_CLIENT_SECRET="${client_secret}"
-GOOGLE_REDIRECT_URI="${redirect_uris[0] || 'urn:ietf:wg:oauth:2.0:oob'}"
-GOOGLE_REFRESH_TOKEN="${tokens.refresh_token}"
-`;
-
-    fs.writeFileSync('.env', envContent);
-    
-    // Also save to legacy tokens.json for backward compatibility
-    const tokensForLegacy = {
-      access_token: tokens.access_token,
-      refresh_token: tokens.refresh_token,
-      scope: tokens.scope,
-      token_type: tokens.token_type,
-      expiry_date: tokens.expiry_date
-    };
-    
-    fs.writeFileSync('tokens.json', JSON.stringify(tokensForLegacy, null, 2));
-    
-    console.log('Authentication successful!');
-    console.log('Tokens saved to .env file (secure)');
-    console.log('Legacy tokens.json also created for backward compatibility');
+    const file = saveCredentials({
+      clientId: client.clientId,
+      clientSecret: client.clientSecret,
+      refreshToken: tokens.refresh_token,
+      accessToken: tokens.access_token || undefined,
+      expiryDate: tokens.expiry_date || undefined,
+      scope: tokens.scope || undefined,
+    }, profile);
+
+    console.log('\nAuthentication successful!');
+    console.log(`Credentials saved to ${file}${passphraseFromEnv() ? ' (encrypted with CLASSROOM_CREDENTIALS_PASSPHRASE)' : ''}`);
+    if (profile !== DEFAULT_ACCOUNT) {
+      console.log(`\nPass account: "${profile}" to any tool to use this profile (see list_accounts).`);
+    }
+    if (write) {
+      console.log('\nThe write tools stay hidden until the server runs with CLASSROOM_WRITE_MODE=on.');
+    }
+    if (teacher) {
+      console.log('\nThe teacher tools stay hidden until the server runs with CLASSROOM_TEACHER_MODE=on.');
+    }
+    if (guardian) {
+      console.log('\nThe guardian tools stay hidden until the server runs with CLASSROOM_GUARDIAN_MODE=on.');
+    }
     console.log('\nYou can now run the MCP server with:');
     console.log('   npm run build && npm start');
     console.log('\nOr test it with:');
-    console.log('   npm test');
+    console.log('   npm run test:live');
     console.log('\nAdd to Claude Desktop config:');
     console.log('   See README.md for configuration instructions');
 
   } catch (error) {
-    console.error('Error getting tokens:', error);
+    console.error('Error getting tokens:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
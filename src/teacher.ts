@@ -0,0 +1,125 @@
+// Teacher mode: class rosters and per-assignment submission analytics.
+//
+// Every other tool reads the signed-in student's own work (userId 'me').
+// With CLASSROOM_TEACHER_MODE=on and an account that granted TEACHER_SCOPES
+// (`npm run setup-auth -- --teacher`), list_students, list_teachers and
+// get_submission_report read the whole class instead. The report counts one
+// submission per assigned student, so students an assignment was not given
+// to are left out, and names come from the course roster.
+
+import { CourseWork, Student, StudentSubmission } from './backend.js';
+import { deadlineOutput, dueInstant } from './deadlines.js';
+import { roundPercent } from './grading.js';
+
+export const TEACHER_TOOLS = new Set(['list_students', 'list_teachers', 'get_submission_report']);
+
+export function teacherModeFromEnv(): boolean {
+  return /^(1|on|true|yes)$/i.test(process.env.CLASSROOM_TEACHER_MODE ?? '');
+}
+
+const STATES = ['NEW', 'CREATED', 'TURNED_IN', 'RETURNED', 'RECLAIMED_BY_STUDENT'];
+
+export interface StudentEntry {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  state: string;
+  late: boolean;
+}
+
+export interface HistogramBucket {
+  // Percent of maxPoints; the last bucket also holds extra credit.
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface GradeDistribution {
+  graded: number;
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  // Null when the assignment has no maxPoints to scale against.
+  histogram: HistogramBucket[] | null;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function gradeDistribution(scores: number[], maxPoints: number | null, buckets = 10): GradeDistribution {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  let histogram: HistogramBucket[] | null = null;
+  if (maxPoints && maxPoints > 0) {
+    const width = 100 / buckets;
+    histogram = Array.from({ length: buckets }, (_, i) => ({ from: roundPercent(i * width), to: roundPercent((i + 1) * width), count: 0 }));
+    for (const score of scores) {
+      const index = Math.min(buckets - 1, Math.max(0, Math.floor((score / maxPoints) * 100 / width)));
+      histogram[index].count++;
+    }
+  }
+  return {
+    graded: scores.length,
+    mean: scores.length > 0 ? round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null,
+    median: scores.length > 0 ? round(median(scores)!) : null,
+    min: scores.length > 0 ? Math.min(...scores) : null,
+    max: scores.length > 0 ? Math.max(...scores) : null,
+    histogram,
+  };
+}
+
+// Aggregates every assigned student's submission for one piece of coursework.
+export function buildSubmissionReport(
+  courseWork: CourseWork,
+  submissions: StudentSubmission[],
+  students: Student[],
+  timezone: string,
+  now: number = Date.now()
+) {
+  const roster = new Map(students.map((s) => [s.userId, s]));
+  const due = dueInstant(courseWork, timezone);
+
+  const countsByState: Record<string, number> = Object.fromEntries(STATES.map((state) => [state, 0]));
+  const entries: StudentEntry[] = submissions.map((sub) => {
+    const state = sub.state ?? 'NEW';
+    countsByState[state] = (countsByState[state] ?? 0) + 1;
+    const profile = roster.get(sub.userId)?.profile;
+    return {
+      userId: sub.userId ?? '',
+      name: profile?.name?.fullName ?? null,
+      email: profile?.emailAddress ?? null,
+      state,
+      late: sub.late === true,
+    };
+  });
+
+  // Same rule as get_missing_assignments: turned-in and returned work counts
+  // as done, and unfinished work is only missing once the deadline passes.
+  const notTurnedIn = entries
+    .filter((entry) => entry.state !== 'TURNED_IN' && entry.state !== 'RETURNED')
+    .sort((a, b) => (a.name ?? a.userId).localeCompare(b.name ?? b.userId));
+  const pastDue = due != null && due < now;
+  const scores = submissions
+    .map((sub) => sub.assignedGrade)
+    .filter((grade): grade is number => typeof grade === 'number');
+
+  return {
+    courseId: courseWork.courseId ?? null,
+    courseWorkId: courseWork.id ?? null,
+    title: courseWork.title ?? null,
+    maxPoints: courseWork.maxPoints ?? null,
+    ...deadlineOutput(courseWork, timezone, now),
+    pastDue,
+    assigned: submissions.length,
+    countsByState,
+    turnedIn: entries.length - notTurnedIn.length,
+    late: entries.filter((entry) => entry.late).length,
+    notTurnedIn,
+    missing: pastDue ? notTurnedIn : [],
+    grades: gradeDistribution(scores, courseWork.maxPoints ?? null),
+  };
+}
@@ -0,0 +1,46 @@
+// Topic filtering and grouping shared by the coursework listing tools.
+//
+// Topics are the folders teachers sort classwork into ("Unit 3", "Labs").
+// Items carry a topicId; grouping keeps the course's topic order and puts
+// anything without a topic in a trailing group with topicId null.
+
+import { Topic } from './backend.js';
+
+// JSON schema fragment for tools that can filter or group by topic.
+export const TOPIC_PROPERTIES = {
+  topicId: {
+    type: 'string',
+    description: 'Only include items in this topic (see list_topics)',
+  },
+  groupByTopic: {
+    type: 'boolean',
+    description: 'Group results by topic instead of returning a flat list',
+  },
+};
+
+export interface TopicGroup<T> {
+  topicId: string | null;
+  name: string | null;
+  items: T[];
+}
+
+export function filterByTopic<T extends { topicId?: string | null }>(items: T[], topicId?: string): T[] {
+  return topicId ? items.filter((item) => item.topicId === topicId) : items;
+}
+
+export function groupByTopic<T extends { topicId?: string | null }>(items: T[], topics: Topic[]): TopicGroup<T>[] {
+  const groups = new Map<string | null, TopicGroup<T>>(
+    topics.map((t) => [t.topicId!, { topicId: t.topicId!, name: t.name ?? null, items: [] }])
+  );
+  for (const item of items) {
+    const key = item.topicId ?? null;
+    if (!groups.has(key)) {
+      // A topicId the topic list did not return, or no topic at all.
+      groups.set(key, { topicId: key, name: null, items: [] });
+    }
+    groups.get(key)!.items.push(item);
+  }
+  // Untopiced work goes last, and empty topics are dropped.
+  const ordered = [...groups.values()].filter((g) => g.items.length > 0);
+  return [...ordered.filter((g) => g.topicId !== null), ...ordered.filter((g) => g.topicId === null)];
+}
@@ -0,0 +1,144 @@
+// Opt-in write tools: turn in, reclaim and attach links to the signed-in
+// student's own submissions.
+//
+// They stay hidden unless CLASSROOM_WRITE_MODE=on and the account granted
+// WRITE_SCOPES (`npm run setup-auth -- --write`). Each tool first plans the
+// change against the submission's current state, so a dry run can show
+// exactly what would happen and impossible changes fail before any request
+// is sent. Nothing is written without `confirm: true`.
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CourseWork, StudentSubmission } from './backend.js';
+import { classifyError } from './errors.js';
+
+export type WriteAction = 'turn_in' | 'reclaim' | 'add_link';
+
+export const WRITE_TOOLS: Record<string, WriteAction> = {
+  turn_in_submission: 'turn_in',
+  reclaim_submission: 'reclaim',
+  add_submission_link: 'add_link',
+};
+
+export function writeModeFromEnv(): boolean {
+  return /^(1|on|true|yes)$/i.test(process.env.CLASSROOM_WRITE_MODE ?? '');
+}
+
+// JSON schema fragment shared by the write tools.
+export const WRITE_PROPERTIES = {
+  courseId: {
+    type: 'string',
+    description: 'The ID of the course',
+  },
+  courseWorkId: {
+    type: 'string',
+    description: 'The ID of the assignment',
+  },
+  dryRun: {
+    type: 'boolean',
+    description: 'Only show what would change; nothing is sent to Google Classroom',
+  },
+  confirm: {
+    type: 'boolean',
+    description: 'Must be true to make the change. Preview it with dryRun first.',
+  },
+};
+
+export interface AttachmentView {
+  type: string;
+  title: string | null;
+  url: string | null;
+}
+
+export interface SubmissionView {
+  state: string | null;
+  late: boolean;
+  attachments: AttachmentView[];
+}
+
+export interface WritePlan {
+  before: SubmissionView;
+  after: SubmissionView;
+  changes: string[];
+  warnings: string[];
+}
+
+// Submission attachments hold the Drive file itself rather than a
+// SharedDriveFile, so normalizeMaterials does not fit them.
+export function describeSubmission(submission: StudentSubmission): SubmissionView {
+  const attachments = (submission.assignmentSubmission?.attachments || []).map((a): AttachmentView => {
+    if (a.link) return { type: 'link', title: a.link.title ?? null, url: a.link.url ?? null };
+    if (a.driveFile) return { type: 'driveFile', title: a.driveFile.title ?? null, url: a.driveFile.alternateLink ?? null };
+    if (a.youTubeVideo) return { type: 'youTubeVideo', title: a.youTubeVideo.title ?? null, url: a.youTubeVideo.alternateLink ?? null };
+    if (a.form) return { type: 'form', title: a.form.title ?? null, url: a.form.formUrl ?? null };
+    return { type: 'unknown', title: null, url: null };
+  });
+  return { state: submission.state ?? null, late: submission.late === true, attachments };
+}
+
+function refuse(message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+// What `action` would do to `submission`, or InvalidParams when Classroom
+// would refuse it anyway.
+export function planWrite(action: WriteAction, courseWork: CourseWork, submission: StudentSubmission, url?: string): WritePlan {
+  const before = describeSubmission(submission);
+  const title = courseWork.title ?? courseWork.id;
+  let after: SubmissionView;
+  let changes: string[];
+
+  switch (action) {
+    case 'turn_in':
+      if (before.state === 'TURNED_IN') refuse(`"${title}" is already turned in`);
+      after = { ...before, state: 'TURNED_IN' };
+      changes = [`state: ${before.state} → TURNED_IN`];
+      break;
+    case 'reclaim':
+      if (before.state !== 'TURNED_IN') refuse(`"${title}" is not turned in (state ${before.state}), so there is nothing to reclaim`);
+      after = { ...before, state: 'RECLAIMED_BY_STUDENT' };
+      changes = [`state: TURNED_IN → RECLAIMED_BY_STUDENT`];
+      break;
+    case 'add_link': {
+      let parsed: URL | null = null;
+      try {
+        parsed = new URL(url ?? '');
+      } catch {
+        // Reported below.
+      }
+      if (!parsed || !/^https?:$/.test(parsed.protocol)) refuse(`url must be an http(s) link, got "${url}"`);
+      if (courseWork.workType !== 'ASSIGNMENT') {
+        refuse(`"${title}" is a ${courseWork.workType ?? 'non-assignment'} item; links can only be attached to assignments`);
+      }
+      if (before.state === 'TURNED_IN') refuse(`"${title}" is turned in; reclaim it before adding attachments`);
+      if (before.attachments.some((a) => a.url === parsed!.href || a.url === url)) {
+        refuse(`${url} is already attached to "${title}"`);
+      }
+      after = { ...before, attachments: [...before.attachments, { type: 'link', title: null, url: parsed.href }] };
+      changes = [`attach link: ${parsed.href}`];
+      break;
+    }
+  }
+
+  const warnings: string[] = [];
+  if (courseWork.associatedWithDeveloper === false) {
+    warnings.push(
+      `"${title}" was not created through this app's Google Cloud project. Classroom only accepts ` +
+      'turn in, reclaim and attachment changes from that project, so it will most likely refuse this one.'
+    );
+  }
+  if (action === 'turn_in' && courseWork.workType === 'ASSIGNMENT' && before.attachments.length === 0) {
+    warnings.push(`Nothing is attached to "${title}" yet.`);
+  }
+  return { before, after, changes, warnings };
+}
+
+// Google's answer when the coursework belongs to another Cloud project.
+export function isProjectPermissionError(error: unknown): boolean {
+  const api = classifyError(error);
+  return api.kind === 'permission_denied' && /ProjectPermissionDenied|Developer Console project/i.test(api.message);
+}
+
+export const PROJECT_PERMISSION_MESSAGE =
+  'Google Classroom only lets the Google Cloud project that created an assignment turn in, reclaim or ' +
+  'attach to its submissions. This assignment was created in Classroom itself (or by another app), ' +
+  'so make the change in the Classroom app instead.';
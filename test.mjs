@@ -1,9 +1,9 @@
 import { spawn } from 'child_process';
 import { createInterface } from 'readline';
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 
-// Parse .env
-const env = Object.fromEntries(
+// Parse .env if present; otherwise the server uses the credential store
+const env = !existsSync('.env') ? {} : Object.fromEntries(
   readFileSync('.env', 'utf8')
     .split('\n')
     .filter(l => l.trim() && !l.startsWith('#'))
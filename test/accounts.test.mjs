@@ -0,0 +1,104 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFixtures, dueDate } from './fixtures.mjs';
+import { startServerWithProfiles, callJson } from './helpers.mjs';
+
+// A second, smaller account: one active course with one upcoming and one
+// overdue assignment, nothing submitted.
+function personalFixtures(now = new Date()) {
+  const courseWork = (id, title, offsetDays) => ({
+    courseId: 'piano',
+    id,
+    title,
+    state: 'PUBLISHED',
+    workType: 'ASSIGNMENT',
+    maxPoints: 10,
+    dueDate: dueDate(now, offsetDays),
+    alternateLink: `https://classroom.google.com/c/piano/a/${id}`,
+  });
+  return {
+    userId: 'student-1',
+    courses: [{ id: 'piano', name: 'Piano', courseState: 'ACTIVE', ownerId: 'teacher-9' }],
+    courseWork: [courseWork('piano-scales', 'Scales', 2), courseWork('piano-recital', 'Recital Prep', -3)],
+    studentSubmissions: [],
+  };
+}
+
+describe('multiple accounts', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServerWithProfiles({ school: buildFixtures(), personal: personalFixtures() });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('list_accounts reports every profile and the default', async () => {
+    const data = await callJson(client, 'list_accounts');
+    assert.equal(data.defaultAccount, 'personal');
+    assert.deepEqual(
+      data.accounts.map((a) => [a.name, a.default, a.source]),
+      [['personal', true, 'fixtures'], ['school', false, 'fixtures']]
+    );
+  });
+
+  it('adds an account argument to every tool', async () => {
+    const { tools } = await client.listTools();
+    // list_accounts, auth_status and reload_config are not tied to one account.
+    for (const tool of tools.filter((t) => !['list_accounts', 'auth_status', 'reload_config'].includes(t.name))) {
+      assert.ok(tool.inputSchema.properties.account, `${tool.name} has no account argument`);
+    }
+  });
+
+  it('uses the default account when none is given', async () => {
+    const data = await callJson(client, 'list_courses');
+    assert.deepEqual(data.courses.map((c) => c.id), ['piano']);
+  });
+
+  it('runs a tool as the requested account', async () => {
+    const data = await callJson(client, 'list_courses', { account: 'school', courseStates: ['ACTIVE'] });
+    assert.deepEqual(data.courses.map((c) => c.id), ['bio', 'hist']);
+  });
+
+  it('merges mergeable tools across every account with account: "all"', async () => {
+    const missing = await callJson(client, 'get_missing_assignments', { account: 'all' });
+    assert.deepEqual(
+      missing.map((a) => `${a.account}/${a.assignmentId}`).sort(),
+      ['personal/piano-recital', 'school/bio-checkin', 'school/bio-essay', 'school/hist-reading']
+    );
+    // Merged results keep the single-account ordering: oldest deadline first.
+    const dueAts = missing.map((a) => Date.parse(a.dueAt));
+    assert.deepEqual(dueAts, [...dueAts].sort((x, y) => x - y));
+
+    const upcoming = await callJson(client, 'get_upcoming_assignments', { account: 'all' });
+    assert.ok(upcoming.some((a) => a.account === 'personal' && a.assignmentId === 'piano-scales'));
+    assert.ok(upcoming.some((a) => a.account === 'school'));
+
+    const grades = await callJson(client, 'get_grades', { account: 'all' });
+    assert.equal(grades.filter((g) => g.account === 'school').length, 9);
+  });
+
+  it('does not tag results for a single account', async () => {
+    const missing = await callJson(client, 'get_missing_assignments', { account: 'school' });
+    assert.ok(missing.length > 0);
+    assert.ok(missing.every((a) => !('account' in a)));
+  });
+
+  it('rejects an unknown account', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'list_courses', arguments: { account: 'work' } }),
+      /Unknown account "work"/
+    );
+  });
+
+  it('rejects account: "all" on tools that cannot merge', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'list_courses', arguments: { account: 'all' } }),
+      /only supported by/
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeTokenError, isInsufficientScopeError, missingScopes, setupAuthFlags } from '../dist/auth-status.js';
+import { GUARDIAN_SCOPE, SCOPES, TEACHER_SCOPE, WRITE_SCOPES } from '../dist/oauth.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer, startServerWithProfiles, callJson } from './helpers.mjs';
+
+const ANNOUNCEMENTS = 'https://www.googleapis.com/auth/classroom.announcements.readonly';
+
+describe('auth_status', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServerWithProfiles({
+      school: { ...buildFixtures(), email: 'student@school.example' },
+      limited: { ...buildFixtures(), grantedScopes: SCOPES.filter((s) => s !== ANNOUNCEMENTS) },
+    });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('reports who is signed in and which scopes are missing', async () => {
+    const status = await callJson(client, 'auth_status');
+    assert.equal(status.ok, false);
+    assert.deepEqual(status.requiredScopes, SCOPES);
+
+    const [limited, school] = status.accounts;
+    assert.equal(school.account, 'school');
+    assert.equal(school.ok, true);
+    assert.equal(school.email, 'student@school.example');
+    assert.deepEqual(school.missingScopes, []);
+
+    assert.equal(limited.account, 'limited');
+    assert.equal(limited.ok, false);
+    assert.deepEqual(limited.missingScopes, [ANNOUNCEMENTS]);
+  });
+
+  it('re-runs the checks on request', async () => {
+    const before = await callJson(client, 'auth_status');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const after = await callJson(client, 'auth_status', { refresh: true });
+    assert.ok(after.accounts[0].checkedAt > before.accounts[0].checkedAt);
+  });
+
+  it('names the missing scope and the fix when a tool needs it', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'list_announcements', arguments: { courseId: 'bio', account: 'limited' } }),
+      (error) => {
+        assert.match(error.message, /classroom\.announcements\.readonly/);
+        assert.match(error.message, /npm run setup-auth -- --profile limited/);
+        return true;
+      }
+    );
+  });
+
+  it('still runs tools whose scopes were granted', async () => {
+    const data = await callJson(client, 'list_courses', { account: 'limited' });
+    assert.ok(data.courses.length > 0);
+  });
+});
+
+describe('auth_status without credentials', () => {
+  it('explains how to sign in', async () => {
+    const server = await startServer(null);
+    try {
+      const status = await callJson(server.client, 'auth_status');
+      assert.equal(status.ok, false);
+      assert.deepEqual(status.accounts, []);
+      assert.match(status.hint, /setup-auth/);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('auth error helpers', () => {
+  it('lists required scopes that were not granted', () => {
+    assert.deepEqual(missingScopes(SCOPES.slice(1)), [SCOPES[0]]);
+    assert.deepEqual(missingScopes([...SCOPES, 'openid']), []);
+  });
+
+  it('recognizes Google insufficient-scope errors', () => {
+    assert.ok(isInsufficientScopeError({ code: 403, message: 'Request had insufficient authentication scopes.' }));
+    assert.ok(isInsufficientScopeError({ code: 403, message: 'Forbidden', errors: [{ reason: 'insufficientPermissions' }] }));
+    assert.ok(!isInsufficientScopeError({ code: 403, message: 'The caller does not have permission' }));
+    assert.ok(!isInsufficientScopeError({ code: 404, message: 'Request had insufficient authentication scopes.' }));
+  });
+
+  it('picks the setup-auth flags for missing optional scopes', () => {
+    const shared = TEACHER_SCOPE.submissions;
+    assert.deepEqual(setupAuthFlags(SCOPES), []);
+    assert.deepEqual(setupAuthFlags(WRITE_SCOPES), ['--write']);
+    assert.deepEqual(setupAuthFlags([shared], [TEACHER_SCOPE.rosters, shared]), ['--teacher']);
+    assert.deepEqual(setupAuthFlags([shared], [GUARDIAN_SCOPE.guardianLinks, shared]), ['--guardian']);
+  });
+
+  it('explains token endpoint failures', () => {
+    assert.match(describeTokenError({ response: { data: { error: 'invalid_grant' } } }), /expired or was revoked/);
+    assert.equal(describeTokenError(new Error('socket hang up')), 'socket hang up');
+  });
+});
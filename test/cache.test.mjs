@@ -0,0 +1,149 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedBackend, cacheOptionsFromEnv, withFreshData } from '../dist/cache.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer, callJson } from './helpers.mjs';
+
+const TTL = { courses: 1000, courseWork: 1000, submissions: 100, announcements: 1000, topics: 1000, materials: 1000 };
+
+// Counts calls and resolves each with a fresh object.
+function countingBackend() {
+  const calls = { listCourses: 0, listSubmissions: 0 };
+  return {
+    calls,
+    async listCourses() {
+      calls.listCourses++;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { items: [{ id: `c${calls.listCourses}` }], nextPageToken: null };
+    },
+    async listSubmissions() {
+      calls.listSubmissions++;
+      return { items: [], nextPageToken: null };
+    },
+  };
+}
+
+describe('response cache', () => {
+  it('serves repeat requests from the cache until the TTL passes', async () => {
+    let now = 0;
+    const inner = countingBackend();
+    const cache = new CachedBackend(inner, { enabled: true, persist: false, ttlMs: TTL }, 'test', () => now);
+
+    await cache.listSubmissions({ courseId: 'a', courseWorkId: '-', userId: 'me' });
+    await cache.listSubmissions({ courseId: 'a', courseWorkId: '-', userId: 'me' });
+    assert.equal(inner.calls.listSubmissions, 1);
+
+    await cache.listSubmissions({ courseId: 'b', courseWorkId: '-', userId: 'me' });
+    assert.equal(inner.calls.listSubmissions, 2);
+
+    now = 150;
+    await cache.listSubmissions({ courseId: 'a', courseWorkId: '-', userId: 'me' });
+    assert.equal(inner.calls.listSubmissions, 3);
+  });
+
+  it('shares one fetch between concurrent identical requests', async () => {
+    const inner = countingBackend();
+    const cache = new CachedBackend(inner, { enabled: true, persist: false, ttlMs: TTL }, 'test');
+    const [a, b] = await Promise.all([cache.listCourses({}), cache.listCourses({})]);
+    assert.equal(inner.calls.listCourses, 1);
+    assert.equal(a, b);
+  });
+
+  it('refetches and updates entries for fresh reads', async () => {
+    const inner = countingBackend();
+    const cache = new CachedBackend(inner, { enabled: true, persist: false, ttlMs: TTL }, 'test');
+    await cache.listCourses({});
+    const fresh = await withFreshData(() => cache.listCourses({}));
+    assert.deepEqual(fresh.items, [{ id: 'c2' }]);
+    assert.deepEqual((await cache.listCourses({})).items, [{ id: 'c2' }]);
+    assert.equal(inner.calls.listCourses, 2);
+  });
+
+  it('does not cache failures', async () => {
+    let fail = true;
+    const inner = {
+      async listCourses() {
+        if (fail) throw new Error('boom');
+        return { items: [], nextPageToken: null };
+      },
+    };
+    const cache = new CachedBackend(inner, { enabled: true, persist: false, ttlMs: TTL }, 'test');
+    await assert.rejects(cache.listCourses({}), /boom/);
+    fail = false;
+    assert.deepEqual((await cache.listCourses({})).items, []);
+  });
+
+  it('clear drops fetches in flight and the pending save', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'classroom-cache-'));
+    const saved = process.env.CLASSROOM_STATE_DIR;
+    process.env.CLASSROOM_STATE_DIR = dir;
+    try {
+      const inner = countingBackend();
+      const cache = new CachedBackend(inner, { enabled: true, persist: true, ttlMs: TTL }, 'test');
+      const pending = cache.listCourses({});
+      cache.clear();
+      await pending;
+      await cache.listCourses({});
+      assert.equal(inner.calls.listCourses, 2, 'the cleared fetch was not stored');
+      cache.clear();
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      assert.ok(!fs.existsSync(path.join(dir, 'cache', 'test.json')), 'no save after clear');
+    } finally {
+      if (saved === undefined) delete process.env.CLASSROOM_STATE_DIR;
+      else process.env.CLASSROOM_STATE_DIR = saved;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does not persist while the credentials are encrypted', () => {
+    const saved = { ...process.env };
+    Object.assign(process.env, { CLASSROOM_CACHE_PERSIST: '1', CLASSROOM_CREDENTIALS_PASSPHRASE: 'secret' });
+    try {
+      assert.equal(cacheOptionsFromEnv().persist, false);
+      delete process.env.CLASSROOM_CREDENTIALS_PASSPHRASE;
+      assert.equal(cacheOptionsFromEnv().persist, true);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('cached tools', () => {
+  let server;
+  let client;
+  let fixtures;
+
+  before(async () => {
+    fixtures = buildFixtures();
+    server = await startServer(fixtures, { CLASSROOM_CACHE: 'on' });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('keep answering from the cache, refresh on request, and clear_cache empties it', async () => {
+    const before = await callJson(client, 'list_courses');
+    server.updateFixtures({ ...fixtures, courses: fixtures.courses.slice(0, 1) });
+
+    assert.deepEqual(await callJson(client, 'list_courses'), before);
+
+    const fresh = await callJson(client, 'list_courses', { refresh: true });
+    assert.deepEqual(fresh.courses.map((c) => c.id), ['bio']);
+
+    server.updateFixtures(fixtures);
+    const cleared = await callJson(client, 'clear_cache');
+    assert.equal(cleared.cleared[0].account, 'default');
+    assert.ok(cleared.cleared[0].entries > 0);
+    assert.equal((await callJson(client, 'list_courses')).courses.length, 3);
+  });
+
+  it('advertise a refresh argument', async () => {
+    const { tools } = await client.listTools();
+    assert.ok(tools.find((t) => t.name === 'get_grades').inputSchema.properties.refresh);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildCalendar, escapeText, foldLine } from '../dist/calendar.js';
+import { buildFixtures, dueDate } from './fixtures.mjs';
+import { startServer } from './helpers.mjs';
+
+const unfold = (ics) => ics.replace(/\r\n /g, '');
+const eventsOf = (ics) => unfold(ics).split('BEGIN:VEVENT').slice(1);
+const uidsOf = (ics) => eventsOf(ics).map((e) => /UID:coursework-([^@]+)@/.exec(e)[1]);
+
+describe('iCalendar formatting', () => {
+  it('escapes text values', () => {
+    assert.equal(escapeText('Read ch. 1, 2; notes\\n\nthen quiz'), 'Read ch. 1\\, 2\\; notes\\\\n\\nthen quiz');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    for (const part of folded.split('\r\n')) {
+      assert.ok(Buffer.byteLength(part) <= 75);
+    }
+    assert.equal(folded.replace(/\r\n /g, ''), line);
+  });
+
+  it('writes date-only deadlines as all-day events', () => {
+    const ics = buildCalendar([{
+      courseId: 'c',
+      courseName: 'Chem',
+      assignmentId: 'a1',
+      title: 'Lab',
+      description: null,
+      due: Date.UTC(2024, 2, 1, 23, 59, 59),
+      dueDate: '2024-03-01',
+      hasDueTime: false,
+      alternateLink: null,
+      updateTime: null,
+    }], { reminderMinutes: [30], now: Date.UTC(2024, 1, 1) });
+    assert.match(ics, /DTSTART;VALUE=DATE:20240301\r\nDTEND;VALUE=DATE:20240302\r\n/);
+    assert.match(ics, /DTSTAMP:20240201T000000Z\r\n/);
+    assert.match(ics, /TRIGGER;RELATED=END:-PT30M\r\n/);
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  });
+});
+
+describe('export_calendar', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    const fixtures = buildFixtures();
+    fixtures.courseWork.push({
+      courseId: 'art',
+      id: 'art-sketch',
+      title: 'Sketchbook',
+      state: 'PUBLISHED',
+      dueDate: dueDate(new Date(), 4),
+    });
+    server = await startServer(fixtures);
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const exportCalendar = async (args = {}) => {
+    const result = await client.callTool({ name: 'export_calendar', arguments: args });
+    return result.content[0].text;
+  };
+
+  it('exports every dated assignment in active courses', async () => {
+    const ics = await exportCalendar();
+    assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:'));
+    const uids = uidsOf(ics);
+    assert.ok(uids.includes('bio-quiz'));
+    assert.ok(uids.includes('hist-dbq'));
+    assert.ok(!uids.includes('hist-journal'), 'no due date');
+    assert.ok(!uids.includes('art-sketch'), 'archived course');
+
+    const quiz = eventsOf(ics).find((e) => e.includes('UID:coursework-bio-quiz@'));
+    assert.match(quiz, /SUMMARY:Biology: Quiz 1\r\n/);
+    assert.match(quiz, /URL:https:\/\/classroom.google.com\/c\/bio\/a\/bio-quiz\r\n/);
+    assert.match(quiz, /DTSTART;VALUE=DATE:\d{8}\r\n/);
+
+    const prelab = eventsOf(ics).find((e) => e.includes('UID:coursework-bio-prelab@'));
+    assert.match(prelab, /DTSTART:\d{8}T\d{6}Z\r\n/);
+  });
+
+  it('keeps UIDs stable between exports', async () => {
+    assert.deepEqual(uidsOf(await exportCalendar()), uidsOf(await exportCalendar()));
+  });
+
+  it('filters by course, date range and turned-in work', async () => {
+    const histOnly = uidsOf(await exportCalendar({ courseIds: ['hist'] }));
+    assert.ok(histOnly.length > 0 && histOnly.every((id) => id.startsWith('hist-')));
+
+    const archived = uidsOf(await exportCalendar({ courseIds: ['art'] }));
+    assert.deepEqual(archived, ['art-sketch']);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const future = uidsOf(await exportCalendar({ from: today }));
+    assert.ok(!future.includes('bio-essay'));
+    assert.ok(future.includes('bio-quiz'));
+
+    const all = uidsOf(await exportCalendar());
+    const pending = uidsOf(await exportCalendar({ excludeTurnedIn: true }));
+    assert.ok(all.includes('bio-worksheet'));
+    assert.ok(!pending.includes('bio-worksheet'));
+    assert.ok(!pending.includes('bio-lab1'), 'returned');
+  });
+
+  it('exports the named courses it can read and reports the rest', async () => {
+    const result = await client.callTool({ name: 'export_calendar', arguments: { courseIds: ['hist', 'missing-course'] } });
+    assert.ok(uidsOf(result.content[0].text).every((id) => id.startsWith('hist-')));
+    const report = JSON.parse(result.content[1].text);
+    assert.deepEqual(report.failedCourses.map((f) => [f.courseId, f.status]), [['missing-course', 404]]);
+  });
+
+  it('adds reminders', async () => {
+    const ics = await exportCalendar({ courseIds: ['bio'], reminderMinutes: [1440, 60] });
+    const quiz = eventsOf(ics).find((e) => e.includes('UID:coursework-bio-quiz@'));
+    assert.equal(quiz.split('BEGIN:VALARM').length - 1, 2);
+    assert.match(quiz, /TRIGGER;RELATED=END:-PT1440M\r\n/);
+  });
+
+  it('writes the feed to a file', async () => {
+    const outputPath = path.join(server.dir, 'out', 'deadlines.ics');
+    const result = JSON.parse(await exportCalendar({ outputPath }));
+    assert.equal(result.path, outputPath);
+    const ics = fs.readFileSync(outputPath, 'utf8');
+    assert.equal(eventsOf(ics).length, result.events);
+  });
+
+  it('rejects malformed dates', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'export_calendar', arguments: { from: 'next week' } }),
+      /Invalid from date/
+    );
+  });
+
+  it('serves the feed as resources', async () => {
+    const { resources } = await client.listResources();
+    const calendar = resources.find((r) => r.uri === 'classroom://calendar');
+    assert.equal(calendar.mimeType, 'text/calendar');
+
+    const all = await client.readResource({ uri: 'classroom://calendar' });
+    assert.equal(all.contents[0].mimeType, 'text/calendar');
+    assert.ok(uidsOf(all.contents[0].text).includes('hist-dbq'));
+
+    const bio = await client.readResource({ uri: 'classroom://courses/bio/calendar' });
+    assert.ok(uidsOf(bio.contents[0].text).every((id) => id.startsWith('bio-')));
+    assert.match(bio.contents[0].text, /X-WR-CALNAME:Biology\r\n/);
+  });
+});
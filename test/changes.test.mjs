@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFixtures, dueDate } from './fixtures.mjs';
+import { startServer, callJson } from './helpers.mjs';
+
+describe('get_changes_since', () => {
+  let server;
+  let client;
+  let fixtures;
+
+  before(async () => {
+    fixtures = buildFixtures();
+    server = await startServer(fixtures);
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('saves a baseline on the first call', async () => {
+    const result = await callJson(client, 'get_changes_since');
+    assert.equal(result.firstRun, true);
+    assert.equal(result.mode, 'snapshot');
+  });
+
+  it('reports what changed since the previous call', async () => {
+    fixtures.announcements.push({ courseId: 'bio', id: 'ann-new', text: 'Bring a calculator', state: 'PUBLISHED' });
+    fixtures.courseWork.push({ courseId: 'hist', id: 'hist-new', title: 'Primary Sources', state: 'PUBLISHED', maxPoints: 15 });
+    fixtures.courseWork.find((cw) => cw.id === 'bio-quiz').dueDate = dueDate(new Date(), 5);
+    const essay = fixtures.studentSubmissions.find((s) => s.courseWorkId === 'bio-essay');
+    essay.state = 'RETURNED';
+    essay.assignedGrade = 88;
+    server.updateFixtures(fixtures);
+
+    const result = await callJson(client, 'get_changes_since');
+    assert.equal(result.firstRun, undefined);
+    assert.deepEqual(result.newAnnouncements.map((a) => a.announcementId), ['ann-new']);
+    assert.deepEqual(result.newAssignments.map((a) => a.assignmentId), ['hist-new']);
+    assert.deepEqual(result.dueDateChanges.map((a) => a.assignmentId), ['bio-quiz']);
+    assert.ok(result.dueDateChanges[0].previousDueAt < result.dueDateChanges[0].dueAt);
+    assert.deepEqual(
+      result.grades.map((g) => [g.assignmentId, g.previousGrade, g.assignedGrade]),
+      [['bio-essay', null, 88]]
+    );
+    assert.deepEqual(
+      result.stateChanges.map((c) => [c.assignmentId, c.from, c.to]),
+      [['bio-essay', 'CREATED', 'RETURNED']]
+    );
+  });
+
+  it('reports nothing when nothing changed', async () => {
+    const result = await callJson(client, 'get_changes_since');
+    assert.ok(Object.values(result.summary).every((count) => count === 0));
+  });
+
+  it('uses Classroom timestamps when given since', async () => {
+    const lab = fixtures.studentSubmissions.find((s) => s.courseWorkId === 'bio-lab1' && s.userId === 'student-1');
+    lab.submissionHistory = [
+      { stateHistory: { state: 'CREATED', stateTimestamp: '2024-01-10T00:00:00Z' } },
+      { stateHistory: { state: 'TURNED_IN', stateTimestamp: '2024-01-20T00:00:00Z' } },
+      { gradeHistory: { gradeChangeType: 'ASSIGNED_GRADE_POINTS_EARNED_CHANGE', pointsEarned: 8, maxPoints: 10, gradeTimestamp: '2024-02-05T00:00:00Z' } },
+      { stateHistory: { state: 'RETURNED', stateTimestamp: '2024-02-05T00:00:00Z' } },
+    ];
+    server.updateFixtures(fixtures);
+
+    const result = await callJson(client, 'get_changes_since', { since: '2024-02-02T00:00:00Z', courseId: 'bio' });
+    assert.equal(result.mode, 'timestamp');
+    assert.deepEqual(result.newAnnouncements.map((a) => a.announcementId), ['ann-2']);
+    assert.deepEqual(result.grades.map((g) => [g.assignmentId, g.assignedGrade]), [['bio-lab1', 8]]);
+    assert.deepEqual(result.stateChanges.map((c) => [c.from, c.to]), [['TURNED_IN', 'RETURNED']]);
+  });
+
+  it('keeps the snapshot through since checks and reports removed grades', async () => {
+    const essay = fixtures.studentSubmissions.find((s) => s.courseWorkId === 'bio-essay');
+    delete essay.assignedGrade;
+    server.updateFixtures(fixtures);
+
+    await callJson(client, 'get_changes_since', { since: '2024-02-02T00:00:00Z' });
+    const result = await callJson(client, 'get_changes_since');
+    assert.equal(result.mode, 'snapshot');
+    assert.deepEqual(
+      result.grades.map((g) => [g.assignmentId, g.previousGrade, g.assignedGrade]),
+      [['bio-essay', 88, null]]
+    );
+  });
+
+  it('rejects an invalid timestamp', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'get_changes_since', arguments: { since: 'last tuesday' } }),
+      /Invalid since timestamp/
+    );
+  });
+});
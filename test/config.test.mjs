@@ -0,0 +1,162 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { arrangeCourses, ConfigError, DEFAULT_CONFIG, loadConfig } from '../dist/config.js';
+import { GRADE_SCALES, letterGrade } from '../dist/grading.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startServer, waitFor } from './helpers.mjs';
+
+function writeConfig(file, config) {
+  fs.writeFileSync(file, typeof config === 'string' ? config : JSON.stringify(config));
+}
+
+describe('loadConfig', () => {
+  let dir;
+  let file;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'classroom-config-'));
+    file = path.join(dir, 'config.json');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('falls back to the defaults without a file', () => {
+    assert.deepEqual(loadConfig(path.join(dir, 'missing.json')), { config: DEFAULT_CONFIG, found: false });
+  });
+
+  it('reads settings and expands named grade scales', () => {
+    writeConfig(file, { lookaheadDays: 14, gradeScale: 'letter', toolGroups: { calendar: false } });
+    const { config, found } = loadConfig(file);
+    assert.equal(found, true);
+    assert.equal(config.lookaheadDays, 14);
+    assert.deepEqual(config.gradeScale, GRADE_SCALES.letter);
+    assert.deepEqual(config.toolGroups, { calendar: false });
+    assert.deepEqual(config.hiddenCourses, []);
+  });
+
+  it('names the mistake in an invalid file', () => {
+    const rejects = (config, pattern) => {
+      writeConfig(file, config);
+      assert.throws(() => loadConfig(file), (error) => error instanceof ConfigError && pattern.test(error.message));
+    };
+    rejects('{ "timezone": ', /not valid JSON/);
+    rejects({ hiddenCourse: ['Homeroom'] }, /unknown setting "hiddenCourse"/);
+    rejects({ toolGroups: { calender: false } }, /unknown tool group "calender"/);
+    rejects({ lookaheadDays: 0 }, /: lookaheadDays must be >= 1/);
+    rejects({ format: 'xml' }, /: format must be equal to one of the allowed values/);
+    rejects({ timezone: 'Mars/Olympus' }, /unknown timezone "Mars\/Olympus"/);
+  });
+});
+
+describe('course settings', () => {
+  it('hides and pins courses by ID or name', () => {
+    const courses = [
+      { id: 'a', name: 'Homeroom' },
+      { id: 'b', name: 'Biology', section: 'Period 2' },
+      { id: 'c', name: 'Chess Club' },
+    ];
+    const config = { ...DEFAULT_CONFIG, hiddenCourses: ['homeroom'], pinnedCourses: ['c', 'Biology Period 2'] };
+    assert.deepEqual(arrangeCourses(courses, config).map((c) => c.id), ['b', 'c']);
+    assert.deepEqual(arrangeCourses(courses, config, true).map((c) => c.id), ['b', 'c', 'a']);
+  });
+
+  it('maps percentages to letter grades', () => {
+    assert.equal(letterGrade(91.2, GRADE_SCALES.letter), 'A');
+    assert.equal(letterGrade(89.9, GRADE_SCALES['letter-plus-minus']), 'B+');
+    assert.equal(letterGrade(null, GRADE_SCALES.letter), null);
+    assert.equal(letterGrade(40, [{ grade: 'Pass', min: 50 }]), null);
+  });
+});
+
+describe('config file', () => {
+  let dir;
+  let file;
+  let server;
+  let client;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'classroom-config-'));
+    file = path.join(dir, 'config.json');
+    writeConfig(file, {
+      hiddenCourses: ['History'],
+      pinnedCourses: ['art'],
+      nicknames: { bb: 'bio' },
+      timezone: 'America/Chicago',
+      lookaheadDays: 30,
+      gradeScale: 'letter',
+      toolGroups: { calendar: false },
+    });
+    server = await startServer(buildFixtures(), { CLASSROOM_CONFIG_FILE: file });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('hides and pins courses', async () => {
+    const { courses } = await callJson(client, 'list_courses');
+    assert.deepEqual(courses.map((c) => c.id), ['art', 'bio']);
+    const all = await callJson(client, 'list_courses', { includeHidden: true });
+    assert.deepEqual(all.courses.map((c) => c.id), ['art', 'bio', 'hist']);
+
+    const { grades } = (await client.callTool({ name: 'get_grades', arguments: {} })).structuredContent;
+    assert.ok(grades.length > 0);
+    assert.ok(grades.every((g) => g.courseId === 'bio'));
+  });
+
+  it('applies the default lookahead and timezone', async () => {
+    const { assignments } = (await client.callTool({ name: 'get_upcoming_assignments', arguments: {} })).structuredContent;
+    const ids = assignments.map((a) => a.assignmentId);
+    assert.ok(ids.includes('bio-project'), 'due in 20 days, inside the 30-day lookahead');
+    assert.ok(!ids.includes('hist-dbq'), 'History is hidden');
+    assert.ok(assignments.every((a) => /-0[56]:00$/.test(a.dueAt)));
+  });
+
+  it('adds letter grades and resolves nicknames', async () => {
+    const grade = await callJson(client, 'calculate_grade', { course: 'bb' });
+    assert.equal(grade.courseId, 'bio');
+    assert.equal(grade.letterGrade, letterGrade(grade.overallPercentage, GRADE_SCALES.letter));
+  });
+
+  it('leaves out disabled tool groups', async () => {
+    const { tools } = await client.listTools();
+    assert.ok(!tools.some((t) => t.name === 'export_calendar'));
+    await assert.rejects(
+      client.callTool({ name: 'export_calendar', arguments: {} }),
+      /export_calendar is disabled by toolGroups\.calendar in .*config\.json/
+    );
+  });
+
+  it('reloads the file and announces new tools', async () => {
+    let listChanged = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    writeConfig(file, { toolGroups: { write: true } });
+    const reloaded = await callJson(client, 'reload_config');
+    assert.equal(reloaded.path, file);
+    assert.equal(reloaded.toolGroups.calendar, true);
+    assert.equal(reloaded.toolGroups.write, true);
+    assert.deepEqual(reloaded.toolsAdded.sort(), ['add_submission_link', 'export_calendar', 'reclaim_submission', 'turn_in_submission']);
+    await waitFor(() => listChanged === 1);
+
+    const { courses } = await callJson(client, 'list_courses', { courseStates: ['ACTIVE'] });
+    assert.deepEqual(courses.map((c) => c.id), ['bio', 'hist']);
+  });
+
+  it('keeps the current settings when the file is broken', async () => {
+    writeConfig(file, '{ "lookaheadDays": ');
+    await assert.rejects(client.callTool({ name: 'reload_config', arguments: {} }), /not valid JSON.*Kept the previous settings/);
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((t) => t.name === 'turn_in_submission'));
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  credentialsPath,
+  findLegacyCredentials,
+  loadCredentials,
+  migrateLegacyCredentials,
+  saveCredentials,
+  updateTokens,
+} from '../dist/credential-store.js';
+
+const CREDENTIALS = {
+  clientId: 'client-123.apps.googleusercontent.com',
+  clientSecret: 'shh',
+  refreshToken: '1//refresh',
+  accessToken: 'ya29.access',
+  expiryDate: 1700000000000,
+  scope: 'https://www.googleapis.com/auth/classroom.courses.readonly',
+};
+
+describe('credential store', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'classroom-mcp-creds-'));
+    process.env.CLASSROOM_CONFIG_DIR = path.join(dir, 'config');
+  });
+
+  afterEach(() => {
+    delete process.env.CLASSROOM_CONFIG_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores credentials under the config dir with private permissions', () => {
+    const file = saveCredentials(CREDENTIALS, 'default', undefined);
+    assert.equal(file, path.join(dir, 'config', 'credentials', 'default.json'));
+    if (process.platform !== 'win32') {
+      assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    }
+    assert.deepEqual(loadCredentials('default', undefined), CREDENTIALS);
+  });
+
+  it('returns null when nothing is stored', () => {
+    assert.equal(loadCredentials('default', undefined), null);
+  });
+
+  it('refuses files other users can read', { skip: process.platform === 'win32' }, () => {
+    const file = saveCredentials(CREDENTIALS, 'default', undefined);
+    fs.chmodSync(file, 0o644);
+    assert.throws(() => loadCredentials('default', undefined), /chmod 600/);
+  });
+
+  it('encrypts secrets with a passphrase', () => {
+    const file = saveCredentials(CREDENTIALS, 'default', 'correct horse');
+    const raw = fs.readFileSync(file, 'utf8');
+    assert.ok(!raw.includes(CREDENTIALS.refreshToken));
+    assert.ok(!raw.includes(CREDENTIALS.clientSecret));
+    assert.ok(raw.includes(CREDENTIALS.clientId));
+
+    assert.deepEqual(loadCredentials('default', 'correct horse'), CREDENTIALS);
+    assert.throws(() => loadCredentials('default', 'wrong'), /Could not decrypt/);
+    assert.throws(() => loadCredentials('default', undefined), /CLASSROOM_CREDENTIALS_PASSPHRASE/);
+  });
+
+  it('persists refreshed tokens and keeps the refresh token unless rotated', () => {
+    saveCredentials(CREDENTIALS, 'default', 'pw');
+    updateTokens({ access_token: 'ya29.new', expiry_date: 1800000000000 }, 'default', 'pw');
+    let stored = loadCredentials('default', 'pw');
+    assert.equal(stored.accessToken, 'ya29.new');
+    assert.equal(stored.expiryDate, 1800000000000);
+    assert.equal(stored.refreshToken, CREDENTIALS.refreshToken);
+
+    updateTokens({ refresh_token: '1//rotated' }, 'default', 'pw');
+    stored = loadCredentials('default', 'pw');
+    assert.equal(stored.refreshToken, '1//rotated');
+  });
+
+  describe('legacy layouts', () => {
+    it('reads a .env written by older setup-auth', () => {
+      fs.writeFileSync(path.join(dir, '.env'), [
+        '# Google Classroom MCP Server Environment Variables',
+        'GOOGLE_CLIENT_ID="client-123"',
+        'GOOGLE_CLIENT_SECRET="shh"',
+        'GOOGLE_REDIRECT_URI="urn:ietf:wg:oauth:2.0:oob"',
+        'GOOGLE_REFRESH_TOKEN="1//from-env"',
+      ].join('\n'));
+      const legacy = findLegacyCredentials(dir);
+      assert.equal(legacy.source, path.join(dir, '.env'));
+      assert.deepEqual(legacy.credentials, { clientId: 'client-123', clientSecret: 'shh', refreshToken: '1//from-env' });
+    });
+
+    it('reads tokens.json next to credentials.json', () => {
+      fs.writeFileSync(path.join(dir, 'credentials.json'), JSON.stringify({ installed: { client_id: 'client-456', client_secret: 'shh' } }));
+      fs.writeFileSync(path.join(dir, 'tokens.json'), JSON.stringify({ refresh_token: '1//from-json', access_token: 'ya29', expiry_date: 5 }));
+      const legacy = findLegacyCredentials(dir);
+      assert.equal(legacy.credentials.clientId, 'client-456');
+      assert.equal(legacy.credentials.refreshToken, '1//from-json');
+      assert.equal(legacy.credentials.expiryDate, 5);
+    });
+
+    it('migrates once and never overwrites the store', () => {
+      fs.writeFileSync(path.join(dir, '.env'), 'GOOGLE_CLIENT_ID="client-123"\nGOOGLE_REFRESH_TOKEN="1//from-env"\n');
+      assert.equal(migrateLegacyCredentials(dir, 'default', undefined), path.join(dir, '.env'));
+      assert.ok(fs.existsSync(credentialsPath('default')));
+      assert.equal(loadCredentials('default', undefined).refreshToken, '1//from-env');
+
+      fs.writeFileSync(path.join(dir, '.env'), 'GOOGLE_CLIENT_ID="client-123"\nGOOGLE_REFRESH_TOKEN="1//newer"\n');
+      assert.equal(migrateLegacyCredentials(dir, 'default', undefined), null);
+      assert.equal(loadCredentials('default', undefined).refreshToken, '1//from-env');
+    });
+  });
+});
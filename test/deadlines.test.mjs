@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deadlineFields, describeDueIn, dueInstant } from '../dist/deadlines.js';
+
+describe('deadlines', () => {
+  it('treats dueDate and dueTime as UTC', () => {
+    const instant = dueInstant({ dueDate: { year: 2024, month: 3, day: 2 }, dueTime: { hours: 3, minutes: 30 } }, 'UTC');
+    assert.equal(new Date(instant).toISOString(), '2024-03-02T03:30:00.000Z');
+  });
+
+  it('shifts the calendar day into the display timezone', () => {
+    const fields = deadlineFields(
+      { dueDate: { year: 2024, month: 3, day: 2 }, dueTime: { hours: 3, minutes: 30 } },
+      'America/New_York',
+      Date.UTC(2024, 2, 1, 12)
+    );
+    assert.equal(fields.dueDate, '2024-03-01');
+    assert.equal(fields.dueTime, '22:30');
+    assert.equal(fields.dueAt, '2024-03-01T22:30:00-05:00');
+    assert.equal(fields.dueIn, 'due in 16 hours');
+  });
+
+  it('puts date-only deadlines at the end of the local day', () => {
+    const fields = deadlineFields({ dueDate: { year: 2024, month: 7, day: 4 } }, 'America/Los_Angeles', Date.UTC(2024, 6, 1));
+    assert.equal(fields.dueAt, '2024-07-04T23:59:59-07:00');
+    assert.equal(fields.hasDueTime, false);
+  });
+
+  it('returns null without a due date', () => {
+    assert.equal(deadlineFields({}, 'UTC'), null);
+  });
+
+  it('describes overdue work', () => {
+    assert.equal(describeDueIn(0, 3 * 24 * 60 * 60 * 1000), 'overdue by 3 days');
+    assert.equal(describeDueIn(60 * 1000, 0), 'due in 1 minute');
+  });
+});
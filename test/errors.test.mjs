@@ -0,0 +1,100 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, FailureLog, parseRetryAfter, toMcpError } from '../dist/errors.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer, callJson } from './helpers.mjs';
+
+describe('Google API error classification', () => {
+  it('reads the status wherever googleapis put it', () => {
+    assert.equal(classifyError({ code: 403, message: 'nope' }).kind, 'permission_denied');
+    assert.equal(classifyError({ code: '404', message: 'gone' }).kind, 'not_found');
+    assert.equal(classifyError({ response: { status: 429 }, message: 'slow down' }).kind, 'rate_limited');
+    assert.equal(classifyError({ status: 503 }).kind, 'unavailable');
+    assert.equal(classifyError({ code: 'ECONNRESET', message: 'socket hang up' }).kind, 'network');
+    assert.equal(classifyError(new Error('boom')).kind, 'unknown');
+  });
+
+  it('keeps Retry-After from the response', () => {
+    const error = classifyError({ response: { status: 429, headers: { 'retry-after': '7' } }, message: 'quota' });
+    assert.equal(error.retryAfterMs, 7000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2099 00:00:10 GMT', Date.parse('Thu, 01 Jan 2099 00:00:00 GMT')), 10000);
+    assert.equal(parseRetryAfter('soon'), null);
+  });
+
+  it('maps statuses to MCP error codes', () => {
+    assert.equal(toMcpError({ code: 400, message: 'bad' }).code, -32602);
+    assert.equal(toMcpError({ code: 404, message: 'missing' }).code, -32602);
+    assert.equal(toMcpError({ code: 401, message: 'expired' }).code, -32600);
+    assert.equal(toMcpError({ code: 403, message: 'denied' }).code, -32600);
+    assert.equal(toMcpError({ code: 500, message: 'oops' }).code, -32603);
+    assert.match(toMcpError({ code: 429, message: 'quota' }).message, /rate limit/);
+  });
+
+  it('reports nothing when no course failed', () => {
+    const failures = new FailureLog();
+    assert.equal(failures.report(), null);
+    failures.course({ id: 'c1', name: 'Chemistry' }, { code: 403, message: 'denied' }, { account: 'school' });
+    assert.deepEqual(failures.report().failedCourses, [
+      { account: 'school', courseId: 'c1', courseName: 'Chemistry', kind: 'permission_denied', status: 403, message: 'denied' },
+    ]);
+    assert.match(failures.report().warnings[0], /Chemistry \(c1\) in account "school": permission denied \(403\)/);
+  });
+});
+
+describe('tools when a course fails', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer({
+      ...buildFixtures(),
+      courseErrors: { hist: { code: 403, message: 'The caller does not have permission' } },
+    });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('returns partial results with the skipped course explained', async () => {
+    const result = await client.callTool({ name: 'get_grades', arguments: {} });
+    const grades = JSON.parse(result.content[0].text);
+    assert.ok(grades.length > 0);
+    assert.ok(grades.every((g) => g.courseId === 'bio'));
+
+    const report = JSON.parse(result.content[1].text);
+    assert.deepEqual(report.failedCourses.map((f) => [f.courseId, f.kind, f.status]), [['hist', 'permission_denied', 403]]);
+    assert.match(report.warnings[0], /Skipped History \(hist\): permission denied \(403\)/);
+  });
+
+  it('reports skipped courses in the change digest', async () => {
+    const data = await callJson(client, 'get_changes_since', { since: '2020-01-01T00:00:00Z' });
+    assert.deepEqual(data.failedCourses.map((f) => f.courseId), ['hist']);
+  });
+
+  it('omits the report when nothing failed', async () => {
+    const result = await client.callTool({ name: 'get_upcoming_assignments', arguments: { days: 0 } });
+    assert.equal(result.content.length, 2);
+    const ok = await startServer(buildFixtures());
+    try {
+      const clean = await ok.client.callTool({ name: 'get_grades', arguments: {} });
+      assert.equal(clean.content.length, 1);
+    } finally {
+      await ok.close();
+    }
+  });
+
+  it('maps a single-course failure to a specific MCP error', async () => {
+    await assert.rejects(client.callTool({ name: 'get_course', arguments: { courseId: 'hist' } }), (error) => {
+      assert.equal(error.code, -32600);
+      assert.match(error.message, /Permission denied \(403\): The caller does not have permission/);
+      return true;
+    });
+    await assert.rejects(client.callTool({ name: 'get_course', arguments: { courseId: 'nope' } }), (error) => {
+      assert.equal(error.code, -32602);
+      assert.match(error.message, /Not found \(404\)/);
+      return true;
+    });
+  });
+});
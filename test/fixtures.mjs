@@ -0,0 +1,141 @@
+// Builds a fixture set for FakeClassroomBackend with due dates relative to
+// `now`, so upcoming/missing logic stays meaningful whenever the suite runs.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Classroom due dates are UTC calendar dates.
+export function dueDate(now, offsetDays) {
+  const d = new Date(now.getTime() + offsetDays * DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+// dueDate + dueTime for a deadline `offsetHours` from now.
+export function dueAt(now, offsetHours) {
+  const d = new Date(now.getTime() + offsetHours * HOUR);
+  return {
+    dueDate: { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() },
+    dueTime: { hours: d.getUTCHours(), minutes: d.getUTCMinutes() },
+  };
+}
+
+const TESTS = { id: 'cat-tests', name: 'Tests', weight: 600000 };
+const HOMEWORK = { id: 'cat-hw', name: 'Homework', weight: 400000 };
+
+export function buildFixtures(now = new Date()) {
+  const courseWork = (courseId, id, title, maxPoints, offsetDays, extra = {}) => ({
+    courseId,
+    id,
+    title,
+    state: 'PUBLISHED',
+    workType: 'ASSIGNMENT',
+    maxPoints,
+    ...(offsetDays == null ? {} : { dueDate: dueDate(now, offsetDays) }),
+    alternateLink: `https://classroom.google.com/c/${courseId}/a/${id}`,
+    creationTime: '2024-01-01T00:00:00Z',
+    ...extra,
+  });
+
+  const submission = (courseId, courseWorkId, state, extra = {}) => ({
+    courseId,
+    courseWorkId,
+    id: `sub-${courseWorkId}`,
+    userId: 'student-1',
+    state,
+    alternateLink: `https://classroom.google.com/c/${courseId}/a/${courseWorkId}/submissions`,
+    ...extra,
+  });
+
+  return {
+    userId: 'student-1',
+    pageSize: 2,
+    courses: [
+      { id: 'bio', name: 'Biology', section: 'Period 2', courseState: 'ACTIVE', ownerId: 'teacher-1' },
+      {
+        id: 'hist',
+        name: 'History',
+        section: 'Period 4',
+        courseState: 'ACTIVE',
+        ownerId: 'teacher-2',
+        gradebookSettings: {
+          calculationType: 'WEIGHTED_CATEGORIES',
+          gradeCategories: [
+            { id: 'cat-tests', name: 'Tests', weight: 600000 },
+            { id: 'cat-hw', name: 'Homework', weight: 400000 },
+          ],
+        },
+      },
+      { id: 'art', name: 'Art (2023)', courseState: 'ARCHIVED', ownerId: 'teacher-1' },
+    ],
+    courseWork: [
+      courseWork('bio', 'bio-lab1', 'Lab 1', 10, -10, { topicId: 'topic-cells' }),
+      courseWork('bio', 'bio-essay', 'Cell Essay', 100, -5),
+      courseWork('bio', 'bio-quiz', 'Quiz 1', 20, 3, {
+        topicId: 'topic-cells',
+        materials: [
+          { driveFile: { driveFile: { title: 'Study Guide', alternateLink: 'https://drive.google.com/guide' }, shareMode: 'VIEW' } },
+          { link: { title: 'Khan Academy', url: 'https://khanacademy.org/cells' } },
+          { youTubeVideo: { title: 'Mitosis', alternateLink: 'https://youtube.com/watch?v=abc', thumbnailUrl: 'https://img/abc.jpg' } },
+          { form: { title: 'Practice Quiz', formUrl: 'https://forms.google.com/f', responseUrl: 'https://forms.google.com/r' } },
+        ],
+      }),
+      courseWork('bio', 'bio-project', 'Final Project', 50, 20, { topicId: 'topic-genetics' }),
+      courseWork('bio', 'bio-worksheet', 'Worksheet', 10, -3),
+      courseWork('bio', 'bio-draft', 'Unpublished Draft', 10, 2, { state: 'DRAFT' }),
+      courseWork('bio', 'bio-prelab', 'Pre-lab Questions', 5, null, dueAt(now, 2)),
+      courseWork('bio', 'bio-checkin', 'Morning Check-in', 1, null, dueAt(now, -2)),
+      courseWork('hist', 'hist-reading', 'Chapter 3 Reading', 20, -2, { gradeCategory: HOMEWORK }),
+      courseWork('hist', 'hist-test', 'Unit Test', 100, -8, { gradeCategory: TESTS }),
+      courseWork('hist', 'hist-dbq', 'DBQ Essay', 40, 1, { gradeCategory: HOMEWORK }),
+      courseWork('hist', 'hist-hw1', 'Homework 1', 10, -12, { gradeCategory: HOMEWORK }),
+      courseWork('hist', 'hist-hw2', 'Homework 2', 10, -11, { gradeCategory: HOMEWORK }),
+      courseWork('hist', 'hist-map', 'Map Activity', 10, -9),
+      courseWork('hist', 'hist-journal', 'Journal', null, null),
+    ],
+    studentSubmissions: [
+      submission('bio', 'bio-lab1', 'RETURNED', { assignedGrade: 8 }),
+      submission('bio', 'bio-essay', 'CREATED'),
+      submission('bio', 'bio-quiz', 'CREATED'),
+      submission('bio', 'bio-worksheet', 'TURNED_IN'),
+      submission('hist', 'hist-test', 'RETURNED', { assignedGrade: 90 }),
+      submission('hist', 'hist-dbq', 'CREATED'),
+      submission('hist', 'hist-hw1', 'RETURNED', { assignedGrade: 5 }),
+      submission('hist', 'hist-hw2', 'RETURNED'),
+      submission('hist', 'hist-map', 'RETURNED', { assignedGrade: 10 }),
+      // Another student's work must never leak into userId 'me' results.
+      submission('bio', 'bio-lab1', 'RETURNED', { id: 'sub-other', userId: 'student-2', assignedGrade: 2 }),
+    ],
+    announcements: [
+      { courseId: 'bio', id: 'ann-1', text: 'Lab goggles required Friday', state: 'PUBLISHED', creationTime: '2024-02-01T10:00:00Z' },
+      { courseId: 'bio', id: 'ann-2', text: 'Quiz moved to next week', state: 'PUBLISHED', creationTime: '2024-02-03T10:00:00Z' },
+      { courseId: 'bio', id: 'ann-3', text: 'Draft note', state: 'DRAFT', creationTime: '2024-02-04T10:00:00Z' },
+      { courseId: 'hist', id: 'ann-4', text: 'Museum trip forms due', state: 'PUBLISHED', creationTime: '2024-02-02T10:00:00Z' },
+    ],
+    topics: [
+      { courseId: 'bio', topicId: 'topic-cells', name: 'Unit 1: Cells' },
+      { courseId: 'bio', topicId: 'topic-genetics', name: 'Unit 3: Genetics' },
+      { courseId: 'bio', topicId: 'topic-empty', name: 'Unit 4: Ecology' },
+    ],
+    courseWorkMaterials: [
+      {
+        courseId: 'bio',
+        id: 'mat-slides',
+        title: 'Genetics Slides',
+        state: 'PUBLISHED',
+        topicId: 'topic-genetics',
+        materials: [{ driveFile: { driveFile: { title: 'Punnett Squares.pptx', alternateLink: 'https://drive.google.com/slides' }, shareMode: 'VIEW' } }],
+        creationTime: new Date(now.getTime() - 2 * DAY).toISOString(),
+        alternateLink: 'https://classroom.google.com/c/bio/m/mat-slides',
+      },
+      {
+        courseId: 'bio',
+        id: 'mat-syllabus',
+        title: 'Syllabus',
+        state: 'PUBLISHED',
+        materials: [{ link: { title: 'Course syllabus', url: 'https://example.com/syllabus' } }],
+        creationTime: '2024-01-01T00:00:00Z',
+      },
+      { courseId: 'bio', id: 'mat-draft', title: 'Draft Handout', state: 'DRAFT', creationTime: '2024-01-02T00:00:00Z' },
+    ],
+  };
+}
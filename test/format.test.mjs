@@ -0,0 +1,146 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatResult, withFormatArguments } from '../dist/format.js';
+import { LIST_PROPERTIES, OUTPUT_SCHEMAS } from '../dist/schemas.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer } from './helpers.mjs';
+
+const options = (overrides = {}) => ({ format: 'json', list: 'items', maxChars: 0, ...overrides });
+
+const RESULT = {
+  courseId: 'bio',
+  items: [
+    { id: 'a', title: 'Lab 1', due: { year: 2026, month: 3 }, notes: 'pipes | and\nnewlines' },
+    { id: 'b', title: 'Essay, "final"', due: { year: 2026, month: 4 } },
+    { id: 'c', title: 'Quiz', due: null },
+  ],
+};
+
+describe('formatResult', () => {
+  it('projects fields of each item, keeping nested paths nested', () => {
+    const { content, data } = formatResult(RESULT, options({ format: 'compact', fields: ['title', 'due.month'] }));
+    assert.equal(
+      content[0],
+      '{"courseId":"bio","items":[{"title":"Lab 1","due":{"month":3}},{"title":"Essay, \\"final\\"","due":{"month":4}},{"title":"Quiz"}]}'
+    );
+    assert.deepEqual(data, RESULT, 'structured data keeps every field');
+    assert.deepEqual(JSON.parse(formatResult({ id: 'a', name: 'x' }, options({ fields: ['name'] })).content[0]), { name: 'x' });
+  });
+
+  it('renders markdown tables with the other fields above them', () => {
+    const [text] = formatResult(RESULT, options({ format: 'markdown', fields: ['id', 'notes'] })).content;
+    assert.equal(text, '**courseId**: bio\n\n| id | notes |\n| --- | --- |\n| a | pipes \\| and newlines |\n| b |  |\n| c |  |');
+    assert.equal(formatResult([], options({ format: 'markdown' })).content[0], '_No items._');
+  });
+
+  it('renders CSV with flattened columns and quoting', () => {
+    const { content } = formatResult(RESULT, options({ format: 'csv', fields: ['title', 'due.year'] }));
+    assert.deepEqual(content, ['title,due.year\nLab 1,2026\n"Essay, ""final""",2026\nQuiz,', '{"courseId":"bio"}']);
+    const [all] = formatResult(RESULT.items.slice(0, 2), options({ format: 'csv' })).content;
+    assert.equal(all.split('\n')[0], 'id,title,due.year,due.month,notes');
+  });
+
+  it('cuts the main list to maxItems with a note', () => {
+    const { content, data, truncated } = formatResult(RESULT, options({ maxItems: 1 }));
+    assert.deepEqual(truncated, { shown: 1, omitted: 2, limit: 'maxItems' });
+    assert.deepEqual(data.items.map((item) => item.id), ['a']);
+    assert.equal(content[1], '2 more items, narrow your query (filters, fewer fields, or a higher maxItems) to see them. Showing 1.');
+  });
+
+  it('only cuts the named list', () => {
+    const result = { categories: [1, 2, 3, 4], breakdown: [{ id: 'a' }, { id: 'b' }] };
+    const { data, truncated } = formatResult(result, options({ list: 'breakdown', maxItems: 1 }));
+    assert.deepEqual(data, { categories: [1, 2, 3, 4], breakdown: [{ id: 'a' }] });
+    assert.deepEqual(truncated, { shown: 1, omitted: 1, limit: 'maxItems' });
+
+    const whole = formatResult(result, options({ list: undefined, maxItems: 1, fields: ['breakdown'] }));
+    assert.equal(whole.truncated, null);
+    assert.deepEqual(JSON.parse(whole.content[0]), { breakdown: [{ id: 'a' }, { id: 'b' }] });
+  });
+
+  it('names a list each tool actually returns', () => {
+    for (const [tool, list] of Object.entries(LIST_PROPERTIES)) {
+      assert.ok(OUTPUT_SCHEMAS[tool].properties[list].type === 'array', `${tool}.${list}`);
+    }
+  });
+
+  it('fits the most items it can into maxChars', () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ id: `item-${i}`, title: 'x'.repeat(40) }));
+    const { content, truncated } = formatResult(items, options({ format: 'compact', maxChars: 500 }));
+    assert.equal(truncated.limit, 'maxChars');
+    assert.ok(content[0].length <= 500);
+    assert.equal(JSON.parse(content[0]).length, truncated.shown);
+    assert.ok(formatResult(items.slice(0, truncated.shown + 1), options({ format: 'compact' })).content[0].length > 500);
+    assert.match(content[1], new RegExp(`^${50 - truncated.shown} more items, .*a higher maxChars`));
+
+    assert.equal(formatResult(items, options({ format: 'compact' })).truncated, null, '0 means no limit');
+  });
+});
+
+describe('format arguments', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(buildFixtures());
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('adds format arguments to data tools only', async () => {
+    const { tools } = await client.listTools();
+    const byName = Object.fromEntries(tools.map((t) => [t.name, t.inputSchema.properties]));
+    assert.ok(byName.get_grades.format && byName.get_grades.fields && byName.get_grades.maxItems);
+    assert.equal(byName.list_coursework.maxItems.description, 'Maximum number of items to return across all pages');
+    assert.equal(byName.export_calendar.format, undefined);
+    assert.equal(byName.list_accounts.format, undefined);
+    assert.deepEqual(Object.keys(withFormatArguments({ properties: {} }).properties), ['maxItems', 'format', 'fields', 'maxChars']);
+  });
+
+  it('formats and projects tool results', async () => {
+    const result = await client.callTool({
+      name: 'list_coursework',
+      arguments: { courseId: 'bio', pageSize: 2, format: 'markdown', fields: ['id', 'title'] },
+    });
+    const lines = result.content[0].text.split('\n');
+    assert.match(lines[0], /^\*\*nextPageToken\*\*: \S+$/);
+    assert.equal(lines[2], '| id | title |');
+    assert.equal(lines.length, 6);
+    assert.ok(result.structuredContent.courseWork.every((work) => work.courseId === 'bio'), 'structuredContent is not projected');
+  });
+
+  it('cuts calculate_grade\'s breakdown, not its categories', async () => {
+    const result = await client.callTool({ name: 'calculate_grade', arguments: { courseId: 'hist', maxItems: 1 } });
+    const { breakdown, categories, truncated } = result.structuredContent;
+    assert.equal(breakdown.length, 1);
+    assert.ok(categories.length > 1);
+    assert.equal(truncated.shown, 1);
+  });
+
+  it('treats maxItems on paged tools as the pagination limit only', async () => {
+    const result = await client.callTool({ name: 'list_coursework', arguments: { courseId: 'bio', maxItems: 2 } });
+    assert.equal(result.structuredContent.courseWork.length, 2);
+    assert.ok(result.structuredContent.nextPageToken);
+    assert.equal(result.structuredContent.truncated, undefined);
+    assert.equal(result.content.length, 1, 'no truncation note');
+  });
+
+  it('truncates to the character budget and reports it', async () => {
+    const result = await client.callTool({ name: 'get_grades', arguments: { format: 'compact', maxChars: 400 } });
+    const { truncated } = result.structuredContent;
+    assert.equal(truncated.limit, 'maxChars');
+    assert.equal(result.structuredContent.grades.length, truncated.shown);
+    assert.ok(result.content[0].text.length <= 400);
+    assert.match(result.content[1].text, /more items?, narrow your query/);
+  });
+
+  it('rejects an unknown format', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'list_courses', arguments: { format: 'xml' } }),
+      /Invalid arguments for list_courses: .*format must be equal to one of the allowed values/
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { GUARDIAN_SCOPES, SCOPES } from '../dist/oauth.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startServer } from './helpers.mjs';
+
+const GUARDIAN_ENV = { CLASSROOM_GUARDIAN_MODE: 'on' };
+
+// A parent account linked to student-1, who takes Biology and History.
+// History rejects the parent, as schools that keep work from guardians do.
+function guardianFixtures() {
+  const fixtures = buildFixtures();
+  return {
+    ...fixtures,
+    userId: 'parent-1',
+    email: 'parent@home.example',
+    grantedScopes: [...SCOPES, ...GUARDIAN_SCOPES],
+    students: [{ courseId: 'bio', userId: 'student-1' }, { courseId: 'hist', userId: 'student-1' }],
+    guardians: [
+      { studentId: 'student-1', guardianId: 'parent-1', invitedEmailAddress: 'parent@home.example' },
+      { studentId: 'student-2', guardianId: 'parent-2' },
+    ],
+    userProfiles: [
+      { id: 'student-1', name: { fullName: 'Ada Lovelace' }, emailAddress: 'ada@school.example' },
+      { id: 'student-2', name: { fullName: 'Grace Hopper' }, emailAddress: 'grace@school.example' },
+    ],
+    courseErrors: { hist: { code: 403, message: 'The caller does not have permission' } },
+  };
+}
+
+describe('guardian view', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(guardianFixtures(), GUARDIAN_ENV);
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('explains that only domain administrators can list guardian links', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'list_students_i_guard', arguments: {} }),
+      /only lets domain administrators list guardian links.*Pass a student's email address as studentId/
+    );
+  });
+
+  it('reads a guarded student\'s grades and says whose they are', async () => {
+    const result = await client.callTool({ name: 'get_grades', arguments: { studentId: 'student-1' } });
+    const grades = JSON.parse(result.content[0].text);
+    assert.ok(grades.length > 0);
+    assert.ok(grades.every((g) => g.courseId === 'bio' || g.courseId === 'hist'));
+    assert.equal(grades.find((g) => g.assignmentId === 'bio-lab1').assignedGrade, 8);
+    assert.match(result.content[1].text, /^Showing data for student Ada Lovelace <ada@school\.example> \(studentId student-1\)/);
+    assert.deepEqual(result.structuredContent.student, { studentId: 'student-1', name: 'Ada Lovelace', email: 'ada@school.example' });
+  });
+
+  it('accepts the student\'s email address', async () => {
+    const result = await client.callTool({ name: 'calculate_grade', arguments: { courseId: 'bio', studentId: 'ada@school.example' } });
+    assert.equal(result.structuredContent.student.studentId, 'student-1');
+    assert.equal(result.structuredContent.courseId, 'bio');
+  });
+
+  it('refuses students the account does not guard', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'get_missing_assignments', arguments: { studentId: 'student-2' } }),
+      /You are not a guardian of student "student-2"/
+    );
+  });
+
+  it('explains when Google keeps a student\'s work from guardians', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'calculate_grade', arguments: { courseId: 'hist', studentId: 'student-1' } }),
+      /refused access to Ada Lovelace <ada@school\.example>'s coursework/
+    );
+  });
+
+  it('keeps reading the signed-in user without studentId', async () => {
+    const result = await client.callTool({ name: 'get_upcoming_assignments', arguments: { days: 30 } });
+    assert.equal(result.structuredContent.student, undefined);
+    assert.equal(result.content.length, 2);
+  });
+});
+
+describe('guardian view for a domain administrator', () => {
+  it('lists the students linked to the signed-in guardian', async () => {
+    const server = await startServer({ ...guardianFixtures(), domainAdmin: true }, GUARDIAN_ENV);
+    try {
+      const result = await callJson(server.client, 'list_students_i_guard');
+      assert.deepEqual(result.guardian, { userId: 'parent-1', name: null, email: 'parent@home.example' });
+      assert.deepEqual(result.students, [{ studentId: 'student-1', name: 'Ada Lovelace', email: 'ada@school.example' }]);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('guardian mode', () => {
+  it('is off by default and rejects studentId', async () => {
+    const server = await startServer(guardianFixtures());
+    try {
+      const { tools } = await server.client.listTools();
+      assert.ok(!tools.some((t) => t.name === 'list_students_i_guard'));
+      assert.equal(tools.find((t) => t.name === 'get_grades').inputSchema.properties.studentId, undefined);
+      await assert.rejects(
+        server.client.callTool({ name: 'get_grades', arguments: { studentId: 'student-1' } }),
+        /studentId needs CLASSROOM_GUARDIAN_MODE=on/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('asks for setup-auth --guardian when the guardian scopes were not granted', async () => {
+    const server = await startServer({ ...guardianFixtures(), grantedScopes: SCOPES }, GUARDIAN_ENV);
+    try {
+      await assert.rejects(
+        server.client.callTool({ name: 'get_grades', arguments: { studentId: 'student-1' } }),
+        /classroom\.guardianlinks\.students\.readonly.*npm run setup-auth -- --guardian and allow/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const SERVER_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist', 'index.js');
+
+// Spawns the built server over stdio. When `fixtures` is given they are written
+// to a temp file and served through the offline backend. The server runs in an
+// empty temp directory with a minimal environment, so no real credentials leak in.
+// The response cache is off unless `env` turns it on, so fixture edits show up
+// on the next call.
+export async function startServer(fixtures, env = {}) {
+  return startServerWithProfiles(fixtures ? { '': fixtures } : {}, env);
+}
+
+// Like startServer, but serves one fixture set per named account profile.
+// The empty name stands for the default profile as a bare file path.
+export async function startServerWithProfiles(profiles, env = {}) {
+  const { dir, serverEnv } = prepareServer(profiles, env);
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    env: serverEnv,
+    cwd: dir,
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'classroom-mcp-test', version: '1.0.0' });
+  await client.connect(transport);
+
+  return {
+    client,
+    dir,
+    // Replaces the fixture data the running server reads from.
+    updateFixtures(data) {
+      fs.writeFileSync(serverEnv.CLASSROOM_FIXTURES, JSON.stringify(data));
+    },
+    async close() {
+      await client.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// Writes fixtures to a fresh temp directory and builds the server environment.
+function prepareServer(profiles, env) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'classroom-mcp-test-'));
+  const serverEnv = {
+    CLASSROOM_TIMEZONE: 'UTC',
+    CLASSROOM_STATE_DIR: path.join(dir, 'state'),
+    CLASSROOM_CONFIG_DIR: path.join(dir, 'config'),
+    CLASSROOM_CACHE: 'off',
+    ...env,
+  };
+  const entries = Object.entries(profiles).map(([name, fixtures]) => {
+    const fixturesPath = path.join(dir, name ? `fixtures-${name}.json` : 'fixtures.json');
+    fs.writeFileSync(fixturesPath, JSON.stringify(fixtures));
+    return name ? `${name}=${fixturesPath}` : fixturesPath;
+  });
+  if (entries.length > 0) {
+    serverEnv.CLASSROOM_FIXTURES = entries.join(path.delimiter);
+  }
+
+  return { dir, serverEnv };
+}
+
+// Starts the built server in HTTP mode on a free port. Resolves with the
+// endpoint URL once the server reports it is listening.
+export async function startHttpServer(fixtures, env = {}, args = []) {
+  const { dir, serverEnv } = prepareServer(fixtures ? { '': fixtures } : {}, {
+    CLASSROOM_TRANSPORT: 'http',
+    CLASSROOM_HTTP_PORT: '0',
+    ...env,
+  });
+  const child = spawn(process.execPath, [SERVER_PATH, ...args], { env: serverEnv, cwd: dir, stdio: ['ignore', 'ignore', 'pipe'] });
+  let stderr = '';
+  child.stderr.on('data', (chunk) => {
+    stderr += chunk;
+  });
+  const exited = new Promise((resolve) => child.once('exit', (code) => resolve(code)));
+  await waitFor(() => /listening on \S+/.test(stderr) || child.exitCode !== null);
+  if (child.exitCode !== null) {
+    throw new Error(`server exited with ${child.exitCode}: ${stderr}`);
+  }
+
+  return {
+    url: new URL(/listening on (\S+)/.exec(stderr)[1]),
+    child,
+    exited,
+    stderr: () => stderr,
+    async close() {
+      if (child.exitCode === null) child.kill('SIGTERM');
+      await exited;
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// Calls a tool and parses the JSON text payload it returns.
+export async function callJson(client, name, args = {}) {
+  const result = await client.callTool({ name, arguments: args });
+  return JSON.parse(result.content[0].text);
+}
+
+// Resolves once `predicate` returns true, polling every 20ms.
+export async function waitFor(predicate, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
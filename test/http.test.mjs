@@ -0,0 +1,267 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startHttpServer } from './helpers.mjs';
+import { createAuthenticator, httpOptionsFromEnv, transportFromArgs } from '../dist/http.js';
+
+const TOKEN = 'test-token';
+const OTHER_TOKEN = 'other-token';
+const auth = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+async function connect(transport) {
+  const client = new Client({ name: 'classroom-mcp-test', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+describe('transport options', () => {
+  it('defaults to stdio and honours flags over the environment', () => {
+    assert.equal(transportFromArgs([], {}), 'stdio');
+    assert.equal(transportFromArgs([], { CLASSROOM_TRANSPORT: 'HTTP' }), 'http');
+    assert.equal(transportFromArgs(['--http'], {}), 'http');
+    assert.equal(transportFromArgs(['--stdio'], { CLASSROOM_TRANSPORT: 'http' }), 'stdio');
+    assert.throws(() => transportFromArgs([], { CLASSROOM_TRANSPORT: 'websocket' }), /Unknown CLASSROOM_TRANSPORT/);
+  });
+
+  it('reads host, port and access settings', () => {
+    const options = httpOptionsFromEnv(['--port', '8080'], {
+      CLASSROOM_HTTP_HOST: '0.0.0.0',
+      CLASSROOM_HTTP_PORT: '9000',
+      CLASSROOM_HTTP_TOKEN: 'a, b',
+      CLASSROOM_HTTP_OAUTH_EMAILS: 'Parent@Example.com',
+      CLASSROOM_HTTP_CORS_ORIGINS: 'https://app.example',
+      CLASSROOM_HTTP_PUBLIC_URL: 'https://classroom.example/',
+      CLASSROOM_HTTP_SESSION_IDLE: '600',
+      CLASSROOM_HTTP_MAX_SESSIONS: '5',
+    });
+    assert.equal(options.host, '0.0.0.0');
+    assert.equal(options.port, 8080);
+    assert.deepEqual(options.tokens, ['a', 'b']);
+    assert.deepEqual(options.oauthEmails, ['parent@example.com']);
+    assert.deepEqual(options.corsOrigins, ['https://app.example']);
+    assert.equal(options.publicUrl, 'https://classroom.example');
+    assert.equal(options.sessionIdleMs, 600_000);
+    assert.equal(options.maxSessions, 5);
+    assert.throws(() => httpOptionsFromEnv([], { CLASSROOM_HTTP_MAX_SESSIONS: '0' }), /Invalid CLASSROOM_HTTP_MAX_SESSIONS/);
+    assert.throws(() => httpOptionsFromEnv([], { CLASSROOM_HTTP_PORT: 'eighty' }), /Invalid HTTP port/);
+  });
+});
+
+describe('createAuthenticator', () => {
+  const options = { ...httpOptionsFromEnv([], {}), tokens: ['static'], oauthEmails: ['kid@example.com'], oauthClientId: 'our-client' };
+
+  it('names the caller of each accepted token', async () => {
+    const lookups = [];
+    const authenticate = createAuthenticator(options, async (token) => {
+      lookups.push(token);
+      if (token === 'google-kid') return { email: 'Kid@example.com', email_verified: true, aud: 'our-client', scopes: [], expiry_date: Date.now() + 60_000 };
+      if (token === 'google-other') return { email: 'other@example.com', aud: 'our-client', scopes: [], expiry_date: Date.now() + 60_000 };
+      throw new Error('invalid_token');
+    });
+
+    assert.equal(await authenticate('Bearer static'), 'token:1');
+    assert.equal(await authenticate('Bearer google-kid'), 'google:kid@example.com');
+    assert.equal(await authenticate('Bearer google-kid'), 'google:kid@example.com');
+    assert.equal(await authenticate('Bearer google-other'), null);
+    assert.equal(await authenticate('Bearer garbage'), null);
+    assert.equal(await authenticate(undefined), null);
+    assert.equal(await authenticate('Basic static'), null);
+    // The second google-kid request was answered from the cache.
+    assert.deepEqual(lookups, ['google-kid', 'google-other', 'garbage']);
+  });
+
+  it('rejects an allowed account\'s token issued to another OAuth client', async () => {
+    const authenticate = createAuthenticator(options, async (token) => ({
+      email: 'kid@example.com', aud: 'someone-else', azp: token === 'via-us' ? 'our-client' : 'someone-else', scopes: [], expiry_date: Date.now() + 60_000,
+    }));
+    assert.equal(await authenticate('Bearer google-kid'), null);
+    assert.equal(await authenticate('Bearer via-us'), 'google:kid@example.com');
+  });
+
+  it('accepts no Google token without an OAuth client to check it against', async () => {
+    const authenticate = createAuthenticator({ ...options, oauthClientId: null }, async () => ({
+      email: 'kid@example.com', aud: 'anything', scopes: [], expiry_date: Date.now() + 60_000,
+    }));
+    assert.equal(await authenticate('Bearer google-kid'), null);
+    assert.equal(await authenticate('Bearer static'), 'token:1');
+  });
+});
+
+describe('HTTP transport', () => {
+  let server;
+
+  before(async () => {
+    server = await startHttpServer(buildFixtures(), {
+      CLASSROOM_HTTP_TOKEN: `${TOKEN},${OTHER_TOKEN}`,
+      CLASSROOM_HTTP_CORS_ORIGINS: 'https://app.example',
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const response = await fetch(server.url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get('www-authenticate'), 'Bearer');
+  });
+
+  it('serves tools over Streamable HTTP with one session per client', async () => {
+    const first = new StreamableHTTPClientTransport(server.url, { requestInit: auth });
+    const second = new StreamableHTTPClientTransport(server.url, { requestInit: auth });
+    const a = await connect(first);
+    const b = await connect(second);
+    try {
+      assert.ok(first.sessionId);
+      assert.notEqual(first.sessionId, second.sessionId);
+      const data = await callJson(a, 'list_courses');
+      assert.deepEqual(data.courses.map((c) => c.id), ['bio', 'hist', 'art']);
+      const { tools } = await b.listTools();
+      assert.ok(tools.some((t) => t.name === 'get_grades'));
+    } finally {
+      await a.close();
+      await b.close();
+    }
+  });
+
+  it('does not write calendar files for remote clients', async () => {
+    const client = await connect(new StreamableHTTPClientTransport(server.url, { requestInit: auth }));
+    const outputPath = path.join(os.tmpdir(), `classroom-http-${process.pid}`, 'deadlines.ics');
+    try {
+      const { tools } = await client.listTools();
+      assert.equal(tools.find((t) => t.name === 'export_calendar').inputSchema.properties.outputPath, undefined);
+      await assert.rejects(
+        client.callTool({ name: 'export_calendar', arguments: { outputPath } }),
+        /outputPath is not available over HTTP/
+      );
+      assert.equal(fs.existsSync(path.dirname(outputPath)), false);
+      const result = await client.callTool({ name: 'export_calendar', arguments: {} });
+      assert.match(result.content[0].text, /^BEGIN:VCALENDAR/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('answers unknown sessions with 404', async () => {
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers: { ...auth.headers, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 404);
+  });
+
+  it('refuses a session to anyone but the caller who opened it', async () => {
+    const transport = new StreamableHTTPClientTransport(server.url, { requestInit: auth });
+    const client = await connect(transport);
+    try {
+      const response = await fetch(server.url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${OTHER_TOKEN}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'Mcp-Session-Id': transport.sessionId,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      assert.equal(response.status, 403);
+      assert.ok((await client.listTools()).tools.length > 0, 'the owner still gets in');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('falls back to HTTP+SSE for older clients', async () => {
+    const client = await connect(new SSEClientTransport(new URL('/sse', server.url), { requestInit: auth }));
+    try {
+      const data = await callJson(client, 'get_course', { courseId: 'bio' });
+      assert.equal(data.id, 'bio');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('answers CORS preflights for configured origins only', async () => {
+    const allowed = await fetch(server.url, { method: 'OPTIONS', headers: { Origin: 'https://app.example' } });
+    assert.equal(allowed.status, 204);
+    assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://app.example');
+    assert.match(allowed.headers.get('access-control-allow-headers'), /Mcp-Session-Id/);
+
+    const other = await fetch(server.url, { method: 'OPTIONS', headers: { Origin: 'https://evil.example' } });
+    assert.equal(other.headers.get('access-control-allow-origin'), null);
+  });
+});
+
+describe('HTTP server lifecycle', () => {
+  it('refuses to listen beyond loopback without authentication', async () => {
+    await assert.rejects(startHttpServer(buildFixtures(), { CLASSROOM_HTTP_HOST: '0.0.0.0' }), /Refusing to serve on 0\.0\.0\.0/);
+  });
+
+  it('refuses Google sign-in without an OAuth client ID', async () => {
+    await assert.rejects(
+      startHttpServer(buildFixtures(), { CLASSROOM_HTTP_OAUTH_EMAILS: 'kid@example.com' }),
+      /CLASSROOM_HTTP_OAUTH_EMAILS needs CLASSROOM_HTTP_OAUTH_CLIENT_ID/
+    );
+  });
+
+  it('only answers localhost Host headers when unauthenticated', async () => {
+    const server = await startHttpServer(buildFixtures(), {}, ['--http']);
+    try {
+      const status = await new Promise((resolve, reject) => {
+        const request = http.request(server.url, { method: 'POST', headers: { Host: 'attacker.example' } }, (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        });
+        request.on('error', reject);
+        request.end('{}');
+      });
+      assert.equal(status, 403);
+
+      const client = await connect(new StreamableHTTPClientTransport(server.url));
+      await client.close();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('closes idle sessions and caps how many are open', async () => {
+    const server = await startHttpServer(buildFixtures(), {
+      CLASSROOM_HTTP_TOKEN: TOKEN,
+      CLASSROOM_HTTP_SESSION_IDLE: '0.3',
+      CLASSROOM_HTTP_MAX_SESSIONS: '1',
+    });
+    try {
+      const first = await connect(new StreamableHTTPClientTransport(server.url, { requestInit: auth }));
+      await assert.rejects(connect(new StreamableHTTPClientTransport(server.url, { requestInit: auth })), /Too many open sessions/);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await assert.rejects(first.listTools(), /Session not found/);
+      const second = await connect(new StreamableHTTPClientTransport(server.url, { requestInit: auth }));
+      await second.close();
+      await first.close();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('closes open sessions and exits cleanly on SIGTERM', async () => {
+    const server = await startHttpServer(buildFixtures(), { CLASSROOM_HTTP_TOKEN: TOKEN });
+    try {
+      const client = await connect(new SSEClientTransport(new URL('/sse', server.url), { requestInit: auth }));
+      server.child.kill('SIGTERM');
+      assert.equal(await server.exited, 0);
+      assert.match(server.stderr(), /SIGTERM received, closing sessions/);
+      await client.close();
+    } finally {
+      await server.close();
+    }
+  });
+});
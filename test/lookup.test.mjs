@@ -0,0 +1,127 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { bestMatch, matchScore, nicknamesFromEnv, normalize, withLookupArguments } from '../dist/lookup.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startServer } from './helpers.mjs';
+
+const KIND = { noun: 'Course', idArgument: 'courseId' };
+const candidate = (item, ...labels) => ({ item, labels });
+
+describe('matchScore', () => {
+  it('ranks exact, prefix, substring and near matches', () => {
+    assert.equal(normalize('  Biología — Period 2 '), 'biologia period 2');
+    assert.equal(matchScore('BIOLOGY', 'Biology'), 1);
+    assert.equal(matchScore('bio per 2', 'Biology Period 2'), 0.9);
+    assert.equal(matchScore('ology', 'Biology'), 0.8);
+    const typo = matchScore('biolgy', 'Biology');
+    assert.ok(typo > 0.5 && typo < 0.8, `typo scored ${typo}`);
+    assert.ok(matchScore('chemistry', 'Biology') < 0.5);
+  });
+});
+
+describe('bestMatch', () => {
+  it('picks the best candidate and lets preferred ones break ties', () => {
+    const candidates = [candidate('bio', 'Biology'), candidate('hist', 'History')];
+    assert.equal(bestMatch('bio', candidates, String, KIND).item, 'bio');
+    assert.equal(bestMatch('geography', candidates, String, KIND), null);
+
+    const sections = [
+      { item: 'old', labels: ['Biology'] },
+      { item: 'new', labels: ['Biology'], preferred: true },
+    ];
+    assert.equal(bestMatch('biology', sections, String, KIND).item, 'new');
+  });
+
+  it('refuses to guess between equally good matches', () => {
+    const candidates = [candidate('p2', 'Biology Period 2'), candidate('p4', 'Biology Period 4')];
+    assert.throws(
+      () => bestMatch('biology', candidates, String, KIND),
+      /Course "biology" is ambiguous\. Did you mean: p2; p4\? Pass courseId or a more specific name\./
+    );
+  });
+});
+
+describe('lookup arguments', () => {
+  it('makes courseId and courseWorkId optional next to course and assignment', () => {
+    const schema = withLookupArguments({
+      type: 'object',
+      properties: { courseId: {}, courseWorkId: {}, url: {} },
+      required: ['courseId', 'courseWorkId', 'url'],
+    });
+    assert.deepEqual(Object.keys(schema.properties), ['courseId', 'courseWorkId', 'url', 'course', 'assignment']);
+    assert.deepEqual(schema.required, ['url']);
+    assert.equal(withLookupArguments({ type: 'object', properties: { courseId: {} }, required: ['courseId'] }).required, undefined);
+  });
+
+  it('parses nicknames', () => {
+    assert.deepEqual([...nicknamesFromEnv(' bb = bio ,apush=hist,broken')], [['bb', 'bio'], ['apush', 'hist']]);
+  });
+});
+
+describe('course and assignment lookup', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    const fixtures = buildFixtures();
+    fixtures.courses.push({ id: 'bio-2023', name: 'Biology', section: 'Period 1', courseState: 'ARCHIVED' });
+    fixtures.courseAliases = [{ courseId: 'hist', alias: 'd:hist-204' }];
+    server = await startServer(fixtures, { CLASSROOM_COURSE_NICKNAMES: 'bb=bio' });
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('offers course and assignment in place of IDs', async () => {
+    const { tools } = await client.listTools();
+    const getCoursework = tools.find((t) => t.name === 'get_coursework').inputSchema;
+    assert.ok(getCoursework.properties.course && getCoursework.properties.assignment);
+    assert.equal(getCoursework.required, undefined);
+    await assert.rejects(
+      client.callTool({ name: 'get_course', arguments: {} }),
+      /Invalid arguments for get_course: courseId or course is required/
+    );
+  });
+
+  it('matches course names, preferring active courses, and says what it matched', async () => {
+    const result = await client.callTool({ name: 'get_course', arguments: { course: 'BIOLOGY' } });
+    assert.equal(JSON.parse(result.content[0].text).id, 'bio');
+    assert.equal(result.content[1].text, 'Matched course "BIOLOGY" to Biology, Period 2 (courseId bio)');
+
+    assert.equal((await callJson(client, 'get_course', { course: 'histroy' })).id, 'hist');
+    assert.equal((await callJson(client, 'get_course', { course: 'bb' })).id, 'bio');
+    assert.equal((await callJson(client, 'get_course', { course: 'art' })).id, 'art');
+  });
+
+  it('falls back to course aliases', async () => {
+    assert.equal((await callJson(client, 'get_course', { course: 'hist-204' })).id, 'hist');
+    assert.equal((await callJson(client, 'get_course', { course: 'd:hist-204' })).id, 'hist');
+  });
+
+  it('lists the candidates when a name is ambiguous or unknown', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'get_course', arguments: { course: 'period' } }),
+      /Course "period" is ambiguous\. Did you mean: Biology, Period 2 \(courseId bio\); History, Period 4 \(courseId hist\)\?/
+    );
+    await assert.rejects(
+      client.callTool({ name: 'get_course', arguments: { course: 'chemistry' } }),
+      /No course matches "chemistry"\..*list_courses shows them all/
+    );
+  });
+
+  it('matches assignment titles within the course', async () => {
+    const result = await client.callTool({ name: 'get_coursework', arguments: { course: 'bio', assignment: 'lab 1' } });
+    assert.equal(JSON.parse(result.content[0].text).id, 'bio-lab1');
+    assert.match(result.content[1].text, /Matched course "bio" to Biology, Period 2 \(courseId bio\)\nMatched assignment "lab 1" to Lab 1 \(courseWorkId bio-lab1, due \d{4}-\d\d-\d\d\)/);
+
+    const { studentSubmissions } = await callJson(client, 'list_submissions', { courseId: 'hist', assignment: 'unit tst' });
+    assert.deepEqual(studentSubmissions.map((s) => s.courseWorkId), ['hist-test']);
+
+    await assert.rejects(
+      client.callTool({ name: 'get_coursework', arguments: { courseId: 'hist', assignment: 'homework' } }),
+      /Assignment "homework" is ambiguous\. Did you mean: Homework 1 \(courseWorkId hist-hw1.*Homework 2 \(courseWorkId hist-hw2/
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRedirectInput, startLoopbackReceiver } from '../dist/oauth.js';
+
+describe('loopback receiver', () => {
+  it('captures the code and shuts down', async () => {
+    const receiver = await startLoopbackReceiver('state-1');
+    assert.match(receiver.redirectUri, /^http:\/\/127\.0\.0\.1:\d+$/);
+
+    const response = await fetch(`${receiver.redirectUri}/?state=state-1&code=abc123&scope=x`);
+    assert.equal(response.status, 200);
+    assert.equal(await receiver.code, 'abc123');
+
+    await assert.rejects(fetch(receiver.redirectUri));
+  });
+
+  it('rejects a response with the wrong state', async () => {
+    const receiver = await startLoopbackReceiver('state-2');
+    const settled = assert.rejects(receiver.code, /state mismatch/);
+    const response = await fetch(`${receiver.redirectUri}/?state=forged&code=abc123`);
+    assert.equal(response.status, 400);
+    await settled;
+  });
+
+  it('reports a denied consent without echoing markup', async () => {
+    const receiver = await startLoopbackReceiver('state-3');
+    const settled = assert.rejects(receiver.code, /access_denied/);
+    const response = await fetch(`${receiver.redirectUri}/?state=state-3&error=access_denied<script>`);
+    assert.ok(!(await response.text()).includes('<script>'));
+    await settled;
+  });
+
+  it('ignores unrelated paths', async () => {
+    const receiver = await startLoopbackReceiver('state-4');
+    const response = await fetch(`${receiver.redirectUri}/favicon.ico`);
+    assert.equal(response.status, 404);
+    receiver.close();
+  });
+
+  it('times out', async () => {
+    const receiver = await startLoopbackReceiver('state-5', 50);
+    await assert.rejects(receiver.code, /Timed out/);
+  });
+});
+
+describe('manual redirect input', () => {
+  it('reads the code from a pasted URL', () => {
+    assert.equal(parseRedirectInput('http://127.0.0.1/?state=s&code=4%2Fxyz&scope=a', 's'), '4/xyz');
+  });
+
+  it('checks the state of a pasted URL', () => {
+    assert.throws(() => parseRedirectInput('http://127.0.0.1/?state=other&code=xyz', 's'), /state mismatch/);
+  });
+
+  it('accepts a bare code', () => {
+    assert.equal(parseRedirectInput('  4/xyz  ', 's'), '4/xyz');
+  });
+});
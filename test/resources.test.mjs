@@ -0,0 +1,65 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer } from './helpers.mjs';
+
+async function readJson(client, uri) {
+  const result = await client.readResource({ uri });
+  assert.equal(result.contents[0].mimeType, 'application/json');
+  return JSON.parse(result.contents[0].text);
+}
+
+describe('resources', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(buildFixtures());
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('lists courses and their assignments', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+    assert.ok(uris.includes('classroom://courses'));
+    assert.ok(uris.includes('classroom://courses/bio'));
+    assert.ok(uris.includes('classroom://courses/hist/announcements'));
+    assert.ok(uris.includes('classroom://courses/bio/coursework/bio-quiz'));
+    assert.ok(!uris.some((uri) => uri.startsWith('classroom://courses/art')), 'archived courses are not listed');
+    assert.equal(resources.find((r) => r.uri === 'classroom://courses/bio/coursework/bio-quiz').name, 'Quiz 1');
+  });
+
+  it('lists URI templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const templates = resourceTemplates.map((t) => t.uriTemplate);
+    assert.ok(templates.includes('classroom://courses/{courseId}/coursework/{courseWorkId}'));
+    assert.ok(templates.includes('classroom://courses/{courseId}/announcements'));
+  });
+
+  it('reads every resource kind', async () => {
+    assert.equal((await readJson(client, 'classroom://courses')).courses.length, 3);
+    assert.equal((await readJson(client, 'classroom://courses/hist')).name, 'History');
+    assert.equal((await readJson(client, 'classroom://courses/bio/coursework')).courseWork.length, 7);
+    assert.equal((await readJson(client, 'classroom://courses/bio/announcements')).announcements.length, 2);
+    assert.equal((await readJson(client, 'classroom://courses/hist/submissions')).studentSubmissions.length, 5);
+
+    const quiz = await readJson(client, 'classroom://courses/bio/coursework/bio-quiz');
+    assert.equal(quiz.title, 'Quiz 1');
+    assert.ok(quiz.deadline.dueAt);
+
+    const materials = await readJson(client, 'classroom://courses/bio/coursework/bio-quiz/materials');
+    assert.equal(materials.materials.length, 4);
+
+    const submission = await readJson(client, 'classroom://courses/bio/coursework/bio-lab1/submission');
+    assert.equal(submission.studentSubmissions[0].assignedGrade, 8);
+  });
+
+  it('rejects unknown URIs', async () => {
+    await assert.rejects(client.readResource({ uri: 'classroom://teachers' }), /Unknown resource/);
+    await assert.rejects(client.readResource({ uri: 'classroom://courses/nope' }), /not found/);
+  });
+});
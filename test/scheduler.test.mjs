@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestScheduler } from '../dist/scheduler.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer } from './helpers.mjs';
+
+const OPTIONS = { maxConcurrent: 2, maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000, budgetMs: 60000 };
+
+// Records requested delays instead of waiting them out.
+function scheduler(options = {}) {
+  const sleeps = [];
+  const instance = new RequestScheduler(
+    { ...OPTIONS, ...options },
+    async (ms) => { sleeps.push(ms); },
+    () => 1
+  );
+  return { scheduler: instance, sleeps };
+}
+
+// Errors shaped like googleapis', with the status on `code`.
+const apiError = (code, message) => Object.assign(new Error(message), { code });
+
+const failing = (...errors) => {
+  let calls = 0;
+  const request = async () => {
+    const error = errors[calls++];
+    if (error) throw error;
+    return 'ok';
+  };
+  request.calls = () => calls;
+  return request;
+};
+
+describe('request scheduler', () => {
+  it('caps requests in flight', async () => {
+    const { scheduler: s } = scheduler();
+    let active = 0;
+    let peak = 0;
+    const request = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+    await Promise.all(Array.from({ length: 6 }, () => s.run(request)));
+    assert.equal(peak, 2);
+  });
+
+  it('retries 429 and 5xx with exponential backoff', async () => {
+    const { scheduler: s, sleeps } = scheduler();
+    const request = failing(apiError(503, 'backend error'), apiError(429, 'quota'));
+    const stats = await s.track(async () => {
+      assert.equal(await s.run(request), 'ok');
+      return s.stats();
+    });
+    assert.equal(request.calls(), 3);
+    assert.deepEqual(sleeps, [100, 200]);
+    assert.deepEqual(stats, { requests: 1, retried: 1, abandoned: 0 });
+  });
+
+  it('waits at least as long as Retry-After', async () => {
+    const { scheduler: s, sleeps } = scheduler();
+    await s.run(failing({ response: { status: 429, headers: { 'retry-after': '3' } }, message: 'quota' }));
+    assert.deepEqual(sleeps, [3000]);
+  });
+
+  it('does not retry client errors', async () => {
+    const { scheduler: s, sleeps } = scheduler();
+    const request = failing(apiError(404, 'missing'));
+    await assert.rejects(s.run(request), /missing/);
+    assert.equal(request.calls(), 1);
+    assert.deepEqual(sleeps, []);
+  });
+
+  it('abandons a request once retries run out', async () => {
+    const { scheduler: s } = scheduler({ maxRetries: 1 });
+    const error = apiError(500, 'down');
+    const stats = await s.track(async () => {
+      await assert.rejects(s.run(failing(error, error, error)), (e) => e === error);
+      return s.stats();
+    });
+    assert.deepEqual(stats, { requests: 1, retried: 1, abandoned: 1 });
+  });
+
+  it('abandons retries that would overrun the call budget', async () => {
+    const { scheduler: s, sleeps } = scheduler({ budgetMs: 50 });
+    const stats = await s.track(async () => {
+      await assert.rejects(s.run(failing(apiError(503, 'down'))), /down/);
+      return s.stats();
+    });
+    assert.deepEqual(sleeps, []);
+    assert.equal(stats.abandoned, 1);
+  });
+
+  it('refuses to start requests after the budget is spent', async () => {
+    const { scheduler: s } = scheduler({ budgetMs: 0 });
+    await s.track(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      await assert.rejects(s.run(async () => 'late'), (error) => error.kind === 'deadline_exceeded');
+    });
+  });
+
+  it('abandons a request still running when the budget runs out', async () => {
+    const { scheduler: s } = scheduler({ budgetMs: 20, maxConcurrent: 1 });
+    const stats = await s.track(async () => {
+      const started = Date.now();
+      await assert.rejects(s.run(() => new Promise(() => {})), (error) => error.kind === 'deadline_exceeded');
+      assert.ok(Date.now() - started < 1000);
+      return s.stats();
+    });
+    assert.deepEqual(stats, { requests: 1, retried: 0, abandoned: 1 });
+    assert.equal(await s.run(async () => 'next'), 'next', 'the slot is released');
+  });
+});
+
+describe('fan-out tools under transient failures', () => {
+  it('retry the failed course and report the retries', async () => {
+    const server = await startServer(
+      { ...buildFixtures(), transientErrors: { hist: { code: 503, message: 'Backend Error', times: 1 } } },
+      { CLASSROOM_RETRY_BASE_MS: '1' }
+    );
+    try {
+      const result = await server.client.callTool({ name: 'get_grades', arguments: {} });
+      const grades = JSON.parse(result.content[0].text);
+      assert.ok(grades.some((g) => g.courseId === 'hist'));
+      const report = JSON.parse(result.content[1].text);
+      assert.deepEqual(report.failedCourses, []);
+      assert.equal(report.requests.retried, 1);
+      assert.equal(report.requests.abandoned, 0);
+    } finally {
+      await server.close();
+    }
+  });
+});
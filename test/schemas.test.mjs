@@ -0,0 +1,98 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer } from './helpers.mjs';
+import { OUTPUT_SCHEMAS, validateArguments } from '../dist/schemas.js';
+
+describe('validateArguments', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      courseId: { type: 'string' },
+      days: { type: 'number' },
+      scores: { type: 'array', items: { type: 'object', properties: { score: { type: 'number' } }, required: ['score'] } },
+    },
+    required: ['courseId'],
+  };
+
+  it('accepts matching arguments', () => {
+    validateArguments('test_tool', schema, { courseId: 'bio', days: 3 });
+  });
+
+  it('names every offending field', () => {
+    assert.throws(() => validateArguments('test_tool', schema, { days: 'soon', scores: [{}] }), (error) => {
+      assert.equal(error.code, -32602);
+      assert.match(error.message, /^MCP error -32602: Invalid arguments for test_tool: /);
+      assert.match(error.message, /courseId is required/);
+      assert.match(error.message, /days must be number/);
+      assert.match(error.message, /scores\.0 must have required property 'score'/);
+      return true;
+    });
+  });
+
+  it('treats missing arguments as an empty object', () => {
+    assert.throws(() => validateArguments('test_tool', schema, undefined), /courseId is required/);
+  });
+});
+
+describe('tool schemas', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(buildFixtures());
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('declares an object outputSchema for every tool', async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      assert.equal(tool.outputSchema?.type, 'object', `${tool.name} has no outputSchema`);
+      assert.deepEqual(tool.outputSchema, OUTPUT_SCHEMAS[tool.name]);
+    }
+  });
+
+  it('rejects a missing required argument with InvalidParams', async () => {
+    await assert.rejects(client.callTool({ name: 'get_course_material', arguments: { courseId: 'bio' } }), (error) => {
+      assert.equal(error.code, -32602);
+      assert.match(error.message, /Invalid arguments for get_course_material: materialId is required/);
+      return true;
+    });
+  });
+
+  it('rejects arguments of the wrong type', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'get_upcoming_assignments', arguments: { days: '7' } }),
+      /Invalid arguments for get_upcoming_assignments: days must be number/
+    );
+    await assert.rejects(
+      client.callTool({ name: 'list_courses', arguments: { courseStates: 'ACTIVE' } }),
+      /courseStates must be array/
+    );
+  });
+
+  it('returns structuredContent alongside the JSON text', async () => {
+    const result = await client.callTool({ name: 'list_courses', arguments: {} });
+    assert.deepEqual(result.structuredContent, JSON.parse(result.content[0].text));
+  });
+
+  it('nests list results under a key', async () => {
+    const grades = await client.callTool({ name: 'get_grades', arguments: {} });
+    assert.deepEqual(grades.structuredContent.grades, JSON.parse(grades.content[0].text));
+
+    const upcoming = await client.callTool({ name: 'get_upcoming_assignments', arguments: { days: 30 } });
+    assert.deepEqual(upcoming.structuredContent.assignments, JSON.parse(upcoming.content[0].text));
+  });
+
+  it('keeps the calendar feed as text and describes it in structuredContent', async () => {
+    const result = await client.callTool({ name: 'export_calendar', arguments: {} });
+    assert.match(result.content[0].text, /^BEGIN:VCALENDAR/);
+    assert.equal(result.structuredContent.calendar, result.content[0].text);
+    assert.equal(result.structuredContent.timezone, 'UTC');
+    assert.equal(typeof result.structuredContent.events, 'number');
+  });
+});
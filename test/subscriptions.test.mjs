@@ -0,0 +1,92 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer, waitFor } from './helpers.mjs';
+
+describe('resource subscriptions', () => {
+  let server;
+  let client;
+  let fixtures;
+  const updated = [];
+  let listChanged = 0;
+
+  before(async () => {
+    fixtures = buildFixtures();
+    server = await startServer(fixtures, { CLASSROOM_POLL_INTERVAL: '0.1' });
+    client = server.client;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      updated.push(n.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('advertises subscribe and listChanged', () => {
+    const { resources } = client.getServerCapabilities();
+    assert.equal(resources.subscribe, true);
+    assert.equal(resources.listChanged, true);
+  });
+
+  it('notifies when a subscribed submission is graded', async () => {
+    const submissionUri = 'classroom://courses/bio/coursework/bio-essay/submission';
+    await client.subscribeResource({ uri: submissionUri });
+    await client.subscribeResource({ uri: 'classroom://courses/hist/announcements' });
+
+    const essay = fixtures.studentSubmissions.find((s) => s.courseWorkId === 'bio-essay');
+    essay.state = 'RETURNED';
+    essay.assignedGrade = 95;
+    server.updateFixtures(fixtures);
+
+    await waitFor(() => updated.includes(submissionUri));
+    assert.ok(!updated.includes('classroom://courses/hist/announcements'));
+  });
+
+  it('notifies on new announcements and signals list changes for new assignments', async () => {
+    fixtures.announcements.push({ courseId: 'hist', id: 'ann-new', text: 'Test moved', state: 'PUBLISHED' });
+    fixtures.courseWork.push({ courseId: 'hist', id: 'hist-new', title: 'Pop Quiz', state: 'PUBLISHED', maxPoints: 5 });
+    server.updateFixtures(fixtures);
+
+    await waitFor(() => updated.includes('classroom://courses/hist/announcements') && listChanged > 0);
+  });
+
+  it('stops notifying after unsubscribe', async () => {
+    await client.unsubscribeResource({ uri: 'classroom://courses/hist/announcements' });
+    await client.unsubscribeResource({ uri: 'classroom://courses/bio/coursework/bio-essay/submission' });
+    updated.length = 0;
+
+    fixtures.announcements.push({ courseId: 'hist', id: 'ann-later', text: 'Ignored', state: 'PUBLISHED' });
+    server.updateFixtures(fixtures);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    assert.deepEqual(updated, []);
+  });
+
+  it('notifies calendar subscribers when coursework changes in any covered course', async () => {
+    await client.subscribeResource({ uri: 'classroom://calendar' });
+    updated.length = 0;
+
+    // art is archived, so the feed does not cover it.
+    fixtures.courseWork.push({ courseId: 'art', id: 'art-new', title: 'Sketchbook', state: 'PUBLISHED', maxPoints: 5 });
+    server.updateFixtures(fixtures);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    assert.deepEqual(updated, []);
+
+    fixtures.courseWork.find((cw) => cw.id === 'hist-new').dueDate = { year: 2030, month: 1, day: 15 };
+    server.updateFixtures(fixtures);
+    await waitFor(() => updated.includes('classroom://calendar'));
+    await client.unsubscribeResource({ uri: 'classroom://calendar' });
+  });
+
+  it('rejects subscriptions to unknown resources', async () => {
+    await assert.rejects(client.subscribeResource({ uri: 'classroom://nowhere' }), /Unknown resource/);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSubmissionReport, gradeDistribution, median } from '../dist/teacher.js';
+import { SCOPES, TEACHER_SCOPE, TEACHER_SCOPES } from '../dist/oauth.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startServer } from './helpers.mjs';
+
+const TEACHER_ENV = { CLASSROOM_TEACHER_MODE: 'on' };
+
+const student = (userId, fullName) => ({
+  courseId: 'bio',
+  userId,
+  profile: { id: userId, name: { fullName }, emailAddress: `${userId}@school.example` },
+});
+
+// Biology with a roster of four; Lab 1 (10 points, past due) is assigned to
+// three of them and student-2 already appears in the shared fixtures.
+function teacherFixtures() {
+  const fixtures = { ...buildFixtures(), grantedScopes: [...SCOPES, ...TEACHER_SCOPES] };
+  const labSubmission = (userId, state, extra = {}) => ({
+    courseId: 'bio',
+    courseWorkId: 'bio-lab1',
+    id: `sub-lab1-${userId}`,
+    userId,
+    state,
+    ...extra,
+  });
+  fixtures.studentSubmissions = [
+    ...fixtures.studentSubmissions,
+    labSubmission('student-3', 'TURNED_IN', { late: true }),
+    labSubmission('student-4', 'CREATED'),
+  ];
+  fixtures.students = [
+    student('student-1', 'Ada Lovelace'),
+    student('student-2', 'Grace Hopper'),
+    student('student-3', 'Alan Turing'),
+    student('student-4', 'Edsger Dijkstra'),
+    student('student-5', 'Barbara Liskov'),
+  ];
+  fixtures.teachers = [{ courseId: 'bio', userId: 'teacher-1', profile: { id: 'teacher-1', name: { fullName: 'Ms. Frizzle' } } }];
+  return fixtures;
+}
+
+describe('grade statistics', () => {
+  it('computes the median of odd and even counts', () => {
+    assert.equal(median([]), null);
+    assert.equal(median([7, 1, 4]), 4);
+    assert.equal(median([1, 2, 3, 10]), 2.5);
+  });
+
+  it('buckets scores by percent of maxPoints', () => {
+    const grades = gradeDistribution([10, 9, 5, 0, 12], 10);
+    assert.equal(grades.graded, 5);
+    assert.equal(grades.mean, 7.2);
+    assert.equal(grades.median, 9);
+    assert.equal(grades.min, 0);
+    assert.equal(grades.max, 12);
+    assert.equal(grades.histogram.length, 10);
+    assert.deepEqual(grades.histogram[0], { from: 0, to: 10, count: 1 });
+    assert.equal(grades.histogram[5].count, 1);
+    // 90%, 100% and the 120% extra-credit score share the top bucket.
+    assert.deepEqual(grades.histogram[9], { from: 90, to: 100, count: 3 });
+  });
+
+  it('leaves out the histogram without maxPoints', () => {
+    assert.equal(gradeDistribution([3], null).histogram, null);
+    assert.deepEqual(gradeDistribution([], 10).histogram.map((b) => b.count), Array(10).fill(0));
+  });
+});
+
+describe('buildSubmissionReport', () => {
+  it('counts states and lists unfinished work by name', () => {
+    const now = Date.UTC(2024, 4, 10);
+    const report = buildSubmissionReport(
+      { courseId: 'c', id: 'cw', title: 'Essay', maxPoints: 20, dueDate: { year: 2024, month: 5, day: 1 } },
+      [
+        { userId: 'a', state: 'RETURNED', assignedGrade: 18 },
+        { userId: 'b', state: 'TURNED_IN', late: true },
+        { userId: 'c', state: 'RECLAIMED_BY_STUDENT' },
+        { userId: 'd', state: 'NEW' },
+      ],
+      [
+        { userId: 'c', profile: { name: { fullName: 'Zed' } } },
+        { userId: 'd', profile: { name: { fullName: 'Amy' } } },
+      ],
+      'UTC',
+      now
+    );
+    assert.equal(report.pastDue, true);
+    assert.equal(report.assigned, 4);
+    assert.equal(report.turnedIn, 2);
+    assert.equal(report.late, 1);
+    assert.deepEqual(report.countsByState, { NEW: 1, CREATED: 0, TURNED_IN: 1, RETURNED: 1, RECLAIMED_BY_STUDENT: 1 });
+    assert.deepEqual(report.missing.map((m) => m.name), ['Amy', 'Zed']);
+    assert.deepEqual(report.notTurnedIn, report.missing);
+    assert.equal(report.grades.mean, 18);
+  });
+
+  it('lists nobody as missing before the deadline', () => {
+    const report = buildSubmissionReport(
+      { courseId: 'c', id: 'cw', title: 'Essay', dueDate: { year: 2024, month: 5, day: 20 } },
+      [{ userId: 'a', state: 'TURNED_IN' }, { userId: 'b', state: 'CREATED' }],
+      [],
+      'UTC',
+      Date.UTC(2024, 4, 10)
+    );
+    assert.equal(report.pastDue, false);
+    assert.deepEqual(report.notTurnedIn.map((m) => m.userId), ['b']);
+    assert.deepEqual(report.missing, []);
+  });
+});
+
+describe('teacher tools', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(teacherFixtures(), TEACHER_ENV);
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('lists the roster', async () => {
+    const { students } = await callJson(client, 'list_students', { courseId: 'bio' });
+    assert.equal(students.length, 5);
+    assert.equal(students[0].profile.name.fullName, 'Ada Lovelace');
+
+    const { teachers } = await callJson(client, 'list_teachers', { courseId: 'bio' });
+    assert.deepEqual(teachers.map((t) => t.userId), ['teacher-1']);
+  });
+
+  it('reports every assigned student\'s submission', async () => {
+    const report = await callJson(client, 'get_submission_report', { courseId: 'bio', courseWorkId: 'bio-lab1' });
+    assert.equal(report.title, 'Lab 1');
+    assert.equal(report.pastDue, true);
+    assert.equal(report.assigned, 4);
+    assert.equal(report.countsByState.RETURNED, 2);
+    assert.equal(report.turnedIn, 3);
+    assert.equal(report.late, 1);
+    assert.deepEqual(report.missing, [
+      { userId: 'student-4', name: 'Edsger Dijkstra', email: 'student-4@school.example', state: 'CREATED', late: false },
+    ]);
+    assert.equal(report.grades.graded, 2);
+    assert.equal(report.grades.mean, 5);
+    assert.equal(report.grades.histogram[2].count, 1);
+    assert.equal(report.grades.histogram[8].count, 1);
+  });
+});
+
+describe('teacher mode', () => {
+  it('is off by default', async () => {
+    const server = await startServer(teacherFixtures());
+    try {
+      const { tools } = await server.client.listTools();
+      assert.ok(!tools.some((t) => t.name === 'get_submission_report'));
+      await assert.rejects(
+        server.client.callTool({ name: 'list_students', arguments: { courseId: 'bio' } }),
+        /list_students is disabled.*CLASSROOM_TEACHER_MODE=on/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('asks for setup-auth --teacher when the roster scope was not granted', async () => {
+    const server = await startServer(buildFixtures(), TEACHER_ENV);
+    try {
+      const status = await callJson(server.client, 'auth_status');
+      assert.deepEqual(status.requiredScopes, [...SCOPES, ...TEACHER_SCOPES]);
+      await assert.rejects(
+        server.client.callTool({ name: 'list_students', arguments: { courseId: 'bio' } }),
+        /classroom\.rosters\.readonly.*npm run setup-auth -- --teacher/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('needs the profile email scope for roster email addresses', async () => {
+    const fixtures = { ...buildFixtures(), grantedScopes: [...SCOPES, TEACHER_SCOPE.rosters, TEACHER_SCOPE.submissions] };
+    const server = await startServer(fixtures, TEACHER_ENV);
+    try {
+      await assert.rejects(
+        server.client.callTool({ name: 'list_students', arguments: { courseId: 'bio' } }),
+        /needs the classroom\.profile\.emails scope.*npm run setup-auth -- --teacher/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFixtures } from './fixtures.mjs';
+import { startServer, callJson } from './helpers.mjs';
+
+describe('tools against the offline backend', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(buildFixtures());
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('advertises every tool', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+    for (const name of [
+      'courses', 'course-details', 'assignments', 'list_courses', 'get_course', 'list_coursework',
+      'get_coursework', 'list_submissions', 'list_announcements', 'get_upcoming_assignments',
+      'get_missing_assignments', 'get_assignments', 'calculate_grade', 'simulate_grade', 'get_assignment_materials',
+      'get_grades', 'list_topics', 'list_course_materials', 'get_course_material', 'list_accounts', 'auth_status',
+    ]) {
+      assert.ok(names.includes(name), `missing tool ${name}`);
+    }
+  });
+
+  describe('list_courses', () => {
+    it('drains every page by default', async () => {
+      const data = await callJson(client, 'list_courses');
+      assert.deepEqual(data.courses.map((c) => c.id), ['bio', 'hist', 'art']);
+      assert.equal(data.nextPageToken, undefined);
+    });
+
+    it('filters by state', async () => {
+      const data = await callJson(client, 'list_courses', { courseStates: ['ACTIVE'] });
+      assert.deepEqual(data.courses.map((c) => c.id), ['bio', 'hist']);
+    });
+
+    it('pages on request with pageSize and pageToken', async () => {
+      const first = await callJson(client, 'list_courses', { pageSize: 1 });
+      assert.deepEqual(first.courses.map((c) => c.id), ['bio']);
+      assert.ok(first.nextPageToken);
+
+      const rest = await callJson(client, 'list_courses', { pageToken: first.nextPageToken });
+      assert.deepEqual(rest.courses.map((c) => c.id), ['hist', 'art']);
+    });
+
+    it('caps results with maxItems and returns a resumable token', async () => {
+      const data = await callJson(client, 'list_courses', { maxItems: 2 });
+      assert.equal(data.courses.length, 2);
+      const rest = await callJson(client, 'list_courses', { pageToken: data.nextPageToken });
+      assert.deepEqual(rest.courses.map((c) => c.id), ['art']);
+    });
+
+    it('resumes after a pageSize page capped by maxItems', async () => {
+      const first = await callJson(client, 'list_courses', { pageSize: 2, maxItems: 1 });
+      assert.deepEqual(first.courses.map((c) => c.id), ['bio']);
+      const rest = await callJson(client, 'list_courses', { pageToken: first.nextPageToken });
+      assert.deepEqual(rest.courses.map((c) => c.id), ['hist', 'art']);
+    });
+
+    it('is reachable through the legacy name', async () => {
+      const data = await callJson(client, 'courses');
+      assert.equal(data.courses.length, 3);
+    });
+  });
+
+  it('get_course returns the course', async () => {
+    const course = await callJson(client, 'get_course', { courseId: 'bio' });
+    assert.equal(course.name, 'Biology');
+    const legacy = await callJson(client, 'course-details', { courseId: 'hist' });
+    assert.equal(legacy.name, 'History');
+  });
+
+  it('list_coursework returns published work across pages', async () => {
+    const data = await callJson(client, 'list_coursework', { courseId: 'bio' });
+    assert.equal(data.courseWork.length, 7);
+    const drafts = await callJson(client, 'list_coursework', { courseId: 'bio', courseWorkStates: ['DRAFT'] });
+    assert.deepEqual(drafts.courseWork.map((cw) => cw.id), ['bio-draft']);
+  });
+
+  it('get_coursework returns one assignment', async () => {
+    const cw = await callJson(client, 'get_coursework', { courseId: 'bio', courseWorkId: 'bio-quiz' });
+    assert.equal(cw.title, 'Quiz 1');
+  });
+
+  it('list_submissions only returns the signed-in user', async () => {
+    const data = await callJson(client, 'list_submissions', { courseId: 'bio', courseWorkId: 'bio-lab1' });
+    assert.equal(data.studentSubmissions.length, 1);
+    assert.equal(data.studentSubmissions[0].assignedGrade, 8);
+  });
+
+  it('list_announcements returns published announcements', async () => {
+    const data = await callJson(client, 'list_announcements', { courseId: 'bio' });
+    assert.deepEqual(data.announcements.map((a) => a.id), ['ann-1', 'ann-2']);
+  });
+
+  describe('get_upcoming_assignments', () => {
+    it('looks ahead 7 days by default, ordered by deadline', async () => {
+      const upcoming = await callJson(client, 'get_upcoming_assignments');
+      assert.deepEqual(upcoming.map((a) => a.assignmentId), ['bio-prelab', 'hist-dbq', 'bio-quiz']);
+
+      const month = await callJson(client, 'get_upcoming_assignments', { days: 30 });
+      assert.deepEqual(month.map((a) => a.assignmentId), ['bio-prelab', 'hist-dbq', 'bio-quiz', 'bio-project']);
+    });
+
+    it('combines dueDate and dueTime into a full deadline', async () => {
+      const upcoming = await callJson(client, 'get_upcoming_assignments', { timezone: 'UTC' });
+      const prelab = upcoming.find((a) => a.assignmentId === 'bio-prelab');
+      assert.equal(prelab.hasDueTime, true);
+      assert.equal(prelab.dueIn, 'due in 2 hours');
+      assert.match(prelab.dueAt, /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:00\+00:00$/);
+      assert.ok(prelab.hoursUntilDue > 1.5 && prelab.hoursUntilDue <= 2);
+    });
+
+    it('rejects an unknown timezone', async () => {
+      await assert.rejects(
+        client.callTool({ name: 'get_upcoming_assignments', arguments: { timezone: 'Mars/Olympus' } }),
+        /Unknown timezone/
+      );
+    });
+  });
+
+  it('get_missing_assignments lists past-due unsubmitted work', async () => {
+    const missing = await callJson(client, 'get_missing_assignments');
+    assert.deepEqual(
+      missing.map((a) => [a.assignmentId, a.submissionState]),
+      [['bio-essay', 'CREATED'], ['hist-reading', 'NOT_STARTED'], ['bio-checkin', 'NOT_STARTED']]
+    );
+    assert.equal(missing[2].dueIn, 'overdue by 2 hours');
+  });
+
+  it('get_assignments formats published work', async () => {
+    const assignments = await callJson(client, 'get_assignments', { courseId: 'hist' });
+    assert.equal(assignments.length, 7);
+    const journal = assignments.find((a) => a.id === 'hist-journal');
+    assert.equal(journal.dueDate, null);
+    assert.equal(journal.maxPoints, null);
+  });
+
+  describe('topics', () => {
+    it('list_topics returns the course topics', async () => {
+      const data = await callJson(client, 'list_topics', { courseId: 'bio' });
+      assert.deepEqual(data.topics.map((t) => t.name), ['Unit 1: Cells', 'Unit 3: Genetics', 'Unit 4: Ecology']);
+    });
+
+    it('get_assignments filters by topic', async () => {
+      const assignments = await callJson(client, 'get_assignments', { courseId: 'bio', topicId: 'topic-cells' });
+      assert.deepEqual(assignments.map((a) => a.id), ['bio-lab1', 'bio-quiz']);
+      assert.equal(assignments[0].topicId, 'topic-cells');
+    });
+
+    it('get_assignments groups by topic with untopiced work last', async () => {
+      const groups = await callJson(client, 'get_assignments', { courseId: 'bio', groupByTopic: true });
+      assert.deepEqual(groups.map((g) => g.name), ['Unit 1: Cells', 'Unit 3: Genetics', null]);
+      assert.deepEqual(groups[1].assignments.map((a) => a.id), ['bio-project']);
+      assert.equal(groups[2].topicId, null);
+      assert.ok(groups[2].assignments.some((a) => a.id === 'bio-essay'));
+    });
+
+    it('list_coursework filters and groups by topic', async () => {
+      const filtered = await callJson(client, 'list_coursework', { courseId: 'bio', topicId: 'topic-genetics' });
+      assert.deepEqual(filtered.courseWork.map((cw) => cw.id), ['bio-project']);
+      const grouped = await callJson(client, 'list_coursework', { courseId: 'bio', groupByTopic: true });
+      assert.deepEqual(grouped.topics[0].courseWork.map((cw) => cw.id), ['bio-lab1', 'bio-quiz']);
+    });
+
+    it('list_coursework keeps paging until maxItems match the topic', async () => {
+      const both = await callJson(client, 'list_coursework', { courseId: 'bio', topicId: 'topic-cells', maxItems: 2 });
+      assert.deepEqual(both.courseWork.map((cw) => cw.id), ['bio-lab1', 'bio-quiz']);
+
+      const first = await callJson(client, 'list_coursework', { courseId: 'bio', topicId: 'topic-cells', maxItems: 1 });
+      assert.deepEqual(first.courseWork.map((cw) => cw.id), ['bio-lab1']);
+      const rest = await callJson(client, 'list_coursework', { courseId: 'bio', topicId: 'topic-cells', pageToken: first.nextPageToken });
+      assert.deepEqual(rest.courseWork.map((cw) => cw.id), ['bio-quiz']);
+
+      await assert.rejects(
+        client.callTool({ name: 'list_coursework', arguments: { courseId: 'bio', topicId: 'topic-cells', pageSize: 2 } }),
+        /topicId cannot be combined with pageSize/
+      );
+    });
+  });
+
+  describe('course materials', () => {
+    it('list_course_materials normalizes attachments and names topics', async () => {
+      const materials = await callJson(client, 'list_course_materials', { courseId: 'bio' });
+      assert.deepEqual(materials.map((m) => m.id), ['mat-slides', 'mat-syllabus']);
+      assert.equal(materials[0].topicName, 'Unit 3: Genetics');
+      assert.deepEqual(materials[0].materials, [
+        { type: 'driveFile', title: 'Punnett Squares.pptx', url: 'https://drive.google.com/slides', shareMode: 'VIEW' },
+      ]);
+      assert.equal(materials[1].materials[0].type, 'link');
+    });
+
+    it('list_course_materials filters by topic and posting date', async () => {
+      const inTopic = await callJson(client, 'list_course_materials', { courseId: 'bio', topicId: 'topic-genetics' });
+      assert.deepEqual(inTopic.map((m) => m.id), ['mat-slides']);
+      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      const recent = await callJson(client, 'list_course_materials', { courseId: 'bio', postedSince: weekAgo });
+      assert.deepEqual(recent.map((m) => m.id), ['mat-slides']);
+      await assert.rejects(
+        client.callTool({ name: 'list_course_materials', arguments: { courseId: 'bio', postedSince: 'recently' } }),
+        /Invalid postedSince/
+      );
+    });
+
+    it('get_course_material returns one post', async () => {
+      const material = await callJson(client, 'get_course_material', { courseId: 'bio', materialId: 'mat-syllabus' });
+      assert.equal(material.title, 'Syllabus');
+      assert.equal(material.topicId, null);
+      assert.deepEqual(material.materials, [{ type: 'link', title: 'Course syllabus', url: 'https://example.com/syllabus' }]);
+    });
+  });
+
+  describe('calculate_grade', () => {
+    it('totals points when the course is not weighted', async () => {
+      const grade = await callJson(client, 'calculate_grade', { courseId: 'bio' });
+      assert.equal(grade.calculationType, 'TOTAL_POINTS');
+      assert.equal(grade.totalEarned, 8);
+      assert.equal(grade.totalPossible, 10);
+      assert.equal(grade.overallPercentage, 80);
+      assert.equal(grade.gradedAssignments, 1);
+    });
+
+    it('weights category averages for weighted courses', async () => {
+      const grade = await callJson(client, 'calculate_grade', { courseId: 'hist' });
+      assert.equal(grade.calculationType, 'WEIGHTED_CATEGORIES');
+      // Tests 90% * 0.6 + Homework 50% * 0.4
+      assert.equal(grade.overallPercentage, 74);
+      assert.deepEqual(
+        grade.categories.map((c) => [c.name, c.weight, c.percentage]),
+        [['Tests', 60, 90], ['Homework', 40, 50]]
+      );
+      assert.deepEqual(
+        grade.excluded.map((e) => [e.assignmentId, e.reason]).sort(),
+        [
+          ['hist-hw2', 'returned without a grade'],
+          ['hist-map', 'no grade category; weighted courses ignore uncategorized work'],
+        ]
+      );
+    });
+
+    it('rescales weights when excused work empties a category', async () => {
+      const grade = await callJson(client, 'calculate_grade', { courseId: 'hist', excusedAssignmentIds: ['hist-hw1'] });
+      assert.equal(grade.overallPercentage, 90);
+      assert.ok(grade.excluded.some((e) => e.assignmentId === 'hist-hw1' && e.reason === 'excused'));
+    });
+  });
+
+  describe('simulate_grade', () => {
+    it('projects hypothetical scores and solves for a target', async () => {
+      const sim = await callJson(client, 'simulate_grade', {
+        courseId: 'bio',
+        hypotheticalScores: [{ assignmentId: 'bio-quiz', score: 18 }],
+        targetPercentage: 90,
+      });
+      assert.equal(sim.currentPercentage, 80);
+      assert.equal(sim.projectedPercentage, 86.7);
+      assert.equal(sim.maxAchievablePercentage, 98);
+      assert.equal(sim.target.reachable, true);
+      assert.equal(sim.target.requiredPercentage, 90.6);
+      assert.deepEqual(
+        sim.target.perAssignment
+          .filter((a) => ['bio-essay', 'bio-project', 'bio-worksheet'].includes(a.assignmentId))
+          .map((a) => [a.assignmentId, a.minimumScore]),
+        [['bio-essay', 90.7], ['bio-project', 45.4], ['bio-worksheet', 9.1]]
+      );
+    });
+
+    it('reports an unreachable target', async () => {
+      const sim = await callJson(client, 'simulate_grade', { courseId: 'bio', targetPercentage: 99 });
+      assert.equal(sim.target.reachable, false);
+    });
+
+    it('places future assignments in weighted categories', async () => {
+      const sim = await callJson(client, 'simulate_grade', {
+        courseId: 'hist',
+        futureAssignments: [{ title: 'Final Exam', maxPoints: 100, category: 'tests' }],
+        targetPercentage: 80,
+      });
+      assert.equal(sim.calculationType, 'WEIGHTED_CATEGORIES');
+      assert.equal(sim.target.requiredPercentage, 78);
+      assert.ok(sim.remaining.some((a) => a.title === 'Final Exam' && a.assignmentId === null));
+    });
+
+    it('rejects scores for work that is already graded', async () => {
+      await assert.rejects(
+        client.callTool({
+          name: 'simulate_grade',
+          arguments: { courseId: 'bio', hypotheticalScores: [{ assignmentId: 'bio-lab1', score: 10 }] },
+        }),
+        /not an ungraded/
+      );
+    });
+
+    it('rejects negative scores and marks extra credit', async () => {
+      await assert.rejects(
+        client.callTool({
+          name: 'simulate_grade',
+          arguments: { courseId: 'bio', hypotheticalScores: [{ assignmentId: 'bio-quiz', score: -5 }] },
+        }),
+        /score must be >= 0/
+      );
+      const sim = await callJson(client, 'simulate_grade', {
+        courseId: 'bio',
+        hypotheticalScores: [{ assignmentId: 'bio-quiz', score: 25 }],
+      });
+      assert.deepEqual(sim.hypothetical.map((item) => [item.score, item.possible, item.extraCredit]), [[25, 20, true]]);
+    });
+  });
+
+  it('get_assignment_materials normalizes every material type', async () => {
+    const data = await callJson(client, 'get_assignment_materials', { courseId: 'bio', courseWorkId: 'bio-quiz' });
+    assert.deepEqual(data.materials.map((m) => m.type), ['driveFile', 'link', 'youTubeVideo', 'form']);
+    assert.equal(data.materials[0].url, 'https://drive.google.com/guide');
+  });
+
+  it('get_grades covers every active course', async () => {
+    const grades = await callJson(client, 'get_grades');
+    assert.equal(grades.length, 9);
+    const test = grades.find((g) => g.assignmentId === 'hist-test');
+    assert.equal(test.assignedGrade, 90);
+    assert.equal(test.maxPoints, 100);
+  });
+
+  describe('errors', () => {
+    it('rejects an unknown course', async () => {
+      await assert.rejects(client.callTool({ name: 'get_course', arguments: { courseId: 'nope' } }), /not found/);
+    });
+
+    it('rejects an unknown tool', async () => {
+      await assert.rejects(client.callTool({ name: 'no_such_tool', arguments: {} }), /Unknown tool/);
+    });
+  });
+});
+
+describe('without credentials', () => {
+  it('reports that the API is not initialized', async () => {
+    const server = await startServer(null);
+    try {
+      await assert.rejects(server.client.callTool({ name: 'list_courses', arguments: {} }), /not initialized/);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { planWrite } from '../dist/writes.js';
+import { SCOPES, WRITE_SCOPES } from '../dist/oauth.js';
+import { buildFixtures } from './fixtures.mjs';
+import { callJson, startServer } from './helpers.mjs';
+
+const WRITE_ENV = { CLASSROOM_WRITE_MODE: 'on' };
+
+function writeFixtures() {
+  const fixtures = { ...buildFixtures(), grantedScopes: [...SCOPES, ...WRITE_SCOPES] };
+  fixtures.courseWork = fixtures.courseWork.map((cw) =>
+    cw.id === 'hist-dbq' ? { ...cw, associatedWithDeveloper: false } : cw
+  );
+  return fixtures;
+}
+
+describe('planWrite', () => {
+  const assignment = { id: 'cw', title: 'Essay', workType: 'ASSIGNMENT' };
+
+  it('describes the state change', () => {
+    const plan = planWrite('turn_in', assignment, { state: 'CREATED' });
+    assert.equal(plan.before.state, 'CREATED');
+    assert.equal(plan.after.state, 'TURNED_IN');
+    assert.deepEqual(plan.changes, ['state: CREATED → TURNED_IN']);
+    assert.match(plan.warnings[0], /Nothing is attached/);
+  });
+
+  it('refuses changes Classroom would reject', () => {
+    assert.throws(() => planWrite('turn_in', assignment, { state: 'TURNED_IN' }), /already turned in/);
+    assert.throws(() => planWrite('reclaim', assignment, { state: 'RETURNED' }), /nothing to reclaim/);
+    assert.throws(() => planWrite('add_link', assignment, { state: 'CREATED' }, 'ftp://x'), /http\(s\) link/);
+    assert.throws(() => planWrite('add_link', { ...assignment, workType: 'SHORT_ANSWER_QUESTION' }, { state: 'CREATED' }, 'https://x.example'), /only be attached to assignments/);
+    assert.throws(
+      () => planWrite('add_link', assignment, { state: 'CREATED', assignmentSubmission: { attachments: [{ link: { url: 'https://x.example/' } }] } }, 'https://x.example/'),
+      /already attached/
+    );
+  });
+
+  it('warns about coursework created outside this app', () => {
+    const plan = planWrite('reclaim', { ...assignment, associatedWithDeveloper: false }, { state: 'TURNED_IN' });
+    assert.match(plan.warnings[0], /not created through this app/);
+  });
+});
+
+describe('write tools', () => {
+  let server;
+  let client;
+
+  before(async () => {
+    server = await startServer(writeFixtures(), WRITE_ENV);
+    client = server.client;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('previews a change without making it', async () => {
+    const preview = await callJson(client, 'turn_in_submission', { courseId: 'bio', courseWorkId: 'bio-essay', dryRun: true });
+    assert.equal(preview.dryRun, true);
+    assert.equal(preview.applied, false);
+    assert.equal(preview.submissionId, 'sub-bio-essay');
+    assert.deepEqual(preview.changes, ['state: CREATED → TURNED_IN']);
+
+    const { studentSubmissions } = await callJson(client, 'list_submissions', { courseId: 'bio', courseWorkId: 'bio-essay' });
+    assert.equal(studentSubmissions[0].state, 'CREATED');
+  });
+
+  it('requires confirm: true to write', async () => {
+    await assert.rejects(
+      client.callTool({ name: 'turn_in_submission', arguments: { courseId: 'bio', courseWorkId: 'bio-essay' } }),
+      (error) => {
+        assert.equal(error.code, -32602);
+        assert.match(error.message, /needs confirm: true \(would state: CREATED → TURNED_IN\)/);
+        return true;
+      }
+    );
+  });
+
+  it('attaches a link, turns in and reclaims', async () => {
+    const args = { courseId: 'bio', courseWorkId: 'bio-essay', confirm: true };
+    const linked = await callJson(client, 'add_submission_link', { ...args, url: 'https://docs.example/essay' });
+    assert.equal(linked.applied, true);
+    assert.deepEqual(linked.after.attachments, [{ type: 'link', title: null, url: 'https://docs.example/essay' }]);
+
+    const turnedIn = await callJson(client, 'turn_in_submission', args);
+    assert.equal(turnedIn.before.state, 'CREATED');
+    assert.equal(turnedIn.after.state, 'TURNED_IN');
+
+    await assert.rejects(client.callTool({ name: 'turn_in_submission', arguments: args }), /already turned in/);
+
+    const reclaimed = await callJson(client, 'reclaim_submission', args);
+    assert.equal(reclaimed.after.state, 'RECLAIMED_BY_STUDENT');
+  });
+
+  it('explains why Classroom refuses coursework from another project', async () => {
+    const preview = await callJson(client, 'turn_in_submission', { courseId: 'hist', courseWorkId: 'hist-dbq', dryRun: true });
+    assert.match(preview.warnings.join('\n'), /not created through this app/);
+
+    await assert.rejects(
+      client.callTool({ name: 'turn_in_submission', arguments: { courseId: 'hist', courseWorkId: 'hist-dbq', confirm: true } }),
+      /only lets the Google Cloud project that created an assignment/
+    );
+  });
+
+  it('requires the write scope', async () => {
+    const status = await callJson(client, 'auth_status');
+    assert.deepEqual(status.requiredScopes, [...SCOPES, ...WRITE_SCOPES]);
+  });
+});
+
+describe('write mode', () => {
+  it('is off by default', async () => {
+    const server = await startServer(writeFixtures());
+    try {
+      const { tools } = await server.client.listTools();
+      assert.ok(!tools.some((t) => t.name === 'turn_in_submission'));
+      await assert.rejects(
+        server.client.callTool({ name: 'turn_in_submission', arguments: { courseId: 'bio', courseWorkId: 'bio-essay' } }),
+        /turn_in_submission is disabled.*CLASSROOM_WRITE_MODE=on/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('asks for setup-auth --write when the scope was not granted', async () => {
+    const server = await startServer(buildFixtures(), WRITE_ENV);
+    try {
+      await assert.rejects(
+        server.client.callTool({ name: 'reclaim_submission', arguments: { courseId: 'bio', courseWorkId: 'bio-worksheet', dryRun: true } }),
+        /classroom\.coursework\.me.*npm run setup-auth -- --write/
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});